@@ -0,0 +1,13 @@
+module.exports = {
+  istanbulReporter: ["html", "lcov", "text"],
+  providerOptions: {
+    mnemonic: process.env.MNEMONIC,
+  },
+  skipFiles: ["test"],
+  // AutoPaySystem only compiles with viaIR, which the instrumented build needs the Yul optimizer for
+  configureYulOptimizer: true,
+  mocha: {
+    fgrep: "[skip-on-coverage]",
+    invert: true,
+  },
+};
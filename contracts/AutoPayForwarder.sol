@@ -0,0 +1,9 @@
+pragma solidity ^0.8.24;
+
+import { ERC2771Forwarder } from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/// Trusted ERC-2771 forwarder of AutoPaySystem: checks a signed ForwardRequest and calls
+/// the target with the signer appended to the calldata, while a relay pays the gas
+contract AutoPayForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("AutoPayForwarder") {}
+}
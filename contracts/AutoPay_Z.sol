@@ -1,14 +1,27 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint32, externalEuint32, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { ReentrancyGuard } from "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import { ERC2771Context } from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { SignatureChecker } from "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
+import { IERC7984 } from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+
+/// Accepts ERC-2771 meta-transactions from one trusted forwarder (see AutoPayForwarder), so
+/// subscribers can manage subscriptions through a relay without holding ETH. Encrypted inputs
+/// are bound to the direct caller, so calls taking them must still be sent directly
+contract AutoPaySystem is ZamaEthereumConfig, ReentrancyGuard, EIP712, ERC2771Context {
+    using SafeERC20 for IERC20;
 
-contract AutoPaySystem is ZamaEthereumConfig {
     struct PaymentRule {
         string ruleId;
-        euint32 encryptedThreshold;
-        uint256 publicThreshold;
+        bool isConfidential;
+        uint256 paymentInterval;
         address recipient;
+        address paymentToken;
         string description;
         address creator;
         uint256 timestamp;
@@ -21,49 +34,190 @@ contract AutoPaySystem is ZamaEthereumConfig {
         address subscriber;
         uint256 lastPaymentTimestamp;
         bool isActive;
+        // Payments resume at this timestamp; type(uint256).max until resumeSubscription()
+        uint256 pausedUntil;
+        uint256 paymentCount;
+        // Set by the subscriber; 0 means no bound. Counts every confidential execution,
+        // including the ones that moved an encrypted zero
+        uint256 maxPayments;
+        uint256 endTimestamp;
+        // A pending terms version the subscriber accepted before its notice period ended
+        uint256 acceptedTermsVersion;
+    }
+
+    // One version of a rule's terms; the amount is clear for regular rules and
+    // encrypted for confidential ones
+    struct RuleTerms {
+        euint32 encryptedThreshold;
+        euint64 encryptedAmount;
+        uint256 amount;
+        uint256 effectiveAt;
+    }
+
+    // Set by the subscriber; unset means unlimited. Only the subscriber can decrypt them
+    struct SpendingLimits {
+        euint64 periodCap;
+        euint64 budget;
     }
 
-    mapping(string => PaymentRule) public paymentRules;
-    mapping(string => Subscription) public subscriptions;
-    mapping(string => string[]) public ruleSubscriptions;
+    mapping(string => PaymentRule) private paymentRules;
+    // Every version of each rule's terms, version 0 being those it was created with
+    mapping(string => RuleTerms[]) public ruleTerms;
+    mapping(string => Subscription) private subscriptions;
+    mapping(string => string[]) private ruleSubscriptions;
+    mapping(string => uint256) public escrowBalances;
+    mapping(string => address) public ruleOracles;
+    mapping(string => ebool) private conditionResults;
+    // metric >= threshold alone; conditionResults also requires the payment to fit the limits
+    mapping(string => ebool) private thresholdResults;
+    // Terms version a pending metric was evaluated under, and is paid under
+    mapping(string => uint256) private conditionTermsVersion;
+    // Pending terms version the subscriber declined; declining shortened their end date,
+    // so they cannot accept that version afterwards
+    mapping(string => uint256) public declinedTermsVersion;
+    mapping(string => SpendingLimits) private spendingLimits;
+    mapping(string => euint64) private subscriptionSpend;
+    mapping(string => mapping(uint256 => euint64)) private subscriptionPeriodSpend;
+    mapping(address => string[]) private creatorRuleIds;
+    mapping(address => string[]) private subscriberSubscriptionIds;
+
+    // Encrypted running totals of what each subscriber paid, per payment token
+    // (amounts in different tokens are never summed together). Only the
+    // subscriber is ACL-granted the handles, so nobody else can decrypt them
+    mapping(address => mapping(address => euint64)) private spendTotals;
+    mapping(address => mapping(address => mapping(uint256 => euint64))) private periodSpend;
+    mapping(address => mapping(address => mapping(address => euint64))) private recipientSpend;
 
-    string[] public ruleIds;
-    string[] public subscriptionIds;
+    string[] private ruleIds;
+    string[] private subscriptionIds;
+
+    // Consent nonces a subscriber has used or revoked. Any other nonce is accepted, so a
+    // subscriber can hold several signed consents, used in any order and revoked one by one
+    mapping(address => mapping(uint256 => bool)) public usedConsentNonces;
+
+    bytes32 public constant SUBSCRIPTION_CONSENT_TYPEHASH =
+        keccak256(
+            "SubscriptionConsent(string subscriptionId,string ruleId,address subscriber,uint256 nonce,uint256 deadline)"
+        );
+
+    /// Spend analytics are bucketed into periods of this length since the Unix epoch
+    uint256 public constant SPEND_PERIOD = 30 days;
+
+    /// New rule terms apply to existing subscriptions this long after they are proposed
+    uint256 public constant TERMS_NOTICE_PERIOD = 7 days;
 
     event PaymentRuleCreated(string indexed ruleId, address indexed creator);
     event SubscriptionCreated(string indexed subscriptionId, string indexed ruleId, address indexed subscriber);
-    event PaymentExecuted(string indexed subscriptionId, string indexed ruleId, address indexed recipient);
+    event PaymentExecuted(
+        string indexed subscriptionId,
+        string indexed ruleId,
+        address indexed recipient,
+        address paymentToken,
+        uint256 amount
+    );
+    event ConfidentialPaymentExecuted(
+        string indexed subscriptionId,
+        string indexed ruleId,
+        address indexed recipient,
+        address paymentToken,
+        euint64 transferred
+    );
+    event MetricSubmitted(string indexed subscriptionId, address indexed submitter);
+    event RuleOracleUpdated(string indexed ruleId, address indexed oracle);
+    event EscrowDeposited(string indexed subscriptionId, address indexed from, uint256 amount);
+    event EscrowWithdrawn(string indexed subscriptionId, address indexed subscriber, uint256 amount);
+    event RuleStatusChanged(string indexed ruleId, bool isActive);
+    event RuleDescriptionUpdated(string indexed ruleId, string description);
+    event RuleRecipientUpdated(string indexed ruleId, address indexed recipient);
+    event ConsentRevoked(address indexed subscriber, uint256 nonce);
+    event SpendingLimitsUpdated(string indexed subscriptionId);
+    event SubscriptionDisabled(string indexed subscriptionId, address indexed subscriber);
+    event SubscriptionPaused(string indexed subscriptionId, uint256 resumeAt);
+    event SubscriptionResumed(string indexed subscriptionId);
+    event SubscriptionEndUpdated(string indexed subscriptionId, uint256 maxPayments, uint256 endTimestamp);
+    event SubscriptionExpired(string indexed subscriptionId);
+    event RuleTermsProposed(string indexed ruleId, uint256 version, uint256 effectiveAt);
+    event RuleTermsAccepted(string indexed subscriptionId, uint256 version);
+    event RuleTermsDeclined(string indexed subscriptionId, uint256 version);
 
-    constructor() ZamaEthereumConfig() {
+    constructor(
+        address forwarder
+    ) ZamaEthereumConfig() EIP712("AutoPaySystem", "1") ERC2771Context(forwarder) {
     }
 
     function createPaymentRule(
         string calldata ruleId,
         externalEuint32 encryptedThreshold,
         bytes calldata inputProof,
-        uint256 publicThreshold,
+        uint256 amount,
+        uint256 paymentInterval,
         address recipient,
+        address paymentToken,
         string calldata description
     ) external {
         require(bytes(paymentRules[ruleId].ruleId).length == 0, "Rule already exists");
-        require(FHE.isInitialized(FHE.fromExternal(encryptedThreshold, inputProof)), "Invalid encrypted input");
+        require(paymentInterval > 0, "Invalid payment interval");
+        require(recipient != address(0), "Invalid recipient");
+        require(amount <= type(uint64).max, "Amount exceeds euint64 range");
+
+        euint32 threshold = FHE.fromExternal(encryptedThreshold, inputProof);
+        require(FHE.isInitialized(threshold), "Invalid encrypted input");
 
         paymentRules[ruleId] = PaymentRule({
             ruleId: ruleId,
-            encryptedThreshold: FHE.fromExternal(encryptedThreshold, inputProof),
-            publicThreshold: publicThreshold,
+            isConfidential: false,
+            paymentInterval: paymentInterval,
             recipient: recipient,
+            paymentToken: paymentToken,
             description: description,
-            creator: msg.sender,
+            creator: _msgSender(),
             timestamp: block.timestamp,
             isActive: true
         });
 
-        FHE.allowThis(paymentRules[ruleId].encryptedThreshold);
-        FHE.makePubliclyDecryptable(paymentRules[ruleId].encryptedThreshold);
+        addRuleTerms(ruleId, threshold, euint64.wrap(0), amount, block.timestamp);
 
         ruleIds.push(ruleId);
-        emit PaymentRuleCreated(ruleId, msg.sender);
+        creatorRuleIds[_msgSender()].push(ruleId);
+        emit PaymentRuleCreated(ruleId, _msgSender());
+    }
+
+    function createConfidentialPaymentRule(
+        string calldata ruleId,
+        externalEuint64 encryptedAmount,
+        externalEuint32 encryptedThreshold,
+        bytes calldata inputProof,
+        uint256 paymentInterval,
+        address recipient,
+        address paymentToken,
+        string calldata description
+    ) external {
+        require(bytes(paymentRules[ruleId].ruleId).length == 0, "Rule already exists");
+        require(paymentInterval > 0, "Invalid payment interval");
+        require(recipient != address(0), "Invalid recipient");
+        require(paymentToken != address(0), "Confidential token required");
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        euint32 threshold = FHE.fromExternal(encryptedThreshold, inputProof);
+        require(FHE.isInitialized(amount) && FHE.isInitialized(threshold), "Invalid encrypted input");
+
+        paymentRules[ruleId] = PaymentRule({
+            ruleId: ruleId,
+            isConfidential: true,
+            paymentInterval: paymentInterval,
+            recipient: recipient,
+            paymentToken: paymentToken,
+            description: description,
+            creator: _msgSender(),
+            timestamp: block.timestamp,
+            isActive: true
+        });
+
+        addRuleTerms(ruleId, threshold, amount, 0, block.timestamp);
+
+        ruleIds.push(ruleId);
+        creatorRuleIds[_msgSender()].push(ruleId);
+        emit PaymentRuleCreated(ruleId, _msgSender());
     }
 
     function createSubscription(
@@ -71,8 +225,55 @@ contract AutoPaySystem is ZamaEthereumConfig {
         string calldata ruleId,
         address subscriber
     ) external {
+        require(_msgSender() == subscriber, "Only subscriber can subscribe without consent");
+        addSubscription(subscriptionId, ruleId, subscriber);
+    }
+
+    /// Subscribe `subscriber` on their behalf with their EIP-712 SubscriptionConsent,
+    /// signed by an EOA or approved by a contract wallet (ERC-1271)
+    function createSubscriptionWithConsent(
+        string calldata subscriptionId,
+        string calldata ruleId,
+        address subscriber,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(block.timestamp <= deadline, "Consent expired");
+        useConsentNonce(subscriber, nonce);
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                SUBSCRIPTION_CONSENT_TYPEHASH,
+                keccak256(bytes(subscriptionId)),
+                keccak256(bytes(ruleId)),
+                subscriber,
+                nonce,
+                deadline
+            )
+        );
+        require(
+            SignatureChecker.isValidSignatureNow(subscriber, _hashTypedDataV4(structHash), signature),
+            "Invalid consent signature"
+        );
+
+        addSubscription(subscriptionId, ruleId, subscriber);
+    }
+
+    /// Void the consent signed with `nonce`, if nobody submitted it yet
+    function revokeConsent(uint256 nonce) external {
+        useConsentNonce(_msgSender(), nonce);
+        emit ConsentRevoked(_msgSender(), nonce);
+    }
+
+    function useConsentNonce(address subscriber, uint256 nonce) private {
+        require(!usedConsentNonces[subscriber][nonce], "Consent already used or revoked");
+        usedConsentNonces[subscriber][nonce] = true;
+    }
+
+    function addSubscription(string calldata subscriptionId, string calldata ruleId, address subscriber) private {
         require(bytes(subscriptions[subscriptionId].subscriptionId).length == 0, "Subscription already exists");
-        require(bytes(paymentRules[ruleId].ruleId).length > 0, "Rule does not exist");
+        requireRuleExists(ruleId);
         require(paymentRules[ruleId].isActive, "Rule is not active");
 
         subscriptions[subscriptionId] = Subscription({
@@ -80,37 +281,231 @@ contract AutoPaySystem is ZamaEthereumConfig {
             ruleId: ruleId,
             subscriber: subscriber,
             lastPaymentTimestamp: 0,
-            isActive: true
+            isActive: true,
+            pausedUntil: 0,
+            paymentCount: 0,
+            maxPayments: 0,
+            endTimestamp: 0,
+            acceptedTermsVersion: 0
         });
 
+        // The subscriber may decrypt the amount they pay now and any amount already proposed
+        if (paymentRules[ruleId].isConfidential) {
+            RuleTerms[] storage versions = ruleTerms[ruleId];
+            for (uint256 version = latestTermsInEffect(versions); version < versions.length; version++) {
+                FHE.allow(versions[version].encryptedAmount, subscriber);
+            }
+        }
+
         ruleSubscriptions[ruleId].push(subscriptionId);
         subscriptionIds.push(subscriptionId);
+        subscriberSubscriptionIds[subscriber].push(subscriptionId);
 
         emit SubscriptionCreated(subscriptionId, ruleId, subscriber);
     }
 
+    function setRuleOracle(string calldata ruleId, address oracle) external {
+        requireRuleExists(ruleId);
+        require(_msgSender() == paymentRules[ruleId].creator, "Only creator can update rule");
+
+        ruleOracles[ruleId] = oracle;
+
+        emit RuleOracleUpdated(ruleId, oracle);
+    }
+
+    // The metric is compared to the encrypted threshold homomorphically, and the payment
+    // to the subscriber's spending limits, so only the combined boolean outcome is ever
+    // exposed - and for confidential rules not even that
+    function submitEncryptedMetric(
+        string calldata subscriptionId,
+        externalEuint32 encryptedMetric,
+        bytes calldata inputProof
+    ) external {
+        requireSubscriptionExists(subscriptionId);
+        Subscription storage sub = subscriptions[subscriptionId];
+        require(sub.isActive, "Subscription is not active");
+        require(!hasEnded(sub), "Subscription has ended");
+
+        PaymentRule storage rule = paymentRules[sub.ruleId];
+        require(rule.isActive, "Rule is not active");
+        require(
+            _msgSender() == sub.subscriber || (ruleOracles[sub.ruleId] != address(0) && _msgSender() == ruleOracles[sub.ruleId]),
+            "Only subscriber or oracle can submit metric"
+        );
+
+        uint256 version = subscriptionTermsVersion(subscriptionId);
+        conditionTermsVersion[subscriptionId] = version;
+
+        euint32 metric = FHE.fromExternal(encryptedMetric, inputProof);
+        ebool met = FHE.ge(metric, ruleTerms[sub.ruleId][version].encryptedThreshold);
+        FHE.allowThis(met);
+        thresholdResults[subscriptionId] = met;
+
+        updateCondition(subscriptionId);
+
+        emit MetricSubmitted(subscriptionId, _msgSender());
+    }
+
+    /// Encrypted cap on what one SPEND_PERIOD may pay and on the subscription's lifetime
+    /// total. A payment that would exceed either is skipped (public rules) or moves an
+    /// encrypted zero (confidential rules); a pending metric is re-evaluated right away
+    function setSpendingLimits(
+        string calldata subscriptionId,
+        externalEuint64 encryptedPeriodCap,
+        externalEuint64 encryptedBudget,
+        bytes calldata inputProof
+    ) external {
+        requireSubscriptionExists(subscriptionId);
+        require(_msgSender() == subscriptions[subscriptionId].subscriber, "Only subscriber can update subscription");
+
+        euint64 periodCap = FHE.fromExternal(encryptedPeriodCap, inputProof);
+        euint64 budget = FHE.fromExternal(encryptedBudget, inputProof);
+        FHE.allowThis(periodCap);
+        FHE.allow(periodCap, _msgSender());
+        FHE.allowThis(budget);
+        FHE.allow(budget, _msgSender());
+        spendingLimits[subscriptionId] = SpendingLimits({ periodCap: periodCap, budget: budget });
+
+        if (FHE.isInitialized(conditionResults[subscriptionId])) {
+            updateCondition(subscriptionId);
+        }
+
+        emit SpendingLimitsUpdated(subscriptionId);
+    }
+
+    function getSpendingLimitHandles(
+        string calldata subscriptionId
+    ) external view returns (euint64 periodCap, euint64 budget) {
+        SpendingLimits storage limits = spendingLimits[subscriptionId];
+        return (limits.periodCap, limits.budget);
+    }
+
+    /// What the subscription paid in total and in `period`, decryptable by the subscriber
+    function getSubscriptionSpendHandles(
+        string calldata subscriptionId,
+        uint256 period
+    ) external view returns (euint64 total, euint64 periodTotal) {
+        return (subscriptionSpend[subscriptionId], subscriptionPeriodSpend[subscriptionId][period]);
+    }
+
+    function getConditionHandle(string calldata subscriptionId) external view returns (bytes32) {
+        requireSubscriptionExists(subscriptionId);
+        return FHE.toBytes32(conditionResults[subscriptionId]);
+    }
+
     function executePayment(
         string calldata subscriptionId,
         bytes memory abiEncodedClearValue,
         bytes memory decryptionProof
-    ) external {
-        require(bytes(subscriptions[subscriptionId].subscriptionId).length > 0, "Subscription does not exist");
+    ) external nonReentrant {
+        requireSubscriptionExists(subscriptionId);
         require(subscriptions[subscriptionId].isActive, "Subscription is not active");
 
         PaymentRule storage rule = paymentRules[subscriptions[subscriptionId].ruleId];
         require(rule.isActive, "Rule is not active");
+        require(!rule.isConfidential, "Rule is confidential");
+        require(block.timestamp >= nextDueTimestamp(subscriptionId), "Payment not due yet");
+        requireSchedulePermits(subscriptions[subscriptionId]);
+
+        require(FHE.isInitialized(conditionResults[subscriptionId]), "Condition not submitted");
 
         bytes32[] memory cts = new bytes32[](1);
-        cts[0] = FHE.toBytes32(rule.encryptedThreshold);
+        cts[0] = FHE.toBytes32(conditionResults[subscriptionId]);
 
         FHE.checkSignatures(cts, abiEncodedClearValue, decryptionProof);
 
-        uint32 decodedValue = abi.decode(abiEncodedClearValue, (uint32));
-        require(decodedValue >= rule.publicThreshold, "Threshold not met");
+        bool met = abi.decode(abiEncodedClearValue, (bool));
+        require(met, "Condition not met");
+
+        uint256 amount = conditionTerms(subscriptionId).amount;
+
+        // Each submitted metric pays out at most once
+        conditionResults[subscriptionId] = ebool.wrap(0);
+        thresholdResults[subscriptionId] = ebool.wrap(0);
+        recordPayment(subscriptionId);
+
+        if (rule.paymentToken == address(0)) {
+            require(escrowBalances[subscriptionId] >= amount, "Insufficient escrow balance");
+            escrowBalances[subscriptionId] -= amount;
+            (bool sent, ) = rule.recipient.call{ value: amount }("");
+            require(sent, "ETH transfer failed");
+        } else {
+            IERC20(rule.paymentToken).safeTransferFrom(
+                subscriptions[subscriptionId].subscriber,
+                rule.recipient,
+                amount
+            );
+        }
 
-        subscriptions[subscriptionId].lastPaymentTimestamp = block.timestamp;
+        euint64 paid = FHE.asEuint64(uint64(amount));
+        recordSubscriptionSpend(subscriptionId, paid);
+        recordSpend(subscriptions[subscriptionId].subscriber, rule.recipient, rule.paymentToken, paid);
 
-        emit PaymentExecuted(subscriptionId, rule.ruleId, rule.recipient);
+        emit PaymentExecuted(subscriptionId, rule.ruleId, rule.recipient, rule.paymentToken, amount);
+    }
+
+    /// Pay a confidential rule's encrypted amount, or an encrypted zero when the pending
+    /// metric missed the threshold or the spending limits. Whether it was met stays
+    /// encrypted, so every execution counts as a payment: it restarts the interval and
+    /// counts towards maxPayments even when nothing moved
+    function executeConfidentialPayment(string calldata subscriptionId) external nonReentrant {
+        requireSubscriptionExists(subscriptionId);
+        require(subscriptions[subscriptionId].isActive, "Subscription is not active");
+
+        PaymentRule storage rule = paymentRules[subscriptions[subscriptionId].ruleId];
+        require(rule.isActive, "Rule is not active");
+        require(rule.isConfidential, "Rule is not confidential");
+        require(block.timestamp >= nextDueTimestamp(subscriptionId), "Payment not due yet");
+        requireSchedulePermits(subscriptions[subscriptionId]);
+
+        require(FHE.isInitialized(conditionResults[subscriptionId]), "Condition not submitted");
+
+        // An unmet condition or exceeded limit still executes, but moves an encrypted zero
+        euint64 amount = FHE.select(
+            conditionResults[subscriptionId],
+            conditionTerms(subscriptionId).encryptedAmount,
+            FHE.asEuint64(0)
+        );
+
+        conditionResults[subscriptionId] = ebool.wrap(0);
+        thresholdResults[subscriptionId] = ebool.wrap(0);
+        recordPayment(subscriptionId);
+
+        FHE.allowTransient(amount, rule.paymentToken);
+        euint64 transferred = IERC7984(rule.paymentToken).confidentialTransferFrom(
+            subscriptions[subscriptionId].subscriber,
+            rule.recipient,
+            amount
+        );
+
+        // `transferred` is transiently allowed to this contract by the token
+        recordSubscriptionSpend(subscriptionId, transferred);
+        recordSpend(subscriptions[subscriptionId].subscriber, rule.recipient, rule.paymentToken, transferred);
+
+        emit ConfidentialPaymentExecuted(subscriptionId, rule.ruleId, rule.recipient, rule.paymentToken, transferred);
+    }
+
+    function depositEscrow(string calldata subscriptionId) external payable {
+        requireSubscriptionExists(subscriptionId);
+        PaymentRule storage rule = paymentRules[subscriptions[subscriptionId].ruleId];
+        require(rule.paymentToken == address(0) && !rule.isConfidential, "Rule is not paid in ETH");
+        require(msg.value > 0, "Nothing to deposit");
+
+        escrowBalances[subscriptionId] += msg.value;
+
+        emit EscrowDeposited(subscriptionId, _msgSender(), msg.value);
+    }
+
+    function withdrawEscrow(string calldata subscriptionId, uint256 amount) external nonReentrant {
+        requireSubscriptionExists(subscriptionId);
+        require(_msgSender() == subscriptions[subscriptionId].subscriber, "Only subscriber can update subscription");
+        require(escrowBalances[subscriptionId] >= amount, "Insufficient escrow balance");
+
+        escrowBalances[subscriptionId] -= amount;
+        (bool sent, ) = _msgSender().call{ value: amount }("");
+        require(sent, "ETH transfer failed");
+
+        emit EscrowWithdrawn(subscriptionId, _msgSender(), amount);
     }
 
     function getPaymentRule(string calldata ruleId) external view returns (
@@ -120,18 +515,24 @@ contract AutoPaySystem is ZamaEthereumConfig {
         string memory,
         address,
         uint256,
+        bool,
+        uint256,
+        address,
         bool
     ) {
-        require(bytes(paymentRules[ruleId].ruleId).length > 0, "Rule does not exist");
+        requireRuleExists(ruleId);
         PaymentRule storage rule = paymentRules[ruleId];
         return (
             rule.ruleId,
-            rule.publicThreshold,
+            ruleTerms[ruleId][latestTermsInEffect(ruleTerms[ruleId])].amount,
             rule.recipient,
             rule.description,
             rule.creator,
             rule.timestamp,
-            rule.isActive
+            rule.isActive,
+            rule.paymentInterval,
+            rule.paymentToken,
+            rule.isConfidential
         );
     }
 
@@ -140,21 +541,38 @@ contract AutoPaySystem is ZamaEthereumConfig {
         string memory,
         address,
         uint256,
-        bool
+        bool,
+        uint256,
+        uint256,
+        uint256,
+        uint256
     ) {
-        require(bytes(subscriptions[subscriptionId].subscriptionId).length > 0, "Subscription does not exist");
+        requireSubscriptionExists(subscriptionId);
         Subscription storage sub = subscriptions[subscriptionId];
         return (
             sub.subscriptionId,
             sub.ruleId,
             sub.subscriber,
             sub.lastPaymentTimestamp,
-            sub.isActive
+            sub.isActive,
+            sub.pausedUntil,
+            sub.paymentCount,
+            sub.maxPayments,
+            sub.endTimestamp
         );
     }
 
+    function nextDueTimestamp(string calldata subscriptionId) public view returns (uint256) {
+        requireSubscriptionExists(subscriptionId);
+        Subscription storage sub = subscriptions[subscriptionId];
+        if (sub.lastPaymentTimestamp == 0) {
+            return 0;
+        }
+        return sub.lastPaymentTimestamp + paymentRules[sub.ruleId].paymentInterval;
+    }
+
     function getRuleSubscriptions(string calldata ruleId) external view returns (string[] memory) {
-        require(bytes(paymentRules[ruleId].ruleId).length > 0, "Rule does not exist");
+        requireRuleExists(ruleId);
         return ruleSubscriptions[ruleId];
     }
 
@@ -166,20 +584,373 @@ contract AutoPaySystem is ZamaEthereumConfig {
         return subscriptionIds;
     }
 
+    // Paginated views return the requested slice and the total list length;
+    // limit 0 returns only the total
+
+    function getRuleIdsPage(uint256 offset, uint256 limit) external view returns (string[] memory, uint256) {
+        return (paginate(ruleIds, offset, limit), ruleIds.length);
+    }
+
+    function getSubscriptionIdsPage(uint256 offset, uint256 limit) external view returns (string[] memory, uint256) {
+        return (paginate(subscriptionIds, offset, limit), subscriptionIds.length);
+    }
+
+    function getRuleIdsByCreator(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (string[] memory, uint256) {
+        return (paginate(creatorRuleIds[creator], offset, limit), creatorRuleIds[creator].length);
+    }
+
+    function getSubscriptionIdsBySubscriber(
+        address subscriber,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (string[] memory, uint256) {
+        return (
+            paginate(subscriberSubscriptionIds[subscriber], offset, limit),
+            subscriberSubscriptionIds[subscriber].length
+        );
+    }
+
+    function getRuleSubscriptionsPage(
+        string calldata ruleId,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (string[] memory, uint256) {
+        requireRuleExists(ruleId);
+        return (paginate(ruleSubscriptions[ruleId], offset, limit), ruleSubscriptions[ruleId].length);
+    }
+
     function disableRule(string calldata ruleId) external {
-        require(bytes(paymentRules[ruleId].ruleId).length > 0, "Rule does not exist");
-        require(msg.sender == paymentRules[ruleId].creator, "Only creator can disable rule");
+        requireRuleExists(ruleId);
+        require(_msgSender() == paymentRules[ruleId].creator, "Only creator can disable rule");
         paymentRules[ruleId].isActive = false;
+
+        emit RuleStatusChanged(ruleId, false);
+    }
+
+    function enableRule(string calldata ruleId) external {
+        requireRuleExists(ruleId);
+        require(_msgSender() == paymentRules[ruleId].creator, "Only creator can update rule");
+        paymentRules[ruleId].isActive = true;
+
+        emit RuleStatusChanged(ruleId, true);
+    }
+
+    function updateRuleDescription(string calldata ruleId, string calldata description) external {
+        requireRuleExists(ruleId);
+        require(_msgSender() == paymentRules[ruleId].creator, "Only creator can update rule");
+        paymentRules[ruleId].description = description;
+
+        emit RuleDescriptionUpdated(ruleId, description);
+    }
+
+    // Subscriptions keep paying into the rule, so a new recipient applies to
+    // every later execution
+    function updateRuleRecipient(string calldata ruleId, address recipient) external {
+        requireRuleExists(ruleId);
+        require(_msgSender() == paymentRules[ruleId].creator, "Only creator can update rule");
+        require(recipient != address(0), "Invalid recipient");
+        paymentRules[ruleId].recipient = recipient;
+
+        emit RuleRecipientUpdated(ruleId, recipient);
+    }
+
+    /// New terms for the rule: a threshold, plus a clear `amount` for regular rules or an
+    /// `encryptedAmount` for confidential ones (the other is ignored). They apply to existing
+    /// subscriptions TERMS_NOTICE_PERIOD from now, or as soon as a subscriber accepts them;
+    /// subscribers who decline leave when they take effect. One proposal can be pending at a
+    /// time. Confidential rules grant each active subscriber the new amount to review, so gas
+    /// grows with the rule's subscriptions
+    function proposeRuleTerms(
+        string calldata ruleId,
+        externalEuint32 encryptedThreshold,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof,
+        uint256 amount
+    ) external {
+        requireRuleExists(ruleId);
+        require(_msgSender() == paymentRules[ruleId].creator, "Only creator can update rule");
+        require(!hasPendingTerms(ruleTerms[ruleId]), "Terms change already pending");
+        require(amount <= type(uint64).max, "Amount exceeds euint64 range");
+
+        bool isConfidential = paymentRules[ruleId].isConfidential;
+        euint32 threshold = FHE.fromExternal(encryptedThreshold, inputProof);
+        euint64 newAmount = isConfidential ? FHE.fromExternal(encryptedAmount, inputProof) : euint64.wrap(0);
+        require(FHE.isInitialized(threshold) && (!isConfidential || FHE.isInitialized(newAmount)), "Invalid encrypted input");
+
+        uint256 effectiveAt = block.timestamp + TERMS_NOTICE_PERIOD;
+        uint256 version = addRuleTerms(ruleId, threshold, newAmount, isConfidential ? 0 : amount, effectiveAt);
+
+        if (isConfidential) {
+            string[] storage ids = ruleSubscriptions[ruleId];
+            for (uint256 i = 0; i < ids.length; i++) {
+                if (subscriptions[ids[i]].isActive) {
+                    FHE.allow(newAmount, subscriptions[ids[i]].subscriber);
+                }
+            }
+        }
+
+        emit RuleTermsProposed(ruleId, version, effectiveAt);
+    }
+
+    function getRuleTermsCount(string calldata ruleId) external view returns (uint256) {
+        return ruleTerms[ruleId].length;
+    }
+
+    /// The terms version a metric submitted now would be evaluated and paid under
+    function subscriptionTermsVersion(string calldata subscriptionId) public view returns (uint256) {
+        requireSubscriptionExists(subscriptionId);
+        Subscription storage sub = subscriptions[subscriptionId];
+        RuleTerms[] storage versions = ruleTerms[sub.ruleId];
+        uint256 version = latestTermsInEffect(versions);
+        uint256 accepted = sub.acceptedTermsVersion;
+        return accepted > version ? accepted : version;
     }
 
     function disableSubscription(string calldata subscriptionId) external {
-        require(bytes(subscriptions[subscriptionId].subscriptionId).length > 0, "Subscription does not exist");
-        require(msg.sender == subscriptions[subscriptionId].subscriber, "Only subscriber can disable subscription");
+        requireSubscriptionExists(subscriptionId);
+        require(_msgSender() == subscriptions[subscriptionId].subscriber, "Only subscriber can disable subscription");
         subscriptions[subscriptionId].isActive = false;
+        emit SubscriptionDisabled(subscriptionId, _msgSender());
+    }
+
+    /// Stop payments until `resumeAt`, or until resumeSubscription() if it is 0. Periods
+    /// missed while paused are not made up: at most one payment is due on resuming
+    function pauseSubscription(string calldata subscriptionId, uint256 resumeAt) external {
+        requireSubscriptionExists(subscriptionId);
+        Subscription storage sub = subscriptions[subscriptionId];
+        require(_msgSender() == sub.subscriber, "Only subscriber can update subscription");
+        require(sub.isActive, "Subscription is not active");
+        require(resumeAt == 0 || resumeAt > block.timestamp, "Date must be in the future");
+
+        sub.pausedUntil = resumeAt == 0 ? type(uint256).max : resumeAt;
+
+        emit SubscriptionPaused(subscriptionId, resumeAt);
+    }
+
+    function resumeSubscription(string calldata subscriptionId) external {
+        requireSubscriptionExists(subscriptionId);
+        Subscription storage sub = subscriptions[subscriptionId];
+        require(_msgSender() == sub.subscriber, "Only subscriber can update subscription");
+        require(block.timestamp < sub.pausedUntil, "Subscription is not paused");
+
+        sub.pausedUntil = 0;
+
+        emit SubscriptionResumed(subscriptionId);
+    }
+
+    /// Let the subscription expire after `maxPayments` payments or at `endTimestamp`,
+    /// whichever comes first; 0 leaves that bound off. For confidential rules every
+    /// executeConfidentialPayment counts, whether or not its condition was met
+    function setSubscriptionEnd(string calldata subscriptionId, uint256 maxPayments, uint256 endTimestamp) external {
+        requireSubscriptionExists(subscriptionId);
+        Subscription storage sub = subscriptions[subscriptionId];
+        require(_msgSender() == sub.subscriber, "Only subscriber can update subscription");
+        require(sub.isActive, "Subscription is not active");
+        require(maxPayments == 0 || maxPayments > sub.paymentCount, "Max payments already reached");
+        require(endTimestamp == 0 || endTimestamp > block.timestamp, "Date must be in the future");
+
+        sub.maxPayments = maxPayments;
+        sub.endTimestamp = endTimestamp;
+
+        emit SubscriptionEndUpdated(subscriptionId, maxPayments, endTimestamp);
+    }
+
+    /// Move to the rule's pending terms now instead of when the notice period ends,
+    /// unless the subscriber already declined them
+    function acceptRuleTerms(string calldata subscriptionId) external {
+        (Subscription storage sub, uint256 version) = pendingTermsFor(subscriptionId);
+        require(declinedTermsVersion[subscriptionId] != version, "Terms already declined");
+        sub.acceptedTermsVersion = version;
+
+        emit RuleTermsAccepted(subscriptionId, version);
+    }
+
+    /// Keep the current terms until the pending ones take effect, and end the
+    /// subscription then
+    function declineRuleTerms(string calldata subscriptionId) external {
+        (Subscription storage sub, uint256 version) = pendingTermsFor(subscriptionId);
+        uint256 effectiveAt = ruleTerms[sub.ruleId][version].effectiveAt;
+        sub.acceptedTermsVersion = 0;
+        declinedTermsVersion[subscriptionId] = version;
+        if (sub.endTimestamp == 0 || sub.endTimestamp > effectiveAt) {
+            sub.endTimestamp = effectiveAt;
+        }
+
+        emit RuleTermsDeclined(subscriptionId, version);
+    }
+
+    function getSpendTotalHandle(address subscriber, address paymentToken) external view returns (euint64) {
+        return spendTotals[subscriber][paymentToken];
+    }
+
+    function getPeriodSpendHandle(
+        address subscriber,
+        address paymentToken,
+        uint256 period
+    ) external view returns (euint64) {
+        return periodSpend[subscriber][paymentToken][period];
+    }
+
+    function getRecipientSpendHandle(
+        address subscriber,
+        address paymentToken,
+        address recipient
+    ) external view returns (euint64) {
+        return recipientSpend[subscriber][paymentToken][recipient];
+    }
+
+    /// conditionResults = threshold met and the rule's amount fits both spending limits
+    function updateCondition(string calldata subscriptionId) private {
+        Subscription storage sub = subscriptions[subscriptionId];
+        PaymentRule storage rule = paymentRules[sub.ruleId];
+
+        ebool condition = thresholdResults[subscriptionId];
+        SpendingLimits storage limits = spendingLimits[subscriptionId];
+        if (FHE.isInitialized(limits.budget)) {
+            RuleTerms storage terms = conditionTerms(subscriptionId);
+            euint64 amount = rule.isConfidential ? terms.encryptedAmount : FHE.asEuint64(uint64(terms.amount));
+            euint64 spentThisPeriod = subscriptionPeriodSpend[subscriptionId][block.timestamp / SPEND_PERIOD];
+            ebool withinPeriodCap = FHE.le(FHE.add(spentThisPeriod, amount), limits.periodCap);
+            ebool withinBudget = FHE.le(FHE.add(subscriptionSpend[subscriptionId], amount), limits.budget);
+            condition = FHE.and(condition, FHE.and(withinPeriodCap, withinBudget));
+        }
+
+        FHE.allowThis(condition);
+        FHE.allow(condition, sub.subscriber);
+        FHE.allow(condition, rule.creator);
+        if (!rule.isConfidential) {
+            FHE.makePubliclyDecryptable(condition);
+        }
+        conditionResults[subscriptionId] = condition;
+    }
+
+    function addRuleTerms(
+        string calldata ruleId,
+        euint32 threshold,
+        euint64 encryptedAmount,
+        uint256 amount,
+        uint256 effectiveAt
+    ) private returns (uint256 version) {
+        FHE.allowThis(threshold);
+        FHE.allow(threshold, _msgSender());
+        if (FHE.isInitialized(encryptedAmount)) {
+            FHE.allowThis(encryptedAmount);
+            FHE.allow(encryptedAmount, _msgSender());
+        }
+
+        ruleTerms[ruleId].push(
+            RuleTerms({
+                encryptedThreshold: threshold,
+                encryptedAmount: encryptedAmount,
+                amount: amount,
+                effectiveAt: effectiveAt
+            })
+        );
+        return ruleTerms[ruleId].length - 1;
+    }
+
+    // Only the latest version can still be pending, and version 0 never is
+    function latestTermsInEffect(RuleTerms[] storage versions) private view returns (uint256) {
+        return hasPendingTerms(versions) ? versions.length - 2 : versions.length - 1;
+    }
+
+    function hasPendingTerms(RuleTerms[] storage versions) private view returns (bool) {
+        return versions[versions.length - 1].effectiveAt > block.timestamp;
+    }
+
+    /// The caller's subscription and the pending terms version they can accept or decline
+    function pendingTermsFor(
+        string calldata subscriptionId
+    ) private view returns (Subscription storage sub, uint256 version) {
+        requireSubscriptionExists(subscriptionId);
+        sub = subscriptions[subscriptionId];
+        require(_msgSender() == sub.subscriber, "Only subscriber can update subscription");
+        require(sub.isActive, "Subscription is not active");
+        require(hasPendingTerms(ruleTerms[sub.ruleId]), "No pending terms");
+        version = ruleTerms[sub.ruleId].length - 1;
+    }
+
+    function conditionTerms(string calldata subscriptionId) private view returns (RuleTerms storage) {
+        return ruleTerms[subscriptions[subscriptionId].ruleId][conditionTermsVersion[subscriptionId]];
+    }
+
+    // Shared by every entry point, rather than repeated inline, to keep the contract under EIP-170
+    function requireRuleExists(string calldata ruleId) private view {
+        require(bytes(paymentRules[ruleId].ruleId).length > 0, "Rule does not exist");
+    }
+
+    function requireSubscriptionExists(string calldata subscriptionId) private view {
+        require(bytes(subscriptions[subscriptionId].subscriptionId).length > 0, "Subscription does not exist");
+    }
+
+    function requireSchedulePermits(Subscription storage sub) private view {
+        require(block.timestamp >= sub.pausedUntil, "Subscription is paused");
+        require(!hasEnded(sub), "Subscription has ended");
+    }
+
+    function hasEnded(Subscription storage sub) private view returns (bool) {
+        return sub.endTimestamp != 0 && block.timestamp >= sub.endTimestamp;
+    }
+
+    /// The payment that reaches maxPayments expires the subscription
+    function recordPayment(string calldata subscriptionId) private {
+        Subscription storage sub = subscriptions[subscriptionId];
+        sub.lastPaymentTimestamp = block.timestamp;
+        sub.paymentCount++;
+        if (sub.maxPayments != 0 && sub.paymentCount >= sub.maxPayments) {
+            sub.isActive = false;
+            emit SubscriptionExpired(subscriptionId);
+        }
+    }
+
+    function recordSubscriptionSpend(string calldata subscriptionId, euint64 amount) private {
+        address subscriber = subscriptions[subscriptionId].subscriber;
+        uint256 period = block.timestamp / SPEND_PERIOD;
+        subscriptionSpend[subscriptionId] = addSpend(subscriptionSpend[subscriptionId], amount, subscriber);
+        subscriptionPeriodSpend[subscriptionId][period] = addSpend(
+            subscriptionPeriodSpend[subscriptionId][period],
+            amount,
+            subscriber
+        );
+    }
+
+    function recordSpend(address subscriber, address recipient, address paymentToken, euint64 amount) private {
+        uint256 period = block.timestamp / SPEND_PERIOD;
+        spendTotals[subscriber][paymentToken] = addSpend(spendTotals[subscriber][paymentToken], amount, subscriber);
+        periodSpend[subscriber][paymentToken][period] = addSpend(
+            periodSpend[subscriber][paymentToken][period],
+            amount,
+            subscriber
+        );
+        recipientSpend[subscriber][paymentToken][recipient] = addSpend(
+            recipientSpend[subscriber][paymentToken][recipient],
+            amount,
+            subscriber
+        );
+    }
+
+    function addSpend(euint64 total, euint64 amount, address subscriber) private returns (euint64 updated) {
+        updated = FHE.add(total, amount);
+        FHE.allowThis(updated);
+        FHE.allow(updated, subscriber);
     }
 
     function isAvailable() public pure returns (bool) {
         return true;
     }
-}
 
+    function paginate(string[] storage ids, uint256 offset, uint256 limit) private view returns (string[] memory page) {
+        if (offset >= ids.length) {
+            return new string[](0);
+        }
+        uint256 end = limit > ids.length - offset ? ids.length : offset + limit;
+        page = new string[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = ids[i];
+        }
+    }
+}
@@ -0,0 +1,59 @@
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { FHESafeMath } from "@openzeppelin/confidential-contracts/utils/FHESafeMath.sol";
+
+/// The part of ERC-7984 AutoPaySystem uses, for tests. OpenZeppelin's ERC7984 needs a
+/// newer compiler than this project's, so transfers mirror its _update here: a transfer
+/// over the sender's balance moves an encrypted zero instead of reverting
+contract ConfidentialTokenMock is ZamaEthereumConfig {
+    mapping(address => euint64) private balances;
+    mapping(address => mapping(address => uint48)) private operators;
+
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+
+    function mint(address to, uint64 amount) external {
+        euint64 balance = FHE.add(balances[to], FHE.asEuint64(amount));
+        FHE.allowThis(balance);
+        FHE.allow(balance, to);
+        balances[to] = balance;
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return balances[account];
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= operators[holder][spender];
+    }
+
+    function setOperator(address operator, uint48 until) external {
+        operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred) {
+        require(FHE.isAllowed(amount, msg.sender), "Amount not allowed");
+        require(isOperator(from, msg.sender), "Not an operator");
+        require(FHE.isInitialized(balances[from]), "Zero balance");
+
+        (ebool success, euint64 fromBalance) = FHESafeMath.tryDecrease(balances[from], amount);
+        FHE.allowThis(fromBalance);
+        FHE.allow(fromBalance, from);
+        balances[from] = fromBalance;
+
+        transferred = FHE.select(success, amount, FHE.asEuint64(0));
+        euint64 toBalance = FHE.add(balances[to], transferred);
+        FHE.allowThis(toBalance);
+        FHE.allow(toBalance, to);
+        balances[to] = toBalance;
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allowTransient(transferred, msg.sender);
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+}
@@ -2,7 +2,7 @@
 import fs from "fs";
 import path from "path";
 import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
+import { ethers as hardhatEthers, network as hardhatNetwork } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
 
 const WORD_LIBRARY = [
@@ -301,6 +301,8 @@ async function ask(prompt: string): Promise<string> {
   );
 }
 
+const REGISTRY_PATH = path.join(__dirname, "..", "frontend", "web", "fhevm-sdk", "src", "networks.json");
+
 async function main() {
   const projectRoot = path.join(__dirname, "..");
   
@@ -325,8 +327,15 @@ async function main() {
     privateKey = await ask("Enter the deployer private key (testnet only): ");
   }
 
-  const DEFAULT_RPC = "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3";
-  const rpc = DEFAULT_RPC;
+  // Target a registry network: DEPLOY_NETWORK, else `--network <key>`, else Sepolia
+  const registry = JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf-8"));
+  const networkKey = process.env.DEPLOY_NETWORK || (registry[hardhatNetwork.name] ? hardhatNetwork.name : "sepolia");
+  const targetNetwork = registry[networkKey];
+  if (!targetNetwork) {
+    throw new Error(`Unknown network "${networkKey}". Known networks: ${Object.keys(registry).join(", ")}`);
+  }
+  const rpc = targetNetwork.rpcUrls[0];
+  console.log(`Deploying to ${targetNetwork.name} (${rpc})`);
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
@@ -334,12 +343,20 @@ async function main() {
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalFHEAdapterFactory = await hardhatEthers.getContractFactory("UniversalFHEAdapter", wallet);
-    const factory = await UniversalFHEAdapterFactory.deploy();
+    // The forwarder first: AutoPaySystem trusts it for meta-transactions from its constructor on
+    const ForwarderFactory = await hardhatEthers.getContractFactory("AutoPayForwarder", wallet);
+    const forwarder = await ForwarderFactory.deploy();
+    await forwarder.waitForDeployment();
+    const forwarderAddress = await forwarder.getAddress();
+    console.log("AutoPayForwarder contract deployed at:", forwarderAddress);
+
+    const AutoPaySystemFactory = await hardhatEthers.getContractFactory("AutoPaySystem", wallet);
+    const factory = await AutoPaySystemFactory.deploy(forwarderAddress);
     await factory.waitForDeployment();
+    const deployReceipt = await factory.deploymentTransaction()?.wait();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalFHEAdapter contract deployed at:", deployedAddress);
+    console.log("AutoPaySystem contract deployed at:", deployedAddress);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -354,13 +371,18 @@ async function main() {
     const logEntry = `${deployedAddress} | ${wallet.address} | 成功`;
     fs.appendFileSync(successLogPath, logEntry + "\n");
 
+    registry[networkKey].autoPayAddress = deployedAddress;
+    registry[networkKey].autoPayDeployBlock = deployReceipt?.blockNumber ?? null;
+    registry[networkKey].forwarderAddress = forwarderAddress;
+    fs.writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2) + "\n");
+    console.log(`Recorded the AutoPaySystem and AutoPayForwarder addresses for ${networkKey} in the network registry`);
+
     const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
       const config = {
-        network: rpc,
-        contractAddress: deployedAddress,
+        network: networkKey,
         deployer: wallet.address,
       };
       fs.writeFileSync(
@@ -375,16 +397,16 @@ async function main() {
           "..",
           "artifacts",
           "contracts",
-          "UniversalFHEAdapter.sol",
-          "UniversalFHEAdapter.json"
+          "AutoPay_Z.sol",
+          "AutoPaySystem.json"
         );
         const targetAbiPath = path.join(frontendConfigDir, "abi");
         if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalFHEAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalFHEAdapter.json");
+        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "AutoPaySystem.json"));
+        console.log("Copied ABI to frontend/web/src/abi/AutoPaySystem.json");
       } catch (e) {
         console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalFHEAdapter.json manually to frontend/web/src/abi/UniversalFHEAdapter.json",
+          "Failed to copy ABI automatically. Please copy artifacts/contracts/AutoPay_Z.sol/AutoPaySystem.json manually to frontend/web/src/abi/AutoPaySystem.json",
           e
         );
       }
@@ -4,11 +4,13 @@
 
 import { useState, useEffect } from 'react';
 import { ethers } from 'ethers';
+import { toFhevmError } from '../core/index.js';
+import type { FhevmError } from '../core/index.js';
 
 export function useContract(address: string, abi: any[]) {
   const [contract, setContract] = useState<ethers.Contract | null>(null);
   const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
   useEffect(() => {
     if (!window.ethereum || !address || !abi) return;
@@ -18,9 +20,9 @@ export function useContract(address: string, abi: any[]) {
       const contractInstance = new ethers.Contract(address, abi, provider);
       setContract(contractInstance);
       setIsReady(true);
-      setError('');
+      setError(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Contract setup failed');
+      setError(toFhevmError(err));
       setIsReady(false);
     }
   }, [address, abi]);
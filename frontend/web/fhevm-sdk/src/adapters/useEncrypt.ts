@@ -3,31 +3,53 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { createEncryptedInput, encrypt as encryptInput, toFhevmError } from '../core/index.js';
+import type { EncryptedInputBuilder, EncryptedInputResult, FhevmError } from '../core/index.js';
 
 export function useEncrypt() {
   const [isEncrypting, setIsEncrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
+  const run = useCallback(async <T>(task: () => Promise<T>): Promise<T> => {
     setIsEncrypting(true);
-    setError('');
-    
+    setError(null);
+
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
-      return result;
+      return await task();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      const typed = toFhevmError(err);
+      setError(typed);
+      throw typed;
     } finally {
       setIsEncrypting(false);
     }
   }, []);
 
+  const encrypt = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    value: number | bigint,
+    bitWidth: 8 | 16 | 32 | 64 | 128 | 256 = 32
+  ) => {
+    return run(() => createEncryptedInput(contractAddress, userAddress, value, bitWidth));
+  }, [run]);
+
+  /**
+   * Encrypt several typed values under one proof:
+   * encryptInputs(contract, user, b => b.u64(amount).u32(threshold))
+   */
+  const encryptInputs = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    build: (builder: EncryptedInputBuilder) => EncryptedInputBuilder
+  ): Promise<EncryptedInputResult> => {
+    return run(() => build(encryptInput(contractAddress, userAddress)).encrypt());
+  }, [run]);
+
   return {
     encrypt,
+    encryptInputs,
     isEncrypting,
     error,
   };
 }
-
@@ -0,0 +1,49 @@
+/**
+ * Wagmi-like hook for AutoPay payment history
+ * Syncs an AutoPayIndexer and returns the payments matching a filter
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { toFhevmError } from '../core/index.js';
+import type { AutoPayIndexer, FhevmError, IndexedPayment, PaymentHistoryFilter } from '../core/index.js';
+
+export function usePaymentHistory(
+  indexer: AutoPayIndexer | null | undefined,
+  filter: PaymentHistoryFilter = {}
+) {
+  const [payments, setPayments] = useState<IndexedPayment[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<FhevmError | null>(null);
+
+  const { subscriptionId, ruleId, subscriber, recipient, fromTimestamp, toTimestamp } = filter;
+
+  /**
+   * Ingest new blocks, then re-run the query against the local index
+   */
+  const refresh = useCallback(async () => {
+    if (!indexer) return;
+
+    setIsSyncing(true);
+    setError(null);
+
+    try {
+      await indexer.sync();
+      setPayments(indexer.getPayments({ subscriptionId, ruleId, subscriber, recipient, fromTimestamp, toTimestamp }));
+    } catch (err) {
+      setError(toFhevmError(err));
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [indexer, subscriptionId, ruleId, subscriber, recipient, fromTimestamp, toTimestamp]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    payments,
+    refresh,
+    isSyncing,
+    error,
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Wagmi-like hook for EIP-712 user decryption
+ * The user signs once per session; later decryptions reuse the cached keypair
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { ethers } from 'ethers';
+import { DecryptionSession, toFhevmError } from '../core/index.js';
+import type { DecryptedValue, DecryptionSessionOptions, FhevmError } from '../core/index.js';
+
+export function useUserDecrypt(
+  signer: ethers.Signer | null | undefined,
+  contractAddresses: string[],
+  options: DecryptionSessionOptions = {}
+) {
+  const [session, setSession] = useState<DecryptionSession | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<FhevmError | null>(null);
+
+  const contractsKey = contractAddresses.join(',');
+  const { durationDays, storage } = options;
+
+  // A different signer or contract set needs a different signature
+  useEffect(() => {
+    setSession(null);
+  }, [signer, contractsKey]);
+
+  /**
+   * Load the stored session or prompt for a signature if there is none
+   */
+  const openSession = useCallback(async (): Promise<DecryptionSession> => {
+    if (!signer) throw new Error('Connect a wallet before decrypting');
+    if (session && !session.isExpired()) return session;
+
+    const opened = await DecryptionSession.open(signer, contractAddresses, { durationDays, storage });
+    setSession(opened);
+    return opened;
+  }, [signer, contractsKey, durationDays, storage, session]);
+
+  const decrypt = useCallback(async (
+    pairs: { handle: string; contractAddress: string }[]
+  ): Promise<Record<string, DecryptedValue>> => {
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      const active = await openSession();
+      return await active.decrypt(pairs);
+    } catch (err) {
+      const typed = toFhevmError(err);
+      setError(typed);
+      throw typed;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [openSession]);
+
+  const decryptValue = useCallback(async (handle: string, contractAddress: string): Promise<DecryptedValue> => {
+    const result = await decrypt([{ handle, contractAddress }]);
+    return result[handle];
+  }, [decrypt]);
+
+  const clearSession = useCallback(async () => {
+    await session?.clear();
+    setSession(null);
+  }, [session]);
+
+  return {
+    session,
+    hasSession: session !== null && !session.isExpired(),
+    openSession,
+    decrypt,
+    decryptValue,
+    clearSession,
+    isDecrypting,
+    error,
+  };
+}
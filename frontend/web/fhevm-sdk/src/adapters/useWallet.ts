@@ -3,13 +3,14 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
+import { FhevmError, toFhevmError } from '../core/index.js';
 
 export function useWallet() {
   const [address, setAddress] = useState<string>('');
   const [isConnected, setIsConnected] = useState(false);
   const [chainId, setChainId] = useState<number>(0);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const [error, setError] = useState<FhevmError | null>(null);
 
   // Listen for chain changes
   useEffect(() => {
@@ -43,12 +44,12 @@ export function useWallet() {
 
   const connect = useCallback(async () => {
     if (!window.ethereum) {
-      setError('MetaMask not found. Please install MetaMask.');
+      setError(new FhevmError('UNKNOWN', 'MetaMask not found. Please install MetaMask.'));
       return;
     }
 
     setIsConnecting(true);
-    setError('');
+    setError(null);
 
     try {
       const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
@@ -61,7 +62,7 @@ export function useWallet() {
 
       console.log('✅ Wallet connected:', account);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Connection failed');
+      setError(toFhevmError(err));
       console.error('❌ Wallet connection failed:', err);
     } finally {
       setIsConnecting(false);
@@ -72,7 +73,7 @@ export function useWallet() {
     setAddress('');
     setIsConnected(false);
     setChainId(0);
-    setError('');
+    setError(null);
     console.log('🔌 Wallet disconnected');
   }, []);
 
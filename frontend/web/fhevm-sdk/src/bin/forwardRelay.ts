@@ -0,0 +1,61 @@
+#!/usr/bin/env node
+/**
+ * AutoPay Forward Relay - Node.js entry point
+ * Pays the gas for subscribers' signed subscription management requests (RELAYABLE_FUNCTIONS)
+ *
+ * Environment:
+ *   AUTOPAY_NETWORK          Network registry key (default: localhost, the Hardhat FHEVM mock)
+ *   AUTOPAY_ADDRESS          AutoPaySystem contract address (default: the registry deployment)
+ *   FORWARDER_ADDRESS        AutoPayForwarder address (default: the registry deployment)
+ *   RPC_URL                  JSON-RPC endpoint (default: the network's primary RPC URL)
+ *   RELAY_PRIVATE_KEY        Key that submits and pays for the forwarded transactions
+ *   RELAY_PORT               Port to listen on (default: the port of the network's forwardRelayUrl, else 8547)
+ *   RELAY_MAX_GAS            Most gas a forward request may ask for (default: 500000)
+ */
+
+import { ethers } from 'ethers';
+import { ForwardRelay, DEFAULT_FORWARD_RELAY_PORT } from '../core/forwarder.js';
+import { getNetwork } from '../core/networks.js';
+
+const DEFAULT_NETWORK = 'localhost';
+
+async function main() {
+  const networkKey = process.env.AUTOPAY_NETWORK || DEFAULT_NETWORK;
+  const network = getNetwork(networkKey);
+
+  const autoPayAddress = process.env.AUTOPAY_ADDRESS || network.autoPayAddress;
+  if (!autoPayAddress) throw new Error(`AUTOPAY_ADDRESS is not set and AutoPaySystem is not deployed on ${network.name}`);
+  const forwarderAddress = process.env.FORWARDER_ADDRESS || network.forwarderAddress;
+  if (!forwarderAddress) throw new Error(`FORWARDER_ADDRESS is not set and AutoPayForwarder is not deployed on ${network.name}`);
+
+  const privateKey = process.env.RELAY_PRIVATE_KEY;
+  if (!privateKey) throw new Error('RELAY_PRIVATE_KEY is required');
+
+  const rpcUrl = process.env.RPC_URL || network.rpcUrls[0];
+  const provider = new ethers.JsonRpcProvider(rpcUrl, network.chainId, { staticNetwork: true });
+  const signer = new ethers.NonceManager(new ethers.Wallet(privateKey, provider));
+
+  const configuredPort = network.forwardRelayUrl ? Number(new URL(network.forwardRelayUrl).port) : 0;
+  const relay = new ForwardRelay({
+    autoPayAddress,
+    forwarderAddress,
+    signer,
+    port: Number(process.env.RELAY_PORT) || configuredPort || DEFAULT_FORWARD_RELAY_PORT,
+    ...(process.env.RELAY_MAX_GAS && { maxGas: BigInt(process.env.RELAY_MAX_GAS) }),
+  });
+
+  const url = await relay.start();
+  console.log(`📮 Forward relay for ${autoPayAddress} on ${network.name} listening on ${url}, paid by ${await signer.getAddress()}`);
+
+  const stop = async () => {
+    await relay.stop();
+    console.log('👋 Forward relay stopped');
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
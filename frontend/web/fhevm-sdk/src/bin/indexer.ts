@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+/**
+ * AutoPay Indexer - Node.js entry point
+ * Syncs the local event index, then prints the matching payment history as JSON
+ *
+ * Environment:
+ *   AUTOPAY_NETWORK          Network registry key (default: localhost, the Hardhat FHEVM mock)
+ *   AUTOPAY_ADDRESS          AutoPaySystem contract address (default: the registry deployment)
+ *   AUTOPAY_START_BLOCK      First block to index (default: the registry deploy block)
+ *   AUTOPAY_INDEX_DIR        Where the JSON index is kept (default: ~/.fhevm-sdk/indexer)
+ *   RPC_URL                  JSON-RPC endpoint (default: the network's primary RPC URL)
+ *   INDEXER_POLL_MS          Delay between syncs with --watch (default: 15s)
+ *
+ * Flags:
+ *   --subscriber=<address> --recipient=<address> --rule=<id> --subscription=<id>
+ *   --from=<date|unix> --to=<date|unix>    Filter the printed payments
+ *   --watch                                Keep syncing and print new payments as they are indexed
+ */
+
+import { ethers } from 'ethers';
+import { AutoPayClient } from '../core/autopay.js';
+import { AutoPayIndexer } from '../core/indexer.js';
+import type { IndexedPayment, PaymentHistoryFilter } from '../core/indexer.js';
+import { getNetwork } from '../core/networks.js';
+
+const DEFAULT_NETWORK = 'localhost';
+const DEFAULT_POLL_MS = 15_000;
+
+function parseTimestamp(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) throw new Error(`Invalid date: ${value}`);
+  return Math.floor(parsed / 1000);
+}
+
+function parseArgs(argv: string[]): { watch: boolean; filter: PaymentHistoryFilter } {
+  const flags = new Map<string, string>();
+  for (const arg of argv) {
+    const [name, value] = arg.replace(/^--/, '').split('=');
+    flags.set(name, value ?? 'true');
+  }
+  return {
+    watch: flags.has('watch'),
+    filter: {
+      subscriber: flags.get('subscriber'),
+      recipient: flags.get('recipient'),
+      ruleId: flags.get('rule'),
+      subscriptionId: flags.get('subscription'),
+      fromTimestamp: parseTimestamp(flags.get('from')),
+      toTimestamp: parseTimestamp(flags.get('to')),
+    },
+  };
+}
+
+function printPayment(payment: IndexedPayment) {
+  console.log(JSON.stringify(payment, (_key, value) => (typeof value === 'bigint' ? value.toString() : value)));
+}
+
+async function main() {
+  const { watch, filter } = parseArgs(process.argv.slice(2));
+
+  const networkKey = process.env.AUTOPAY_NETWORK || DEFAULT_NETWORK;
+  const network = getNetwork(networkKey);
+
+  const address = process.env.AUTOPAY_ADDRESS || network.autoPayAddress;
+  if (!address) throw new Error(`AUTOPAY_ADDRESS is not set and AutoPaySystem is not deployed on ${network.name}`);
+
+  const rpcUrl = process.env.RPC_URL || network.rpcUrls[0];
+  const provider = new ethers.JsonRpcProvider(rpcUrl, network.chainId, { staticNetwork: true });
+
+  const startBlock = process.env.AUTOPAY_START_BLOCK
+    ? Number(process.env.AUTOPAY_START_BLOCK)
+    : network.autoPayDeployBlock ?? undefined;
+  const indexer = new AutoPayIndexer(new AutoPayClient(address, provider), { startBlock });
+
+  console.error(`🗂️  AutoPay indexer on ${network.name} (${rpcUrl}) for ${address}`);
+
+  const result = await indexer.sync();
+  console.error(result.toBlock < result.fromBlock
+    ? `Index up to date at block ${indexer.lastBlock}`
+    : `Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.payments} new payments`);
+  const payments = indexer.getPayments(filter);
+  payments.forEach(printPayment);
+
+  if (!watch) return;
+
+  let printed = payments.length;
+  indexer.start(Number(process.env.INDEXER_POLL_MS) || DEFAULT_POLL_MS, () => {
+    const all = indexer.getPayments(filter);
+    // A reorg can shrink the history; only print what was appended since
+    all.slice(Math.min(printed, all.length)).forEach(printPayment);
+    printed = all.length;
+  });
+
+  const stop = () => {
+    indexer.stop();
+    console.error('👋 Indexer stopped');
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/**
+ * AutoPay Keeper - Node.js entry point
+ *
+ * Environment:
+ *   AUTOPAY_NETWORK          Network registry key (default: localhost, the Hardhat FHEVM mock)
+ *   AUTOPAY_ADDRESS          AutoPaySystem contract address (default: the registry deployment)
+ *   RPC_URL                  JSON-RPC endpoint (default: the network's primary RPC URL)
+ *   KEEPER_PRIVATE_KEY       Key used to submit executePayment (not needed with --dry-run)
+ *   KEEPER_POLL_MS           Delay between rounds (default: 60s)
+ *
+ * Flags:
+ *   --dry-run  Report due subscriptions without decrypting or sending transactions
+ *   --once     Run a single round and exit
+ */
+
+import { ethers } from 'ethers';
+import { initializeFheInstance } from '../core/fhevm.js';
+import { AutoPayClient } from '../core/autopay.js';
+import { AutoPayKeeper } from '../core/keeper.js';
+import { getNetwork } from '../core/networks.js';
+
+const DEFAULT_NETWORK = 'localhost';
+const DEFAULT_POLL_MS = 60_000;
+
+async function main() {
+  const args = new Set(process.argv.slice(2));
+  const dryRun = args.has('--dry-run');
+  const once = args.has('--once');
+
+  const networkKey = process.env.AUTOPAY_NETWORK || DEFAULT_NETWORK;
+  const network = getNetwork(networkKey);
+
+  const address = process.env.AUTOPAY_ADDRESS || network.autoPayAddress;
+  if (!address) throw new Error(`AUTOPAY_ADDRESS is not set and AutoPaySystem is not deployed on ${network.name}`);
+
+  const rpcUrl = process.env.RPC_URL || network.rpcUrls[0];
+  const provider = new ethers.JsonRpcProvider(rpcUrl, network.chainId, { staticNetwork: true });
+
+  let runner: ethers.ContractRunner = provider;
+  let nonceManager: ethers.NonceManager | null = null;
+  if (!dryRun) {
+    const privateKey = process.env.KEEPER_PRIVATE_KEY;
+    if (!privateKey) throw new Error('KEEPER_PRIVATE_KEY is required unless --dry-run is set');
+    nonceManager = new ethers.NonceManager(new ethers.Wallet(privateKey, provider));
+    runner = nonceManager;
+    await initializeFheInstance({ network: networkKey, signer: nonceManager });
+  }
+
+  const keeper = new AutoPayKeeper(new AutoPayClient(address, runner), {
+    dryRun,
+    // A failed send may leave the local nonce ahead of the chain
+    onRetry: () => nonceManager?.reset(),
+  });
+
+  console.log(`🤖 AutoPay keeper on ${network.name} (${rpcUrl}) for ${address}${dryRun ? ' (dry-run)' : ''}`);
+
+  if (once) {
+    const result = await keeper.runOnce();
+    process.exitCode = result.failed.length > 0 ? 1 : 0;
+    return;
+  }
+
+  const stop = () => {
+    keeper.stop();
+    console.log('👋 Keeper stopped');
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  keeper.start(Number(process.env.KEEPER_POLL_MS) || DEFAULT_POLL_MS);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+/**
+ * AutoPay Mock Relayer - Node.js entry point
+ * Serves input proofs and decryptions for a mock network from its Hardhat node, so the
+ * app and keeper run with no network access
+ *
+ * Environment:
+ *   AUTOPAY_NETWORK          Network registry key (default: localhost, the Hardhat FHEVM mock)
+ *   RPC_URL                  Hardhat node JSON-RPC endpoint (default: the network's primary RPC URL)
+ *   RELAYER_PORT             Port to listen on (default: the port of the network's relayerUrl, else 8546)
+ *   RELAYER_LATENCY_MS       Delay added to every answer (default: 0)
+ *   RELAYER_FAILURE_RATE     Share of requests (0-1) answered with a 503 (default: 0)
+ */
+
+import { MockRelayer, DEFAULT_MOCK_RELAYER_PORT } from '../core/mockRelayer.js';
+import { getNetwork } from '../core/networks.js';
+
+const DEFAULT_NETWORK = 'localhost';
+
+async function main() {
+  const networkKey = process.env.AUTOPAY_NETWORK || DEFAULT_NETWORK;
+  const network = getNetwork(networkKey);
+  if (!network.mock) throw new Error(`${network.name} is not a mock network; it uses the Zama relayer`);
+
+  const configuredPort = network.fhevm.relayerUrl ? Number(new URL(network.fhevm.relayerUrl).port) : 0;
+  const rpcUrl = process.env.RPC_URL || network.rpcUrls[0];
+
+  const relayer = new MockRelayer({
+    rpcUrl,
+    port: Number(process.env.RELAYER_PORT) || configuredPort || DEFAULT_MOCK_RELAYER_PORT,
+    latencyMs: Number(process.env.RELAYER_LATENCY_MS) || 0,
+    failureRate: Number(process.env.RELAYER_FAILURE_RATE) || 0,
+  });
+
+  const url = await relayer.start();
+  console.log(`🛰️ Mock relayer for ${network.name} on ${url}, forwarding to ${rpcUrl}`);
+
+  const stop = async () => {
+    await relayer.stop();
+    console.log('👋 Mock relayer stopped');
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
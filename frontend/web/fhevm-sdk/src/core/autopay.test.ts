@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { AutoPayClient } from './autopay.js';
+import { FhevmError } from './errors.js';
+import { signForwardRequest } from './forwarder.js';
+import type { ForwardRelayClient } from './forwarder.js';
+import { AutoPaySystem__factory } from '../typechain/index.js';
+
+vi.mock('../typechain/index.js', async importOriginal => {
+  const actual = await importOriginal<typeof import('../typechain/index.js')>();
+  return { ...actual, AutoPaySystem__factory: { abi: actual.AutoPaySystem__factory.abi, connect: vi.fn() } };
+});
+vi.mock('./forwarder.js', () => ({ signForwardRequest: vi.fn() }));
+
+const AUTOPAY = '0x000000000000000000000000000000000000bEEF';
+const FORWARDER = '0x000000000000000000000000000000000000f0f0';
+const HASH = ethers.id('relayed');
+
+describe('AutoPayClient relayed writes', () => {
+  const receipt = { hash: HASH, status: 1 };
+  let getTransaction: ReturnType<typeof vi.fn>;
+  let forwardRelay: ForwardRelayClient;
+  let runner: ethers.ContractRunner;
+
+  const client = () => new AutoPayClient(AUTOPAY, runner, { forwardRelay });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    getTransaction = vi.fn(async () => ({ hash: HASH, wait: async () => receipt }));
+    forwardRelay = { relay: vi.fn(async () => HASH) };
+    runner = {
+      provider: { getTransaction } as unknown as ethers.Provider,
+      signTypedData: vi.fn(),
+    } as unknown as ethers.Signer;
+    vi.mocked(signForwardRequest).mockResolvedValue({} as never);
+    vi.mocked(AutoPaySystem__factory.connect).mockImplementation((_, connected) => ({
+      runner: connected,
+      interface: new ethers.Interface(AutoPaySystem__factory.abi),
+      trustedForwarder: async () => FORWARDER,
+    }) as never);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends the signed request through the relay and waits for its receipt', async () => {
+    await expect(client().disableSubscription('sub-1')).resolves.toBe(receipt);
+
+    expect(signForwardRequest).toHaveBeenCalledWith(runner, FORWARDER, expect.objectContaining({ to: AUTOPAY }));
+    expect(getTransaction).toHaveBeenCalledWith(HASH);
+  });
+
+  it('waits until the provider sees the relayed transaction', async () => {
+    getTransaction.mockResolvedValueOnce(null).mockResolvedValueOnce(null);
+
+    const result = client().disableSubscription('sub-1');
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe(receipt);
+    expect(getTransaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on a transaction the provider never sees', async () => {
+    getTransaction.mockResolvedValue(null);
+
+    const result = client().disableSubscription('sub-1').catch((e: unknown) => e);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toMatchObject({ code: 'UNKNOWN', message: `Relayed transaction ${HASH} not found` });
+  });
+
+  it('needs a signer connected to a provider', async () => {
+    runner = { provider: runner.provider } as ethers.ContractRunner;
+    const error = await client().disableSubscription('sub-1').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(FhevmError);
+    expect(error).toMatchObject({ code: 'NOT_INITIALIZED' });
+    expect(forwardRelay.relay).not.toHaveBeenCalled();
+  });
+});
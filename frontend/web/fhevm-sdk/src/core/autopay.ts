@@ -0,0 +1,936 @@
+/**
+ * AutoPaySystem Client - Universal SDK
+ * Typed wrapper around the AutoPaySystem typechain bindings
+ */
+
+import { ethers } from 'ethers';
+import { AutoPaySystem__factory } from '../typechain/index.js';
+import type { AutoPaySystem } from '../typechain/index.js';
+import { publicDecryptV09 } from './fhevm.js';
+import { batchDecryptBigInts, decryptValue } from './decryption.js';
+import { createEncryptedInput, encrypt } from './encryption.js';
+import { FhevmError } from './errors.js';
+import { Multicall } from './multicall.js';
+import { trackTransaction } from './transactions.js';
+import type { SubscriptionConsent } from './consent.js';
+import { signForwardRequest } from './forwarder.js';
+import type { ForwardRelayClient, RelayableFunction } from './forwarder.js';
+import type { TransactionObserver } from './transactions.js';
+
+const ERC20_ABI = [
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function balanceOf(address owner) view returns (uint256)',
+];
+
+const ERC7984_ABI = [
+  'function setOperator(address operator, uint48 until)',
+  'function isOperator(address holder, address spender) view returns (bool)',
+  'function confidentialBalanceOf(address account) view returns (bytes32)',
+];
+
+// The relay answers once its node accepted the transaction; the client's provider may
+// only see it a few blocks' worth of polling later
+const RELAYED_TX_POLL_MS = 1_000;
+const RELAYED_TX_POLL_ATTEMPTS = 30;
+
+export interface PaymentRule {
+  ruleId: string;
+  /** Clear amount paid per execution (0 for confidential rules) */
+  amount: bigint;
+  /** Minimum seconds between two payments of a subscription */
+  paymentInterval: number;
+  recipient: string;
+  /** ERC-20 / ERC-7984 token paid out, or the zero address for native ETH escrow */
+  paymentToken: string;
+  /** Amount is an encrypted euint64 paid through an ERC-7984 confidential token */
+  isConfidential: boolean;
+  description: string;
+  creator: string;
+  timestamp: number;
+  isActive: boolean;
+}
+
+export interface Subscription {
+  subscriptionId: string;
+  ruleId: string;
+  subscriber: string;
+  lastPaymentTimestamp: number;
+  /** False once cancelled or expired after maxPayments payments */
+  isActive: boolean;
+  /** Unix seconds payments resume at; 0 if never paused, Infinity until resumed */
+  pausedUntil: number;
+  /** Executions so far; for confidential rules this includes ones whose condition was not met */
+  paymentCount: number;
+  /** 0 when unbounded */
+  maxPayments: number;
+  /** Unix seconds the subscription ends at; 0 when unbounded */
+  endTimestamp: number;
+}
+
+export interface SubscriptionEnd {
+  /**
+   * Expire after this many payments in total; 0 or omitted for no limit. Confidential
+   * rules count every execution, including ones that moved an encrypted zero
+   */
+  maxPayments?: number;
+  /** Unix seconds; 0 or omitted for no end date */
+  endTimestamp?: number;
+}
+
+/** One version of a rule's threshold and amount; version 0 is the one it was created with */
+export interface RuleTerms {
+  version: number;
+  /** Clear amount (0 for confidential rules) */
+  amount: bigint;
+  /** Handle of the euint64 amount of confidential rules, ZeroHash otherwise */
+  encryptedAmount: string;
+  /** Handle of the euint32 threshold (user-decryptable by the creator) */
+  encryptedThreshold: string;
+  /** Unix seconds the version applies to existing subscriptions from */
+  effectiveAt: number;
+}
+
+export interface RuleTermsParams {
+  threshold: number;
+  /** Clear for regular rules, encrypted as euint64 for confidential ones */
+  amount: bigint | number;
+}
+
+/**
+ * A subscription's terms next to the rule's pending change. Confidential amounts stay
+ * encrypted; subscribers can user-decrypt their `encryptedAmount`s
+ */
+export interface SubscriptionTermsPreview {
+  /** Terms a metric submitted now is paid under */
+  current: RuleTerms;
+  /** Proposed terms still in their notice period, or null */
+  pending: RuleTerms | null;
+  /** The subscriber accepted `pending` before its notice period ends */
+  accepted: boolean;
+  /** The subscriber declined `pending`, so the subscription ends when it takes effect */
+  declined: boolean;
+}
+
+export interface IdPage {
+  ids: string[];
+  /** Length of the whole on-chain list */
+  total: number;
+}
+
+export interface PaymentRuleWithStats extends PaymentRule {
+  subscriptionCount: number;
+}
+
+/**
+ * One of a subscriber's encrypted spend totals for a payment token: the
+ * all-time total, one SPEND_PERIOD bucket, or everything paid to one recipient
+ */
+export type SpendKey =
+  | { kind: 'total'; paymentToken: string }
+  | { kind: 'period'; paymentToken: string; period: number }
+  | { kind: 'recipient'; paymentToken: string; recipient: string };
+
+/** Largest euint64, which makes a spending limit unlimited */
+export const UNLIMITED_SPEND = 2n ** 64n - 1n;
+
+export interface SpendingLimits {
+  /** Most the subscription may pay per SPEND_PERIOD, in the rule's amount unit */
+  periodCap: bigint;
+  /** Most it may pay in total */
+  budget: bigint;
+}
+
+export interface SpendingBudget extends SpendingLimits {
+  spent: bigint;
+  spentThisPeriod: bigint;
+  remaining: bigint;
+  remainingThisPeriod: bigint;
+}
+
+export interface CreatePaymentRuleParams {
+  ruleId: string;
+  /** Encrypted as euint32; a submitted metric must be >= threshold to pay */
+  threshold: number;
+  /** Wei for ETH rules, token units for ERC-20 rules */
+  amount: bigint | number;
+  paymentInterval: number;
+  recipient: string;
+  /** Defaults to native ETH (zero address) */
+  paymentToken?: string;
+  description: string;
+}
+
+export interface CreateConfidentialPaymentRuleParams {
+  ruleId: string;
+  /** Encrypted as euint64, never revealed on-chain */
+  amount: bigint | number;
+  /** Encrypted as euint32 alongside the amount */
+  threshold: number;
+  paymentInterval: number;
+  recipient: string;
+  /** ERC-7984 confidential token */
+  paymentToken: string;
+  description: string;
+}
+
+export interface AutoPayClientOptions {
+  /** Told about every stage of each write the client sends */
+  onTransaction?: TransactionObserver;
+  /**
+   * Send the RELAYABLE_FUNCTIONS (subscribing and managing a subscription) as signed
+   * forward requests through this relay, so the account needs no ETH for them
+   */
+  forwardRelay?: ForwardRelayClient;
+}
+
+export class AutoPayClient {
+  readonly contract: AutoPaySystem;
+  private address: string;
+  private multicall: Multicall | null = null;
+  private onTransaction?: TransactionObserver;
+  private forwardRelay?: ForwardRelayClient;
+
+  constructor(address: string, runner: ethers.ContractRunner, options: AutoPayClientOptions = {}) {
+    this.contract = AutoPaySystem__factory.connect(address, runner);
+    this.address = address;
+    this.onTransaction = options.onTransaction;
+    this.forwardRelay = options.forwardRelay;
+  }
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  /**
+   * Encrypt the threshold for `userAddress` and create a payment rule
+   */
+  async createPaymentRule(userAddress: string, params: CreatePaymentRuleParams): Promise<ethers.ContractTransactionReceipt> {
+    this.onTransaction?.({ stage: 'encrypting' });
+    const encrypted = await createEncryptedInput(this.address, userAddress, params.threshold);
+    return this.send(() => this.contract.createPaymentRule(
+      params.ruleId,
+      encrypted.encryptedData,
+      encrypted.proof,
+      params.amount,
+      params.paymentInterval,
+      params.recipient,
+      params.paymentToken ?? ethers.ZeroAddress,
+      params.description
+    ));
+  }
+
+  /**
+   * Encrypt the amount (euint64) and threshold (euint32) under a single input
+   * proof and create a rule paid in a confidential token
+   */
+  async createConfidentialPaymentRule(
+    userAddress: string,
+    params: CreateConfidentialPaymentRuleParams
+  ): Promise<ethers.ContractTransactionReceipt> {
+    this.onTransaction?.({ stage: 'encrypting' });
+    const { handles, inputProof } = await encrypt(this.address, userAddress)
+      .u64(params.amount)
+      .u32(params.threshold)
+      .encrypt();
+
+    return this.send(() => this.contract.createConfidentialPaymentRule(
+      params.ruleId,
+      handles[0],
+      handles[1],
+      inputProof,
+      params.paymentInterval,
+      params.recipient,
+      params.paymentToken,
+      params.description
+    ));
+  }
+
+  /**
+   * Subscribe the connected account; enrolling anyone else takes their signed consent
+   * (see createSubscriptionWithConsent)
+   */
+  async createSubscription(subscriptionId: string, ruleId: string, subscriber: string): Promise<ethers.ContractTransactionReceipt> {
+    if (this.forwardRelay) return this.relay('createSubscription', [subscriptionId, ruleId, subscriber]);
+    return this.send(() => this.contract.createSubscription(subscriptionId, ruleId, subscriber));
+  }
+
+  /**
+   * Subscribe `consent.subscriber` with the consent they signed through signSubscriptionConsent
+   */
+  async createSubscriptionWithConsent(consent: SubscriptionConsent): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.createSubscriptionWithConsent(
+      consent.subscriptionId,
+      consent.ruleId,
+      consent.subscriber,
+      consent.nonce,
+      consent.deadline,
+      consent.signature
+    ));
+  }
+
+  async isConsentNonceUsed(subscriber: string, nonce: bigint): Promise<boolean> {
+    return this.contract.usedConsentNonces(subscriber, nonce);
+  }
+
+  /**
+   * Void the consent the connected account signed with `nonce`, if nobody submitted it yet
+   */
+  async revokeConsent(nonce: bigint): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.revokeConsent(nonce));
+  }
+
+  /**
+   * Let `oracle` submit metrics for every subscription of the rule (creator only,
+   * zero address to revoke)
+   */
+  async setRuleOracle(ruleId: string, oracle: string): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.setRuleOracle(ruleId, oracle));
+  }
+
+  /**
+   * Encrypt `metric` for the caller and submit it; the contract compares it with
+   * the rule's encrypted threshold without decrypting either value
+   */
+  async submitEncryptedMetric(
+    userAddress: string,
+    subscriptionId: string,
+    metric: number
+  ): Promise<ethers.ContractTransactionReceipt> {
+    this.onTransaction?.({ stage: 'encrypting' });
+    const encrypted = await createEncryptedInput(this.address, userAddress, metric);
+    return this.send(() => this.contract.submitEncryptedMetric(subscriptionId, encrypted.encryptedData, encrypted.proof));
+  }
+
+  /**
+   * Handle of the encrypted result of `metric >= threshold` and the payment fitting the
+   * subscriber's spending limits, ZeroHash if no metric is pending
+   */
+  async getConditionHandle(subscriptionId: string): Promise<string> {
+    return this.contract.getConditionHandle(subscriptionId);
+  }
+
+  async getConditionHandles(subscriptionIds: string[]): Promise<string[]> {
+    const results = await this.getMulticall().callEach(
+      this.contract,
+      'getConditionHandle',
+      subscriptionIds.map(id => [id])
+    );
+    return results.map((result, i) => {
+      if (!result) throw new Error(`Subscription ${subscriptionIds[i]} does not exist`);
+      return result[0];
+    });
+  }
+
+  /**
+   * Learn only whether the pending metric met the threshold within the spending limits,
+   * or null if none is pending.
+   * Public rules decrypt the outcome publicly; confidential rules need the
+   * subscriber's or creator's `signer` (default: the SDK's headless signer)
+   * for EIP-712 user decryption
+   */
+  async getConditionOutcome(subscriptionId: string, signer?: ethers.Signer): Promise<boolean | null> {
+    const handle = await this.getConditionHandle(subscriptionId);
+    if (handle === ethers.ZeroHash) return null;
+
+    const subscription = await this.getSubscription(subscriptionId);
+    const rule = await this.getPaymentRule(subscription.ruleId);
+    if (!rule.isConfidential) {
+      const decryption = await publicDecryptV09([handle]);
+      // ebool clear values come back as booleans, not bigints
+      return BigInt(decryption.clearValues[handle]) !== 0n;
+    }
+
+    return (await decryptValue(handle, this.address, signer)) !== 0;
+  }
+
+  /**
+   * Execute a due payment against the pending metric. Confidential rules select
+   * the encrypted amount or zero on-chain; other rules publicly decrypt the
+   * condition outcome and submit its KMS proof
+   */
+  async executePayment(subscriptionId: string): Promise<ethers.ContractTransactionReceipt> {
+    const subscription = await this.getSubscription(subscriptionId);
+    const rule = await this.getPaymentRule(subscription.ruleId);
+    if (rule.isConfidential) {
+      return this.send(() => this.contract.executeConfidentialPayment(subscriptionId));
+    }
+
+    const handle = await this.getConditionHandle(subscriptionId);
+    if (handle === ethers.ZeroHash) {
+      throw new Error("No metric has been submitted for this subscription");
+    }
+    const decryption = await publicDecryptV09([handle]);
+    return this.send(() =>
+      this.contract.executePayment(subscriptionId, decryption.abiEncodedClearValues, decryption.decryptionProof)
+    );
+  }
+
+  /**
+   * Fund the ETH escrow of a subscription (ETH-paid rules only)
+   */
+  async depositEscrow(subscriptionId: string, amount: bigint): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.depositEscrow(subscriptionId, { value: amount }));
+  }
+
+  /**
+   * Withdraw unused escrow back to the subscriber
+   */
+  async withdrawEscrow(subscriptionId: string, amount: bigint): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.withdrawEscrow(subscriptionId, amount));
+  }
+
+  async getEscrowBalance(subscriptionId: string): Promise<bigint> {
+    return this.contract.escrowBalances(subscriptionId);
+  }
+
+  /**
+   * Approve AutoPaySystem to pull `amount` of the rule's ERC-20 token from the caller
+   */
+  async approvePaymentToken(ruleId: string, amount: bigint): Promise<ethers.ContractTransactionReceipt> {
+    const rule = await this.getPaymentRule(ruleId);
+    if (rule.paymentToken === ethers.ZeroAddress) {
+      throw new Error("Rule is paid in ETH, use depositEscrow instead");
+    }
+    if (rule.isConfidential) {
+      throw new Error("Rule is paid in a confidential token, use setConfidentialOperator instead");
+    }
+    const token = new ethers.Contract(rule.paymentToken, ERC20_ABI, this.contract.runner);
+    return this.send(() => token.approve(this.address, amount));
+  }
+
+  /**
+   * Remaining ERC-20 allowance the subscriber has granted to AutoPaySystem
+   */
+  async getTokenAllowance(ruleId: string, subscriber: string): Promise<bigint> {
+    const rule = await this.getPaymentRule(ruleId);
+    if (rule.paymentToken === ethers.ZeroAddress || rule.isConfidential) return 0n;
+    const token = new ethers.Contract(rule.paymentToken, ERC20_ABI, this.contract.runner);
+    return token.allowance(subscriber, this.address);
+  }
+
+  /**
+   * Authorize AutoPaySystem to move the caller's confidential tokens until `until` (unix seconds)
+   */
+  async setConfidentialOperator(ruleId: string, until: number): Promise<ethers.ContractTransactionReceipt> {
+    const token = await this.getConfidentialToken(ruleId);
+    return this.send(() => token.setOperator(this.address, until));
+  }
+
+  async isConfidentialOperator(ruleId: string, holder: string): Promise<boolean> {
+    const token = await this.getConfidentialToken(ruleId);
+    return token.isOperator(holder, this.address);
+  }
+
+  /**
+   * Handle of `account`'s encrypted balance, user-decryptable with decryptValue(handle, tokenAddress, signer)
+   */
+  async getConfidentialBalanceHandle(ruleId: string, account: string): Promise<{ handle: string; tokenAddress: string }> {
+    const token = await this.getConfidentialToken(ruleId);
+    return { handle: await token.confidentialBalanceOf(account), tokenAddress: await token.getAddress() };
+  }
+
+  /**
+   * Handle of a confidential rule's amount (decryptable by its creator and subscribers),
+   * of the terms version new subscriptions get unless `version` is given
+   */
+  async getEncryptedAmount(ruleId: string, version?: number): Promise<string> {
+    return (await this.getRuleTerms(ruleId, version)).encryptedAmount;
+  }
+
+  /**
+   * Propose new terms for the rule (creator only). They apply to existing subscriptions
+   * after getTermsNoticePeriod() unless a subscriber accepts them sooner, and to new
+   * subscriptions from then on. One change can be pending at a time
+   */
+  async proposeRuleTerms(
+    userAddress: string,
+    ruleId: string,
+    terms: RuleTermsParams
+  ): Promise<ethers.ContractTransactionReceipt> {
+    const rule = await this.getPaymentRule(ruleId);
+    this.onTransaction?.({ stage: 'encrypting' });
+    const input = encrypt(this.address, userAddress).u32(terms.threshold);
+    if (rule.isConfidential) input.u64(terms.amount);
+    const { handles, inputProof } = await input.encrypt();
+
+    return this.send(() => rule.isConfidential
+      ? this.contract.proposeRuleTerms(ruleId, handles[0], handles[1], inputProof, 0)
+      // Regular rules ignore the encrypted amount
+      : this.contract.proposeRuleTerms(ruleId, handles[0], ethers.ZeroHash, inputProof, terms.amount));
+  }
+
+  /**
+   * Move the subscription to the rule's pending terms now (subscriber only), unless
+   * the subscriber already declined them
+   */
+  async acceptRuleTerms(subscriptionId: string): Promise<ethers.ContractTransactionReceipt> {
+    if (this.forwardRelay) return this.relay('acceptRuleTerms', [subscriptionId]);
+    return this.send(() => this.contract.acceptRuleTerms(subscriptionId));
+  }
+
+  /**
+   * Keep the current terms and end the subscription when the pending ones take effect
+   * (subscriber only)
+   */
+  async declineRuleTerms(subscriptionId: string): Promise<ethers.ContractTransactionReceipt> {
+    if (this.forwardRelay) return this.relay('declineRuleTerms', [subscriptionId]);
+    return this.send(() => this.contract.declineRuleTerms(subscriptionId));
+  }
+
+  async disableRule(ruleId: string): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.disableRule(ruleId));
+  }
+
+  async enableRule(ruleId: string): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.enableRule(ruleId));
+  }
+
+  /**
+   * Creator only; emits RuleDescriptionUpdated
+   */
+  async updateRuleDescription(ruleId: string, description: string): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.updateRuleDescription(ruleId, description));
+  }
+
+  /**
+   * Creator only; applies to every later execution of the rule's subscriptions
+   */
+  async updateRuleRecipient(ruleId: string, recipient: string): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(() => this.contract.updateRuleRecipient(ruleId, recipient));
+  }
+
+  async disableSubscription(subscriptionId: string): Promise<ethers.ContractTransactionReceipt> {
+    if (this.forwardRelay) return this.relay('disableSubscription', [subscriptionId]);
+    return this.send(() => this.contract.disableSubscription(subscriptionId));
+  }
+
+  /**
+   * Hold payments until `resumeAt` (Unix seconds), or until resumeSubscription when
+   * omitted. Missed periods are not made up
+   */
+  async pauseSubscription(subscriptionId: string, resumeAt = 0): Promise<ethers.ContractTransactionReceipt> {
+    if (this.forwardRelay) return this.relay('pauseSubscription', [subscriptionId, resumeAt]);
+    return this.send(() => this.contract.pauseSubscription(subscriptionId, resumeAt));
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<ethers.ContractTransactionReceipt> {
+    if (this.forwardRelay) return this.relay('resumeSubscription', [subscriptionId]);
+    return this.send(() => this.contract.resumeSubscription(subscriptionId));
+  }
+
+  /**
+   * Replace the subscription's end bounds (subscriber only); it expires at whichever
+   * is reached first
+   */
+  async setSubscriptionEnd(subscriptionId: string, end: SubscriptionEnd): Promise<ethers.ContractTransactionReceipt> {
+    const args = [subscriptionId, end.maxPayments ?? 0, end.endTimestamp ?? 0] as const;
+    if (this.forwardRelay) return this.relay('setSubscriptionEnd', [...args]);
+    return this.send(() => this.contract.setSubscriptionEnd(...args));
+  }
+
+  /**
+   * Encrypt and set the subscription's per-SPEND_PERIOD cap and lifetime budget
+   * (subscriber only). An omitted limit is unlimited; a pending metric is re-evaluated
+   * against the new limits
+   */
+  async setSpendingLimits(
+    userAddress: string,
+    subscriptionId: string,
+    limits: Partial<SpendingLimits>
+  ): Promise<ethers.ContractTransactionReceipt> {
+    this.onTransaction?.({ stage: 'encrypting' });
+    const { handles, inputProof } = await encrypt(this.address, userAddress)
+      .u64(limits.periodCap ?? UNLIMITED_SPEND)
+      .u64(limits.budget ?? UNLIMITED_SPEND)
+      .encrypt();
+
+    return this.send(() => this.contract.setSpendingLimits(subscriptionId, handles[0], handles[1], inputProof));
+  }
+
+  async hasSpendingLimits(subscriptionId: string): Promise<boolean> {
+    const [, budget] = await this.contract.getSpendingLimitHandles(subscriptionId);
+    return budget !== ethers.ZeroHash;
+  }
+
+  /**
+   * User-decrypt the subscription's spending limits and what it paid against them, or
+   * null if it has none. Only the subscriber can decrypt; `signer` defaults to the
+   * SDK's headless signer
+   */
+  async getSpendingBudget(subscriptionId: string, signer?: ethers.Signer): Promise<SpendingBudget | null> {
+    const [periodCap, budget] = await this.contract.getSpendingLimitHandles(subscriptionId);
+    if (budget === ethers.ZeroHash) return null;
+
+    const [now, spendPeriod] = await Promise.all([this.getChainTime(), this.getSpendPeriod()]);
+    const period = Math.floor(now / spendPeriod);
+    const [spent, spentThisPeriod] = await this.contract.getSubscriptionSpendHandles(subscriptionId, period);
+    // Nothing paid yet leaves the spend handles unset, which cannot be decrypted
+    const handles = [periodCap, budget, spent, spentThisPeriod].filter(handle => handle !== ethers.ZeroHash);
+    const values = await batchDecryptBigInts(handles, this.address, signer);
+    const value = (handle: string) => values[handle] ?? 0n;
+
+    const limits = { periodCap: value(periodCap), budget: value(budget) };
+    const paid = { spent: value(spent), spentThisPeriod: value(spentThisPeriod) };
+    const left = (limit: bigint, used: bigint) => limit > used ? limit - used : 0n;
+    return {
+      ...limits,
+      ...paid,
+      remaining: left(limits.budget, paid.spent),
+      remainingThisPeriod: left(limits.periodCap, paid.spentThisPeriod),
+    };
+  }
+
+  async getPaymentRule(ruleId: string): Promise<PaymentRule> {
+    return toPaymentRule(await this.contract.getPaymentRule(ruleId));
+  }
+
+  async getSubscription(subscriptionId: string): Promise<Subscription> {
+    return toSubscription(await this.contract.getSubscription(subscriptionId));
+  }
+
+  /**
+   * Many rules in one Multicall3 round trip
+   */
+  async getPaymentRules(ruleIds: string[]): Promise<PaymentRule[]> {
+    const results = await this.getMulticall().callEach(this.contract, 'getPaymentRule', ruleIds.map(id => [id]));
+    return results.map((result, i) => {
+      if (!result) throw new Error(`Rule ${ruleIds[i]} does not exist`);
+      return toPaymentRule(result as unknown as PaymentRuleResult);
+    });
+  }
+
+  async getSubscriptions(subscriptionIds: string[]): Promise<Subscription[]> {
+    const results = await this.getMulticall().callEach(
+      this.contract,
+      'getSubscription',
+      subscriptionIds.map(id => [id])
+    );
+    return results.map((result, i) => {
+      if (!result) throw new Error(`Subscription ${subscriptionIds[i]} does not exist`);
+      return toSubscription(result as unknown as SubscriptionResult);
+    });
+  }
+
+  async getRuleIdsPage(offset: number, limit: number): Promise<IdPage> {
+    return toIdPage(await this.contract.getRuleIdsPage(offset, limit));
+  }
+
+  async getSubscriptionIdsPage(offset: number, limit: number): Promise<IdPage> {
+    return toIdPage(await this.contract.getSubscriptionIdsPage(offset, limit));
+  }
+
+  async getRuleIdsByCreator(creator: string, offset: number, limit: number): Promise<IdPage> {
+    return toIdPage(await this.contract.getRuleIdsByCreator(creator, offset, limit));
+  }
+
+  async getSubscriptionIdsBySubscriber(subscriber: string, offset: number, limit: number): Promise<IdPage> {
+    return toIdPage(await this.contract.getSubscriptionIdsBySubscriber(subscriber, offset, limit));
+  }
+
+  async getRuleSubscriptionsPage(ruleId: string, offset: number, limit: number): Promise<IdPage> {
+    return toIdPage(await this.contract.getRuleSubscriptionsPage(ruleId, offset, limit));
+  }
+
+  /**
+   * A page of rules (optionally only `creator`'s) with their subscriber counts:
+   * one call for the ids, one Multicall3 round trip for the details
+   */
+  async getPaymentRulesPage(
+    offset: number,
+    limit: number,
+    filter: { creator?: string } = {}
+  ): Promise<{ rules: PaymentRuleWithStats[]; total: number }> {
+    const { ids, total } = filter.creator
+      ? await this.getRuleIdsByCreator(filter.creator, offset, limit)
+      : await this.getRuleIdsPage(offset, limit);
+
+    const results = await this.getMulticall().callMany(this.contract, ids.flatMap(id => [
+      { method: 'getPaymentRule', args: [id] },
+      // limit 0 returns only the total
+      { method: 'getRuleSubscriptionsPage', args: [id, 0, 0] },
+    ]));
+
+    return {
+      rules: ids.map((id, i) => {
+        const rule = results[2 * i];
+        const subscriptions = results[2 * i + 1];
+        if (!rule || !subscriptions) throw new Error(`Rule ${id} does not exist`);
+        return { ...toPaymentRule(rule as unknown as PaymentRuleResult), subscriptionCount: Number(subscriptions[1]) };
+      }),
+      total,
+    };
+  }
+
+  /**
+   * Every rule, fetched `pageSize` at a time
+   */
+  async getAllPaymentRules(pageSize = 200, filter: { creator?: string } = {}): Promise<PaymentRuleWithStats[]> {
+    const all: PaymentRuleWithStats[] = [];
+    let total = Infinity;
+    for (let offset = 0; offset < total; offset += pageSize) {
+      const page = await this.getPaymentRulesPage(offset, pageSize, filter);
+      all.push(...page.rules);
+      total = page.total;
+    }
+    return all;
+  }
+
+  /**
+   * Every subscription of `subscriber`, ids fetched `pageSize` at a time
+   */
+  async getSubscriberSubscriptions(subscriber: string, pageSize = 200): Promise<Subscription[]> {
+    const all: Subscription[] = [];
+    let total = Infinity;
+    for (let offset = 0; offset < total; offset += pageSize) {
+      const page = await this.getSubscriptionIdsBySubscriber(subscriber, offset, pageSize);
+      all.push(...(await this.getSubscriptions(page.ids)));
+      total = page.total;
+    }
+    return all;
+  }
+
+  /**
+   * Earliest timestamp at which the subscription can be executed (0 = due now)
+   */
+  async getNextDueTimestamp(subscriptionId: string): Promise<number> {
+    return Number(await this.contract.nextDueTimestamp(subscriptionId));
+  }
+
+  /**
+   * Handle of the rule's encrypted threshold (user-decryptable by its creator), of the
+   * terms version new subscriptions get unless `version` is given
+   */
+  async getEncryptedThreshold(ruleId: string, version?: number): Promise<string> {
+    return (await this.getRuleTerms(ruleId, version)).encryptedThreshold;
+  }
+
+  /**
+   * One version of the rule's terms; defaults to the one new subscriptions get
+   */
+  async getRuleTerms(ruleId: string, version?: number): Promise<RuleTerms> {
+    if (version === undefined) {
+      const [history, now] = await Promise.all([this.getRuleTermsHistory(ruleId), this.getChainTime()]);
+      return history[latestTermsInEffect(history, now)];
+    }
+    return toRuleTerms(version, await this.contract.ruleTerms(ruleId, version));
+  }
+
+  /**
+   * Every version of the rule's terms, oldest first, in one Multicall3 round trip.
+   * Only the last one can still be pending
+   */
+  async getRuleTermsHistory(ruleId: string): Promise<RuleTerms[]> {
+    const count = Number(await this.contract.getRuleTermsCount(ruleId));
+    if (count === 0) throw new Error(`Rule ${ruleId} does not exist`);
+    const args = Array.from({ length: count }, (_, version) => [ruleId, version]);
+    const results = await this.getMulticall().callEach(this.contract, 'ruleTerms', args);
+    return results.map((result, version) => {
+      if (!result) throw new Error(`Terms version ${version} of rule ${ruleId} not found`);
+      return toRuleTerms(version, result as unknown as RuleTermsResult);
+    });
+  }
+
+  /**
+   * Terms version a metric submitted for the subscription now would be paid under
+   */
+  async getSubscriptionTermsVersion(subscriptionId: string): Promise<number> {
+    return Number(await this.contract.subscriptionTermsVersion(subscriptionId));
+  }
+
+  /**
+   * Seconds between proposeRuleTerms and the new terms applying to existing subscriptions
+   */
+  async getTermsNoticePeriod(): Promise<number> {
+    return Number(await this.contract.TERMS_NOTICE_PERIOD());
+  }
+
+  /**
+   * Compare the subscription's terms with the rule's pending change
+   */
+  async previewSubscriptionTerms(subscriptionId: string): Promise<SubscriptionTermsPreview> {
+    const subscription = await this.getSubscription(subscriptionId);
+    const [history, version, declined, now] = await Promise.all([
+      this.getRuleTermsHistory(subscription.ruleId),
+      this.getSubscriptionTermsVersion(subscriptionId),
+      this.contract.declinedTermsVersion(subscriptionId),
+      this.getChainTime(),
+    ]);
+
+    const pending = history[latestTermsInEffect(history, now) + 1] ?? null;
+    return {
+      current: history[version],
+      pending,
+      accepted: pending !== null && version === pending.version,
+      declined: pending !== null && Number(declined) === pending.version,
+    };
+  }
+
+  /**
+   * Length in seconds of the buckets spend totals are kept in; a payment at
+   * `timestamp` counts towards period `Math.floor(timestamp / spendPeriod)`
+   */
+  async getSpendPeriod(): Promise<number> {
+    return Number(await this.contract.SPEND_PERIOD());
+  }
+
+  /**
+   * Handles of `subscriber`'s encrypted spend totals in one Multicall3 round trip.
+   * Only the subscriber can user-decrypt them; ZeroHash means nothing was paid yet
+   */
+  async getSpendHandles(subscriber: string, keys: SpendKey[]): Promise<string[]> {
+    const results = await this.getMulticall().callMany(this.contract, keys.map(key => {
+      switch (key.kind) {
+        case 'total':
+          return { method: 'getSpendTotalHandle', args: [subscriber, key.paymentToken] };
+        case 'period':
+          return { method: 'getPeriodSpendHandle', args: [subscriber, key.paymentToken, key.period] };
+        case 'recipient':
+          return { method: 'getRecipientSpendHandle', args: [subscriber, key.paymentToken, key.recipient] };
+      }
+    }));
+    return results.map(result => {
+      if (!result) throw new Error('Spend total lookup failed');
+      return result[0];
+    });
+  }
+
+  async getAllRuleIds(): Promise<string[]> {
+    return this.contract.getAllRuleIds();
+  }
+
+  async getAllSubscriptionIds(): Promise<string[]> {
+    return this.contract.getAllSubscriptionIds();
+  }
+
+  async getRuleSubscriptions(ruleId: string): Promise<string[]> {
+    return this.contract.getRuleSubscriptions(ruleId);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.contract.isAvailable();
+  }
+
+  /**
+   * Latest block timestamp. The contract decides due dates, effective terms and spend
+   * periods with block.timestamp, which drifts from the local clock (and jumps with
+   * time travel on a mock chain)
+   */
+  async getChainTime(): Promise<number> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error('Reading the chain time needs a runner with a provider');
+    const block = await provider.getBlock('latest');
+    if (!block) throw new Error('Latest block not found');
+    return block.timestamp;
+  }
+
+  private getMulticall(): Multicall {
+    if (!this.multicall) {
+      const provider = this.contract.runner?.provider;
+      if (!provider) throw new Error('Batched reads need a runner with a provider');
+      this.multicall = new Multicall(provider);
+    }
+    return this.multicall;
+  }
+
+  private async getConfidentialToken(ruleId: string): Promise<ethers.Contract> {
+    const rule = await this.getPaymentRule(ruleId);
+    if (!rule.isConfidential) {
+      throw new Error("Rule is not paid in a confidential token");
+    }
+    return new ethers.Contract(rule.paymentToken, ERC7984_ABI, this.contract.runner);
+  }
+
+  private send(submit: () => Promise<ethers.ContractTransactionResponse>): Promise<ethers.ContractTransactionReceipt> {
+    return trackTransaction(submit, this.onTransaction, this.contract.interface);
+  }
+
+  // `signing` covers the forward request signature; the transaction is the relay's
+  private relay(method: RelayableFunction, args: unknown[]): Promise<ethers.ContractTransactionReceipt> {
+    return this.send(async () => {
+      const forwardRelay = this.forwardRelay;
+      const signer = this.contract.runner;
+      if (!forwardRelay) {
+        throw new FhevmError('NOT_INITIALIZED', 'Relaying needs a forward relay client');
+      }
+      if (!signer || !isSigner(signer) || !signer.provider) {
+        throw new FhevmError('NOT_INITIALIZED', 'Relaying needs a signer connected to a provider');
+      }
+      const request = await signForwardRequest(signer, await this.contract.trustedForwarder(), {
+        to: this.address,
+        data: (this.contract.interface as ethers.Interface).encodeFunctionData(method, args),
+      });
+      const hash = await forwardRelay.relay(request);
+      return await findTransaction(signer.provider, hash) as ethers.ContractTransactionResponse;
+    });
+  }
+}
+
+// Outputs of the AutoPaySystem views the client maps to its own types; Multicall3
+// results are the same tuples, decoded without the typechain typing
+type PaymentRuleResult = Awaited<ReturnType<AutoPaySystem['getPaymentRule']>>;
+type SubscriptionResult = Awaited<ReturnType<AutoPaySystem['getSubscription']>>;
+type RuleTermsResult = Awaited<ReturnType<AutoPaySystem['ruleTerms']>>;
+
+function isSigner(runner: ethers.ContractRunner): runner is ethers.Signer {
+  return 'signTypedData' in runner && typeof runner.signTypedData === 'function';
+}
+
+async function findTransaction(provider: ethers.Provider, hash: string): Promise<ethers.TransactionResponse> {
+  for (let attempt = 1; ; attempt++) {
+    const tx = await provider.getTransaction(hash);
+    if (tx) return tx;
+    if (attempt === RELAYED_TX_POLL_ATTEMPTS) {
+      throw new FhevmError('UNKNOWN', `Relayed transaction ${hash} not found`);
+    }
+    await new Promise(resolve => setTimeout(resolve, RELAYED_TX_POLL_MS));
+  }
+}
+
+function toPaymentRule(result: PaymentRuleResult): PaymentRule {
+  const [id, amount, recipient, description, creator, timestamp, isActive, paymentInterval, paymentToken, isConfidential] =
+    result;
+  return {
+    ruleId: id,
+    amount,
+    paymentInterval: Number(paymentInterval),
+    recipient,
+    paymentToken,
+    isConfidential,
+    description,
+    creator,
+    timestamp: Number(timestamp),
+    isActive,
+  };
+}
+
+function toSubscription(result: SubscriptionResult): Subscription {
+  const [id, ruleId, subscriber, lastPaymentTimestamp, isActive, pausedUntil, paymentCount, maxPayments, endTimestamp] = result;
+  return {
+    subscriptionId: id,
+    ruleId,
+    subscriber,
+    lastPaymentTimestamp: Number(lastPaymentTimestamp),
+    isActive,
+    // Paused without a resume date is stored as the largest uint256
+    pausedUntil: pausedUntil === ethers.MaxUint256 ? Infinity : Number(pausedUntil),
+    paymentCount: Number(paymentCount),
+    maxPayments: Number(maxPayments),
+    endTimestamp: Number(endTimestamp),
+  };
+}
+
+function toRuleTerms(version: number, result: RuleTermsResult): RuleTerms {
+  const [encryptedThreshold, encryptedAmount, amount, effectiveAt] = result;
+  return { version, amount, encryptedAmount, encryptedThreshold, effectiveAt: Number(effectiveAt) };
+}
+
+// Mirrors AutoPaySystem: only the last version can be pending, and version 0 never is
+function latestTermsInEffect(history: RuleTerms[], now: number): number {
+  const last = history.length - 1;
+  return history[last].effectiveAt > now ? last - 1 : last;
+}
+
+function toIdPage([ids, total]: [string[], bigint]): IdPage {
+  return { ids: [...ids], total: Number(total) };
+}
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { checkSubscriptionConsent, signSubscriptionConsent } from './consent.js';
+import type { SubscriptionConsent } from './consent.js';
+import { UserRejectedError } from './errors.js';
+import { AutoPaySystem__factory } from '../typechain/index.js';
+
+vi.mock('../typechain/index.js', () => ({ AutoPaySystem__factory: { connect: vi.fn() } }));
+
+const AUTOPAY = '0x000000000000000000000000000000000000bEEF';
+const NOW = 1_700_000_000;
+const REQUEST = { subscriptionId: 'sub-1', ruleId: 'rule-1', deadline: NOW + 3600 };
+
+describe('subscription consent', () => {
+  const subscriber = new ethers.Wallet(ethers.id('subscriber'));
+  let used: Set<bigint>;
+  let code: string;
+  let provider: ethers.Provider;
+
+  beforeEach(() => {
+    used = new Set();
+    code = '0x';
+    vi.mocked(AutoPaySystem__factory.connect).mockReturnValue({
+      eip712Domain: async () => ['0x0f', 'AutoPaySystem', '1', 31337n, AUTOPAY, ethers.ZeroHash, []],
+      usedConsentNonces: async (_: string, nonce: bigint) => used.has(nonce),
+    } as never);
+    provider = {
+      getBlock: async () => ({ timestamp: NOW }),
+      getCode: async () => code,
+    } as unknown as ethers.Provider;
+  });
+
+  const signed = () => signSubscriptionConsent(subscriber, AUTOPAY, REQUEST);
+
+  it('signs the request with a fresh random nonce', async () => {
+    const [consent, other] = await Promise.all([signed(), signed()]);
+
+    expect(consent).toMatchObject({ ...REQUEST, subscriber: subscriber.address });
+    expect(consent.nonce).not.toBe(other.nonce);
+    expect(await checkSubscriptionConsent(consent, AUTOPAY, provider)).toBeNull();
+    expect(await checkSubscriptionConsent(other, AUTOPAY, provider)).toBeNull();
+  });
+
+  it('signs with the requested nonce', async () => {
+    const consent = await signSubscriptionConsent(subscriber, AUTOPAY, { ...REQUEST, nonce: 3n });
+
+    expect(consent.nonce).toBe(3n);
+    expect(await checkSubscriptionConsent(consent, AUTOPAY, provider)).toBeNull();
+  });
+
+  it('reports wallet rejections as UserRejectedError', async () => {
+    const rejecting = {
+      getAddress: async () => subscriber.address,
+      signTypedData: async () => {
+        throw ethers.makeError('user rejected action', 'ACTION_REJECTED', {
+          action: 'signTypedData',
+          reason: 'rejected',
+        });
+      },
+    } as unknown as ethers.Signer;
+
+    await expect(signSubscriptionConsent(rejecting, AUTOPAY, REQUEST)).rejects.toBeInstanceOf(UserRejectedError);
+  });
+
+  it('rejects consents past their deadline', async () => {
+    const consent = { ...(await signed()), deadline: NOW - 1 };
+
+    expect(await checkSubscriptionConsent(consent, AUTOPAY, provider)).toBe('Consent expired');
+  });
+
+  it('rejects consents whose nonce was used or revoked', async () => {
+    const consent = await signed();
+    used.add(consent.nonce);
+
+    expect(await checkSubscriptionConsent(consent, AUTOPAY, provider)).toBe('Consent already used or revoked');
+  });
+
+  it('rejects signatures by anyone but the subscriber, or over other terms', async () => {
+    const consent = await signed();
+    const forged: SubscriptionConsent = { ...consent, subscriber: ethers.Wallet.createRandom().address };
+    const altered: SubscriptionConsent = { ...consent, ruleId: 'rule-2' };
+    const malformed: SubscriptionConsent = { ...consent, signature: '0x1234' };
+
+    for (const invalid of [forged, altered, malformed]) {
+      expect(await checkSubscriptionConsent(invalid, AUTOPAY, provider)).toBe('Invalid consent signature');
+    }
+  });
+
+  it('leaves contract wallet signatures to the chain', async () => {
+    code = '0x60';
+    const consent = { ...(await signed()), signature: '0x1234' };
+
+    expect(await checkSubscriptionConsent(consent, AUTOPAY, provider)).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Subscription Consent - Universal SDK
+ * EIP-712 SubscriptionConsent signatures, which let a merchant enroll a subscriber
+ * through createSubscriptionWithConsent and pay the gas for it
+ */
+
+import { ethers } from 'ethers';
+import { AutoPaySystem__factory } from '../typechain/index.js';
+import { toFhevmError } from './errors.js';
+
+export const SUBSCRIPTION_CONSENT_TYPES = {
+  SubscriptionConsent: [
+    { name: 'subscriptionId', type: 'string' },
+    { name: 'ruleId', type: 'string' },
+    { name: 'subscriber', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface SubscriptionConsentRequest {
+  subscriptionId: string;
+  ruleId: string;
+  /** Unix seconds after which the consent can no longer be used */
+  deadline: number;
+  /** Defaults to a random nonce, so it cannot collide with the subscriber's other consents */
+  nonce?: bigint;
+}
+
+export interface SubscriptionConsent extends SubscriptionConsentRequest {
+  subscriber: string;
+  /** Accepted once per subscriber, until used or revoked with `revokeConsent` */
+  nonce: bigint;
+  signature: string;
+}
+
+/**
+ * The contract's EIP-712 domain, as it reports it (ERC-5267)
+ */
+export async function getConsentDomain(autoPayAddress: string, runner: ethers.ContractRunner): Promise<ethers.TypedDataDomain> {
+  const [, name, version, chainId, verifyingContract] =
+    await AutoPaySystem__factory.connect(autoPayAddress, runner).eip712Domain();
+  return { name, version, chainId, verifyingContract };
+}
+
+/**
+ * Sign the subscriber's consent to `request`. Anyone holding the result can submit it,
+ * until the deadline or until the nonce is used or revoked; other outstanding consents
+ * stay valid either way
+ */
+export async function signSubscriptionConsent(
+  signer: ethers.Signer,
+  autoPayAddress: string,
+  request: SubscriptionConsentRequest
+): Promise<SubscriptionConsent> {
+  const [subscriber, domain] = await Promise.all([signer.getAddress(), getConsentDomain(autoPayAddress, signer)]);
+  const nonce = request.nonce ?? ethers.toBigInt(ethers.randomBytes(32));
+  const consent = { ...request, subscriber, nonce };
+
+  try {
+    const signature = await signer.signTypedData(domain, SUBSCRIPTION_CONSENT_TYPES, consent);
+    return { ...consent, signature };
+  } catch (error) {
+    throw toFhevmError(error);
+  }
+}
+
+/**
+ * Why `consent` would be rejected on-chain right now, or null if it would be accepted.
+ * Only EOA signatures are checked; contract wallets are left to the chain (ERC-1271)
+ */
+export async function checkSubscriptionConsent(
+  consent: SubscriptionConsent,
+  autoPayAddress: string,
+  provider: ethers.Provider
+): Promise<string | null> {
+  const [domain, used, block, code] = await Promise.all([
+    getConsentDomain(autoPayAddress, provider),
+    AutoPaySystem__factory.connect(autoPayAddress, provider).usedConsentNonces(consent.subscriber, consent.nonce),
+    provider.getBlock('latest'),
+    provider.getCode(consent.subscriber),
+  ]);
+
+  if (block && block.timestamp > consent.deadline) return 'Consent expired';
+  if (used) return 'Consent already used or revoked';
+  if (code !== '0x') return null;
+
+  const { signature, ...message } = consent;
+  try {
+    const signer = ethers.verifyTypedData(domain, SUBSCRIPTION_CONSENT_TYPES, message, signature);
+    return ethers.getAddress(signer) === ethers.getAddress(consent.subscriber) ? null : 'Invalid consent signature';
+  } catch {
+    return 'Invalid consent signature';
+  }
+}
@@ -4,7 +4,10 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { createEncryptedInput, encrypt } from './encryption.js';
+import type { EncryptedInputBuilder, EncryptedInputResult } from './encryption.js';
+import { toFhevmError } from './errors.js';
+import { trackTransaction } from './transactions.js';
 
 export class FhevmContract {
   private contract: ethers.Contract;
@@ -17,13 +20,22 @@ export class FhevmContract {
 
   /**
    * Encrypt and call contract function
+   * Multi-value inputs are passed as (...handles, inputProof, ...additionalParams)
+   * Rejections and reverts are thrown as FhevmErrors, reverts decoded with the contract's ABI
    */
   async encryptAndCall(
     functionName: string,
-    encryptedParams: any,
+    encryptedParams: EncryptedInputResult | { encryptedData: string; proof: string },
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    const args = 'handles' in encryptedParams
+      ? [...encryptedParams.handles, encryptedParams.inputProof]
+      : [encryptedParams.encryptedData, encryptedParams.proof];
+    try {
+      return await this.contract[functionName](...args, ...additionalParams);
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
   }
 
   /**
@@ -31,22 +43,28 @@ export class FhevmContract {
    */
   async encryptAndCallAndWait(
     functionName: string,
-    encryptedParams: any,
+    encryptedParams: EncryptedInputResult | { encryptedData: string; proof: string },
     ...additionalParams: any[]
   ): Promise<ethers.TransactionReceipt> {
-    const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
-    if (!receipt) {
-      throw new Error("Transaction receipt is null");
-    }
-    return receipt;
+    return trackTransaction(
+      () => this.encryptAndCall(functionName, encryptedParams, ...additionalParams),
+      undefined,
+      this.contract.interface
+    );
+  }
+
+  /**
+   * Start a typed multi-value encrypted input bound to this contract
+   */
+  encrypt(userAddress: string): EncryptedInputBuilder {
+    return encrypt(this.address, userAddress);
   }
 
   /**
    * Create encrypted input for contract
    */
-  async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+  async createEncryptedInput(userAddress: string, value: number | bigint, bitWidth: 8 | 16 | 32 | 64 | 128 | 256 = 32) {
+    return createEncryptedInput(this.address, userAddress, value, bitWidth);
   }
 }
 
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { DecryptionSession, MemorySessionStorage } from './decryption.js';
+import { NotInitializedError } from './errors.js';
+import { getFheInstance } from './fhevm.js';
+
+vi.mock('./fhevm.js', () => ({ getFheInstance: vi.fn(), getFheSigner: vi.fn() }));
+
+const NOW = 1_700_000_000;
+const DAY = 24 * 60 * 60;
+const USER = '0x0000000000000000000000000000000000000001';
+const TOKEN = '0x000000000000000000000000000000000000dEaD';
+const AUTOPAY = '0x000000000000000000000000000000000000bEEF';
+
+describe('DecryptionSession', () => {
+  let storage: MemorySessionStorage;
+  let signer: { getAddress: ReturnType<typeof vi.fn>; signTypedData: ReturnType<typeof vi.fn>; provider: unknown };
+  let instance: {
+    generateKeypair: ReturnType<typeof vi.fn>;
+    createEIP712: ReturnType<typeof vi.fn>;
+    userDecrypt: ReturnType<typeof vi.fn>;
+  };
+
+  const open = (contracts: string[], options = {}) =>
+    DecryptionSession.open(signer as unknown as ethers.Signer, contracts, { storage, ...options });
+  const setNow = (seconds: number) => vi.spyOn(Date, 'now').mockReturnValue(seconds * 1000);
+
+  beforeEach(() => {
+    setNow(NOW);
+    storage = new MemorySessionStorage();
+    signer = {
+      getAddress: vi.fn(async () => USER),
+      signTypedData: vi.fn(async () => '0xabcdef'),
+      provider: { getNetwork: async () => ({ chainId: 31337n }) },
+    };
+    let keys = 0;
+    instance = {
+      generateKeypair: vi.fn(() => ({ publicKey: `pub-${++keys}`, privateKey: `priv-${keys}` })),
+      createEIP712: vi.fn(() => ({ domain: {}, types: { UserDecryptRequestVerification: [] }, message: {} })),
+      userDecrypt: vi.fn(async (pairs: { handle: string }[]) =>
+        Object.fromEntries(pairs.map(({ handle }) => [handle, 42n]))
+      ),
+    };
+    vi.mocked(getFheInstance).mockReturnValue(instance);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('signs once and stores the keypair for the chain, user and contracts', async () => {
+    const session = await open([TOKEN, AUTOPAY]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(instance.createEIP712).toHaveBeenCalledWith('pub-1', [AUTOPAY.toLowerCase(), TOKEN.toLowerCase()], `${NOW}`, '1');
+    expect(session.data).toMatchObject({ userAddress: USER, chainId: 31337, signature: 'abcdef', privateKey: 'priv-1' });
+    expect(session.expiresAt).toBe(NOW + DAY);
+  });
+
+  it('reuses a stored session for the same contract set in any order or case', async () => {
+    await open([TOKEN, AUTOPAY]);
+    const again = await open([AUTOPAY.toLowerCase(), TOKEN, TOKEN]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(again.data.publicKey).toBe('pub-1');
+  });
+
+  it('keeps one session per contract set', async () => {
+    await open([TOKEN]);
+    const other = await open([TOKEN, AUTOPAY]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+    expect(other.data.publicKey).toBe('pub-2');
+  });
+
+  it('shares one signature prompt between concurrent callers', async () => {
+    const [a, b] = await Promise.all([open([TOKEN]), open([TOKEN])]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(a).toBe(b);
+  });
+
+  it('re-signs a minute before the stored session expires', async () => {
+    await open([TOKEN], { durationDays: 2 });
+
+    setNow(NOW + 2 * DAY - 61);
+    expect((await open([TOKEN])).data.publicKey).toBe('pub-1');
+
+    setNow(NOW + 2 * DAY - 60);
+    const renewed = await open([TOKEN]);
+    expect(renewed.data.publicKey).toBe('pub-2');
+    expect(renewed.data.startTimestamp).toBe(NOW + 2 * DAY - 60);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('signs again after clear()', async () => {
+    await (await open([TOKEN])).clear();
+    await open([TOKEN]);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('decrypts handles of the covered contracts in one request', async () => {
+    const session = await open([TOKEN, AUTOPAY]);
+    const result = await session.decrypt([
+      { handle: '0x01', contractAddress: TOKEN },
+      { handle: '0x02', contractAddress: AUTOPAY },
+    ]);
+
+    expect(result).toEqual({ '0x01': 42n, '0x02': 42n });
+    expect(instance.userDecrypt).toHaveBeenCalledTimes(1);
+    expect(instance.userDecrypt.mock.calls[0].slice(1)).toEqual([
+      'priv-1', 'pub-1', 'abcdef', [AUTOPAY.toLowerCase(), TOKEN.toLowerCase()], USER, `${NOW}`, '1',
+    ]);
+  });
+
+  it('refuses contracts outside the session and expired sessions', async () => {
+    const session = await open([TOKEN]);
+    await expect(session.decryptValue('0x01', AUTOPAY)).rejects.toThrow(/does not cover/);
+
+    setNow(NOW + DAY);
+    await expect(session.decryptValue('0x01', TOKEN)).rejects.toThrow(/expired/);
+    expect(instance.userDecrypt).not.toHaveBeenCalled();
+  });
+
+  it('needs a contract and an initialized FHEVM instance', async () => {
+    await expect(open([])).rejects.toThrow(/at least one contract/);
+
+    vi.mocked(getFheInstance).mockReturnValue(null);
+    await expect(open([TOKEN])).rejects.toBeInstanceOf(NotInitializedError);
+  });
+});
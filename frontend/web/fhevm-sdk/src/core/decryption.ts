@@ -0,0 +1,343 @@
+/**
+ * EIP-712 User Decryption Sessions - Universal SDK
+ * Sign once per (signer, chain, contract set) and reuse the keypair until it expires
+ */
+
+import { ethers } from 'ethers';
+import { getFheInstance, getFheSigner } from './fhevm.js';
+import { NotInitializedError, toFhevmError } from './errors.js';
+
+export type DecryptedValue = bigint | boolean | string;
+
+export interface DecryptionSessionData {
+  userAddress: string;
+  chainId: number;
+  /** Lower-cased and sorted so the same set always maps to the same session */
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+/**
+ * Where signed sessions are persisted between page loads / process runs
+ */
+export interface DecryptionSessionStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export interface DecryptionSessionOptions {
+  /** Validity of the EIP-712 authorization (default: 1 day) */
+  durationDays?: number;
+  /** Defaults to localStorage in browsers and a keystore file in Node.js */
+  storage?: DecryptionSessionStorage;
+}
+
+const STORAGE_PREFIX = 'fhevm-sdk:decryption-session:';
+const DEFAULT_DURATION_DAYS = 1;
+// Re-sign slightly before the relayer would start rejecting the signature
+const EXPIRY_MARGIN_SECONDS = 60;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export class MemorySessionStorage implements DecryptionSessionStorage {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+export class BrowserSessionStorage implements DecryptionSessionStorage {
+  constructor(private storage: Storage = window.localStorage) {}
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.storage.setItem(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * JSON keystore on disk, readable only by the current user
+ */
+export class NodeKeystoreSessionStorage implements DecryptionSessionStorage {
+  constructor(private filePath?: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const items = await this.read();
+    return items[key] ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const items = await this.read();
+    items[key] = value;
+    await this.write(items);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const items = await this.read();
+    delete items[key];
+    await this.write(items);
+  }
+
+  private async path(): Promise<string> {
+    if (this.filePath) return this.filePath;
+    // Use eval to prevent bundlers from analyzing these imports
+    const os = await eval('import("os")');
+    const path = await eval('import("path")');
+    return process.env.FHEVM_KEYSTORE || path.join(os.homedir(), '.fhevm-sdk', 'decryption-sessions.json');
+  }
+
+  private async read(): Promise<Record<string, string>> {
+    const fs = await eval('import("fs/promises")');
+    try {
+      return JSON.parse(await fs.readFile(await this.path(), 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  private async write(items: Record<string, string>): Promise<void> {
+    const fs = await eval('import("fs/promises")');
+    const path = await eval('import("path")');
+    const file = await this.path();
+    await fs.mkdir(path.dirname(file), { recursive: true, mode: 0o700 });
+    await fs.writeFile(file, JSON.stringify(items, null, 2), { mode: 0o600 });
+  }
+}
+
+let defaultStorage: DecryptionSessionStorage | null = null;
+const pendingSessions = new Map<string, Promise<DecryptionSession>>();
+
+export function getDefaultSessionStorage(): DecryptionSessionStorage {
+  if (!defaultStorage) {
+    defaultStorage = typeof window !== 'undefined' && window.localStorage
+      ? new BrowserSessionStorage()
+      : new NodeKeystoreSessionStorage();
+  }
+  return defaultStorage;
+}
+
+export class DecryptionSession {
+  private constructor(
+    readonly data: DecryptionSessionData,
+    private storage: DecryptionSessionStorage,
+    private storageKey: string
+  ) {}
+
+  /**
+   * Reuse a stored, unexpired session for this signer and contract set, or
+   * generate a keypair and ask the signer for one EIP-712 signature
+   */
+  static async open(
+    signer: ethers.Signer,
+    contractAddresses: string[],
+    options: DecryptionSessionOptions = {}
+  ): Promise<DecryptionSession> {
+    if (contractAddresses.length === 0) {
+      throw new Error('A decryption session needs at least one contract address');
+    }
+
+    const storage = options.storage ?? getDefaultSessionStorage();
+    const userAddress = ethers.getAddress(await signer.getAddress());
+    const chainId = Number((await signer.provider?.getNetwork())?.chainId ?? 0);
+    const contracts = [...new Set(contractAddresses.map(a => ethers.getAddress(a).toLowerCase()))].sort();
+    const storageKey = `${STORAGE_PREFIX}${chainId}:${userAddress.toLowerCase()}:${contracts.join(',')}`;
+
+    // Concurrent callers share one signature prompt
+    let opening = pendingSessions.get(storageKey);
+    if (!opening) {
+      opening = DecryptionSession.load(signer, storage, storageKey, userAddress, chainId, contracts, options)
+        .finally(() => pendingSessions.delete(storageKey));
+      pendingSessions.set(storageKey, opening);
+    }
+    return opening;
+  }
+
+  private static async load(
+    signer: ethers.Signer,
+    storage: DecryptionSessionStorage,
+    storageKey: string,
+    userAddress: string,
+    chainId: number,
+    contracts: string[],
+    options: DecryptionSessionOptions
+  ): Promise<DecryptionSession> {
+    const stored = await storage.getItem(storageKey);
+    if (stored) {
+      const session = new DecryptionSession(JSON.parse(stored), storage, storageKey);
+      if (!session.isExpired()) return session;
+      await storage.removeItem(storageKey);
+    }
+
+    const fhe = getFheInstance();
+    if (!fhe) throw new NotInitializedError();
+
+    const keypair = fhe.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const durationDays = options.durationDays ?? DEFAULT_DURATION_DAYS;
+    const eip712 = fhe.createEIP712(keypair.publicKey, contracts, startTimestamp.toString(), durationDays.toString());
+
+    let signature: string;
+    try {
+      signature = await signer.signTypedData(
+        eip712.domain,
+        {
+          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+        },
+        eip712.message
+      );
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+
+    const session = new DecryptionSession(
+      {
+        userAddress,
+        chainId,
+        contractAddresses: contracts,
+        publicKey: keypair.publicKey,
+        privateKey: keypair.privateKey,
+        signature: signature.replace('0x', ''),
+        startTimestamp,
+        durationDays,
+      },
+      storage,
+      storageKey
+    );
+    await storage.setItem(storageKey, JSON.stringify(session.data));
+    return session;
+  }
+
+  get expiresAt(): number {
+    return this.data.startTimestamp + this.data.durationDays * SECONDS_PER_DAY;
+  }
+
+  isExpired(now: number = Math.floor(Date.now() / 1000)): boolean {
+    return now >= this.expiresAt - EXPIRY_MARGIN_SECONDS;
+  }
+
+  covers(contractAddress: string): boolean {
+    return this.data.contractAddresses.includes(contractAddress.toLowerCase());
+  }
+
+  /**
+   * Decrypt handles belonging to any of the session's contracts in one relayer round trip
+   */
+  async decrypt(pairs: { handle: string; contractAddress: string }[]): Promise<Record<string, DecryptedValue>> {
+    if (this.isExpired()) {
+      throw new Error('Decryption session expired, open a new one');
+    }
+    for (const { contractAddress } of pairs) {
+      if (!this.covers(contractAddress)) {
+        throw new Error(`Decryption session does not cover contract ${contractAddress}`);
+      }
+    }
+
+    const fhe = getFheInstance();
+    if (!fhe) throw new NotInitializedError();
+
+    try {
+      return await fhe.userDecrypt(
+        pairs,
+        this.data.privateKey,
+        this.data.publicKey,
+        this.data.signature,
+        this.data.contractAddresses,
+        this.data.userAddress,
+        this.data.startTimestamp.toString(),
+        this.data.durationDays.toString()
+      );
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  async decryptValue(handle: string, contractAddress: string): Promise<DecryptedValue> {
+    const result = await this.decrypt([{ handle, contractAddress }]);
+    return result[handle];
+  }
+
+  /**
+   * Forget the session so the next open() asks for a new signature
+   */
+  async clear(): Promise<void> {
+    await this.storage.removeItem(this.storageKey);
+  }
+}
+
+/**
+ * Like batchDecryptValues, but keeps euint64 and wider values exact as bigints
+ */
+export async function batchDecryptBigInts(
+  handles: string[],
+  contractAddress: string,
+  signer?: ethers.Signer
+): Promise<Record<string, bigint>> {
+  const session = await DecryptionSession.open(resolveSigner(signer), [contractAddress]);
+  const result = await session.decrypt(handles.map(handle => ({ handle, contractAddress })));
+
+  const decryptedValues: Record<string, bigint> = {};
+  for (const handle of handles) {
+    decryptedValues[handle] = BigInt(result[handle]);
+  }
+  return decryptedValues;
+}
+
+function resolveSigner(signer?: ethers.Signer): ethers.Signer {
+  const resolved = signer ?? getFheSigner();
+  if (!resolved) {
+    throw new Error('No signer for user decryption. Pass one, or initialize the SDK with { signer } or { privateKey }');
+  }
+  return resolved;
+}
+
+/**
+ * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+ * The signature is cached in a DecryptionSession, so repeated calls do not prompt again.
+ * `signer` defaults to the headless signer given to initializeFheInstance
+ */
+export async function decryptValue(encryptedBytes: string, contractAddress: string, signer?: ethers.Signer): Promise<number> {
+  console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
+  const session = await DecryptionSession.open(resolveSigner(signer), [contractAddress]);
+  return Number(await session.decryptValue(encryptedBytes, contractAddress));
+}
+
+/**
+ * Batch decrypt multiple encrypted values using EIP-712 user decryption
+ */
+export async function batchDecryptValues(
+  handles: string[],
+  contractAddress: string,
+  signer?: ethers.Signer
+): Promise<Record<string, number>> {
+  console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
+  const session = await DecryptionSession.open(resolveSigner(signer), [contractAddress]);
+  const result = await session.decrypt(handles.map(handle => ({ handle, contractAddress })));
+
+  // Convert result to numbers
+  const decryptedValues: Record<string, number> = {};
+  for (const handle of handles) {
+    decryptedValues[handle] = Number(result[handle]);
+  }
+  return decryptedValues;
+}
@@ -0,0 +1,91 @@
+/**
+ * EIP-1193 Bridge - Universal SDK
+ * Exposes an ethers Provider (+ optional Signer) as the EIP-1193 provider the
+ * relayer SDK expects, so Node.js scripts, keepers and tests run headlessly
+ */
+
+import { ethers } from 'ethers';
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] | Record<string, unknown> }): Promise<any>;
+  on(event: string, listener: (...args: unknown[]) => void): void;
+  removeListener(event: string, listener: (...args: unknown[]) => void): void;
+}
+
+// JSON-RPC transaction object (hex quantities) to an ethers TransactionRequest
+function toTransactionRequest(tx: Record<string, any>): ethers.TransactionRequest {
+  const quantity = (value: unknown) => (value === undefined || value === null ? undefined : BigInt(value as string));
+  return {
+    from: tx.from,
+    to: tx.to,
+    data: tx.data ?? tx.input,
+    value: quantity(tx.value),
+    gasLimit: quantity(tx.gas),
+    gasPrice: quantity(tx.gasPrice),
+    maxFeePerGas: quantity(tx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+    nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+    type: tx.type === undefined ? undefined : Number(tx.type),
+    accessList: tx.accessList,
+  };
+}
+
+// JsonRpcProvider and BrowserProvider forward raw JSON-RPC; other ethers providers cannot
+function canSend(provider: ethers.Provider): provider is ethers.Provider & Pick<ethers.JsonRpcApiProvider, 'send'> {
+  return 'send' in provider && typeof provider.send === 'function';
+}
+
+function requireSigner(signer: ethers.Signer | undefined, method: string): ethers.Signer {
+  if (!signer) {
+    throw new Error(`${method} requires a signer. Pass { signer } or { privateKey } to initializeFheInstance()`);
+  }
+  return signer;
+}
+
+/**
+ * Account and signing methods are answered by `signer`; every other JSON-RPC
+ * method is forwarded to `provider` unchanged
+ */
+export function createEip1193Provider(provider: ethers.Provider, signer?: ethers.Signer): Eip1193Provider {
+  const send = async (method: string, params: unknown[]) => {
+    if (!canSend(provider)) {
+      throw new Error(`Provider cannot forward JSON-RPC method ${method}`);
+    }
+    return provider.send(method, params);
+  };
+
+  return {
+    async request({ method, params }) {
+      const args = Array.isArray(params) ? params : params === undefined ? [] : [params];
+
+      switch (method) {
+        case 'eth_chainId':
+          return ethers.toQuantity((await provider.getNetwork()).chainId);
+        case 'net_version':
+          return (await provider.getNetwork()).chainId.toString();
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return signer ? [await signer.getAddress()] : [];
+        case 'eth_sendTransaction': {
+          const response = await requireSigner(signer, method).sendTransaction(
+            toTransactionRequest(args[0] as Record<string, any>)
+          );
+          return response.hash;
+        }
+        case 'eth_signTypedData_v4': {
+          const raw = args[1];
+          const typedData = typeof raw === 'string' ? JSON.parse(raw) : raw;
+          // ethers derives the domain type itself
+          const { EIP712Domain: _domain, ...types } = typedData.types;
+          return requireSigner(signer, method).signTypedData(typedData.domain, types, typedData.message);
+        }
+        case 'personal_sign':
+          return requireSigner(signer, method).signMessage(ethers.getBytes(args[0] as string));
+        default:
+          return send(method, args);
+      }
+    },
+    on: () => {},
+    removeListener: () => {},
+  };
+}
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { EncryptedInputBuilder, encrypt } from './encryption.js';
+import { NotInitializedError, RelayerUnavailableError } from './errors.js';
+import { getFheInstance } from './fhevm.js';
+
+vi.mock('./fhevm.js', () => ({ getFheInstance: vi.fn() }));
+
+const CONTRACT = '0x000000000000000000000000000000000000dEaD';
+const USER = '0x0000000000000000000000000000000000000001';
+
+function fakeInstance(encrypted: Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>) {
+  const input = {
+    addBool: vi.fn(),
+    addAddress: vi.fn(),
+    add8: vi.fn(),
+    add16: vi.fn(),
+    add32: vi.fn(),
+    add64: vi.fn(),
+    add128: vi.fn(),
+    add256: vi.fn(),
+    encrypt: vi.fn(() => encrypted),
+  };
+  return { input, instance: { createEncryptedInput: vi.fn(() => input) } };
+}
+
+describe('EncryptedInputBuilder', () => {
+  let builder: EncryptedInputBuilder;
+
+  beforeEach(() => {
+    builder = encrypt(CONTRACT, USER);
+  });
+
+  it('accepts the bounds of each unsigned type', () => {
+    builder.u8(0).u8(255).u16(65535).u32(2 ** 32 - 1).u64(2n ** 64n - 1n).u128(2n ** 128n - 1n).u256(2n ** 256n - 1n);
+    expect(builder.size).toBe(7);
+  });
+
+  it.each([
+    ['u8', 256],
+    ['u16', 65536],
+    ['u32', 2 ** 32],
+    ['u64', 2n ** 64n],
+    ['u128', 2n ** 128n],
+    ['u256', 2n ** 256n],
+  ] as const)('rejects %s values above its range', (type, value) => {
+    expect(() => builder.add(type, value)).toThrow(RangeError);
+  });
+
+  it('rejects negative values', () => {
+    expect(() => builder.u32(-1)).toThrow(/out of range/);
+    expect(() => builder.u64(-1n)).toThrow(RangeError);
+  });
+
+  it('rejects numbers that are not safe integers', () => {
+    expect(() => builder.u64(1.5)).toThrow(/safe integer/);
+    expect(() => builder.u64(2 ** 53)).toThrow(/safe integer/);
+    expect(() => builder.u64(NaN)).toThrow(RangeError);
+  });
+
+  it('type-checks bools and addresses', () => {
+    expect(() => builder.bool(1 as unknown as boolean)).toThrow(TypeError);
+    expect(() => builder.address('0x1234')).toThrow(TypeError);
+    expect(() => builder.add('address', CONTRACT.toLowerCase())).not.toThrow();
+  });
+
+  it('adds nothing when a value is rejected', () => {
+    expect(() => builder.u8(300)).toThrow();
+    expect(builder.size).toBe(0);
+  });
+
+  it('caps an input at 2048 bits', () => {
+    for (let i = 0; i < 8; i++) builder.u256(i);
+    expect(() => builder.bool(true)).toThrow(/2048 bits/);
+    expect(builder.size).toBe(8);
+  });
+
+  it('refuses to encrypt an empty input', async () => {
+    await expect(builder.encrypt()).rejects.toThrow(/empty/);
+  });
+
+  it('needs an initialized FHEVM instance', async () => {
+    vi.mocked(getFheInstance).mockReturnValue(null);
+    await expect(builder.u8(1).encrypt()).rejects.toBeInstanceOf(NotInitializedError);
+  });
+
+  it('adds the values in order and returns hex handles and proof', async () => {
+    const { input, instance } = fakeInstance(
+      Promise.resolve({ handles: [new Uint8Array([1]), new Uint8Array([2])], inputProof: new Uint8Array([3]) })
+    );
+    vi.mocked(getFheInstance).mockReturnValue(instance);
+
+    const result = await builder.u64(5n).address(CONTRACT.toLowerCase()).encrypt();
+
+    expect(instance.createEncryptedInput).toHaveBeenCalledWith(CONTRACT, USER);
+    expect(input.add64).toHaveBeenCalledWith(5n);
+    expect(input.addAddress).toHaveBeenCalledWith(ethers.getAddress(CONTRACT));
+    expect(result).toEqual({ handles: ['0x01', '0x02'], inputProof: '0x03' });
+  });
+
+  it('reports relayer outages as typed errors', async () => {
+    const { instance } = fakeInstance(Promise.reject(new TypeError('Failed to fetch')));
+    vi.mocked(getFheInstance).mockReturnValue(instance);
+
+    await expect(builder.u8(1).encrypt()).rejects.toBeInstanceOf(RelayerUnavailableError);
+  });
+});
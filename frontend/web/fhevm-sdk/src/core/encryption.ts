@@ -0,0 +1,204 @@
+/**
+ * Encrypted Input Builder - Universal SDK
+ * Typed, multi-value encrypted inputs sharing a single input proof
+ *
+ * const { handles, inputProof } = await encrypt(contractAddress, userAddress)
+ *   .u64(amount)
+ *   .u32(threshold)
+ *   .encrypt()
+ */
+
+import { ethers } from 'ethers';
+import { getFheInstance } from './fhevm.js';
+import { NotInitializedError, toFhevmError } from './errors.js';
+
+export type EncryptedValueType = 'bool' | 'u8' | 'u16' | 'u32' | 'u64' | 'u128' | 'u256' | 'address';
+
+export interface EncryptedInputResult {
+  /** One bytes32 handle per added value, in insertion order */
+  handles: string[];
+  /** Proof shared by every handle of this input */
+  inputProof: string;
+}
+
+const BIT_WIDTHS: Record<Exclude<EncryptedValueType, 'bool' | 'address'>, number> = {
+  u8: 8,
+  u16: 16,
+  u32: 32,
+  u64: 64,
+  u128: 128,
+  u256: 256,
+};
+
+// Relayer limit on the total bit length of one encrypted input
+const MAX_INPUT_BITS = 2048;
+
+function bitsOf(type: EncryptedValueType): number {
+  if (type === 'bool') return 2;
+  if (type === 'address') return 160;
+  return BIT_WIDTHS[type];
+}
+
+function toUint(type: keyof typeof BIT_WIDTHS, value: number | bigint): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`${type} value must be a safe integer, got ${value}`);
+  }
+  const v = BigInt(value);
+  const max = (1n << BigInt(BIT_WIDTHS[type])) - 1n;
+  if (v < 0n || v > max) {
+    throw new RangeError(`${type} value ${v} is out of range [0, ${max}]`);
+  }
+  return v;
+}
+
+export class EncryptedInputBuilder {
+  private values: { type: EncryptedValueType; value: bigint | boolean | string }[] = [];
+  private bits = 0;
+
+  constructor(private contractAddress: string, private userAddress: string) {}
+
+  bool(value: boolean): this {
+    if (typeof value !== 'boolean') {
+      throw new TypeError(`bool value must be a boolean, got ${typeof value}`);
+    }
+    return this.push('bool', value);
+  }
+
+  u8(value: number | bigint): this {
+    return this.push('u8', toUint('u8', value));
+  }
+
+  u16(value: number | bigint): this {
+    return this.push('u16', toUint('u16', value));
+  }
+
+  u32(value: number | bigint): this {
+    return this.push('u32', toUint('u32', value));
+  }
+
+  u64(value: number | bigint): this {
+    return this.push('u64', toUint('u64', value));
+  }
+
+  u128(value: number | bigint): this {
+    return this.push('u128', toUint('u128', value));
+  }
+
+  u256(value: number | bigint): this {
+    return this.push('u256', toUint('u256', value));
+  }
+
+  address(value: string): this {
+    if (!ethers.isAddress(value)) {
+      throw new TypeError(`address value ${value} is not a valid address`);
+    }
+    return this.push('address', ethers.getAddress(value));
+  }
+
+  /**
+   * Add a value by type name, e.g. from a contract ABI description
+   */
+  add(type: EncryptedValueType, value: number | bigint | boolean | string): this {
+    switch (type) {
+      case 'bool':
+        return this.bool(value as boolean);
+      case 'address':
+        return this.address(value as string);
+      default:
+        return this.push(type, toUint(type, value as number | bigint));
+    }
+  }
+
+  get size(): number {
+    return this.values.length;
+  }
+
+  /**
+   * Encrypt every added value; values were validated when added, so nothing
+   * out of range ever reaches the relayer
+   */
+  async encrypt(): Promise<EncryptedInputResult> {
+    if (this.values.length === 0) {
+      throw new Error('Encrypted input is empty, add at least one value');
+    }
+
+    const fhe = getFheInstance();
+    if (!fhe) throw new NotInitializedError();
+
+    const input = fhe.createEncryptedInput(this.contractAddress, this.userAddress);
+    for (const { type, value } of this.values) {
+      switch (type) {
+        case 'bool': input.addBool(value); break;
+        case 'address': input.addAddress(value); break;
+        case 'u8': input.add8(value); break;
+        case 'u16': input.add16(value); break;
+        case 'u32': input.add32(value); break;
+        case 'u64': input.add64(value); break;
+        case 'u128': input.add128(value); break;
+        case 'u256': input.add256(value); break;
+      }
+    }
+
+    let encrypted: { handles: (Uint8Array | string)[]; inputProof: Uint8Array | string };
+    try {
+      encrypted = await input.encrypt();
+    } catch (error) {
+      // The input proof comes from the relayer
+      throw toFhevmError(error);
+    }
+    const { handles, inputProof } = encrypted;
+    return {
+      handles: handles.map((h: Uint8Array | string) => ethers.hexlify(h)),
+      inputProof: ethers.hexlify(inputProof),
+    };
+  }
+
+  private push(type: EncryptedValueType, value: bigint | boolean | string): this {
+    const bits = bitsOf(type);
+    if (this.bits + bits > MAX_INPUT_BITS) {
+      throw new RangeError(`Encrypted input exceeds ${MAX_INPUT_BITS} bits`);
+    }
+    this.bits += bits;
+    this.values.push({ type, value });
+    return this;
+  }
+}
+
+/**
+ * Start an encrypted input bound to `contractAddress` and `userAddress`
+ */
+export function encrypt(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+  return new EncryptedInputBuilder(contractAddress, userAddress);
+}
+
+/**
+ * Encrypt one euint8 per digit under a single proof
+ */
+export async function encryptValue(
+  contractAddress: string,
+  address: string,
+  plainDigits: number[]
+): Promise<EncryptedInputResult> {
+  const builder = encrypt(contractAddress, address);
+  for (const d of plainDigits) {
+    builder.u8(d);
+  }
+  return builder.encrypt();
+}
+
+/**
+ * Create a single encrypted input for contract interaction (matches showcase API)
+ * Use bitWidth 64 for euint64 parameters such as confidential token amounts;
+ * use encrypt() for several values under one proof
+ */
+export async function createEncryptedInput(
+  contractAddress: string,
+  userAddress: string,
+  value: number | bigint,
+  bitWidth: 8 | 16 | 32 | 64 | 128 | 256 = 32
+): Promise<{ encryptedData: string; proof: string }> {
+  const { handles, inputProof } = await encrypt(contractAddress, userAddress)
+    .add(`u${bitWidth}`, value)
+    .encrypt();
+  return { encryptedData: handles[0], proof: inputProof };
+}
@@ -0,0 +1,133 @@
+/**
+ * Typed SDK Errors - Universal SDK
+ * Everything the SDK throws for a known cause is an FhevmError with a stable `code`
+ * and a message fit to show users, so callers never match on error strings
+ */
+
+import { ethers } from 'ethers';
+
+export type FhevmErrorCode =
+  | 'USER_REJECTED'
+  | 'RELAYER_UNAVAILABLE'
+  | 'CONTRACT_REVERT'
+  | 'WRONG_NETWORK'
+  | 'NOT_INITIALIZED'
+  | 'UNKNOWN';
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  /** The wallet, ethers or relayer error this was derived from */
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'FhevmError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/** The user declined a transaction or signature in their wallet */
+export class UserRejectedError extends FhevmError {
+  constructor(cause?: unknown) {
+    super('USER_REJECTED', 'Request rejected in wallet', cause);
+    this.name = 'UserRejectedError';
+  }
+}
+
+/** The Zama relayer (input proofs, decryption) could not be reached */
+export class RelayerUnavailableError extends FhevmError {
+  constructor(cause?: unknown) {
+    super('RELAYER_UNAVAILABLE', 'The FHE relayer is temporarily unavailable. Please try again later.', cause);
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+/** A call or transaction reverted; `reason` is the require() message or decoded custom error */
+export class ContractRevertError extends FhevmError {
+  readonly reason: string;
+
+  constructor(reason: string, cause?: unknown) {
+    super('CONTRACT_REVERT', reason, cause);
+    this.name = 'ContractRevertError';
+    this.reason = reason;
+  }
+}
+
+export class WrongNetworkError extends FhevmError {
+  readonly expectedChainId: number;
+  readonly actualChainId: number;
+
+  constructor(expected: { name: string; chainId: number }, actualChainId: number) {
+    super('WRONG_NETWORK', `Connected to chain ${actualChainId}, not ${expected.name} (${expected.chainId})`);
+    this.name = 'WrongNetworkError';
+    this.expectedChainId = expected.chainId;
+    this.actualChainId = actualChainId;
+  }
+}
+
+export class NotInitializedError extends FhevmError {
+  constructor() {
+    super('NOT_INITIALIZED', 'FHE instance not initialized. Call initializeFheInstance() first.');
+    this.name = 'NotInitializedError';
+  }
+}
+
+// EIP-1193 "user rejected request"
+const USER_REJECTED_RPC_CODE = 4001;
+
+function isRelayerNetworkError(error: any): boolean {
+  const message = error?.message;
+  return typeof message === 'string' && (message.includes('Failed to fetch') || message.includes('NetworkError'));
+}
+
+function revertReason(error: ethers.CallExceptionError, iface?: ethers.Interface): string {
+  if (error.reason) return error.reason;
+  if (error.data && iface) {
+    const parsed = iface.parseError(error.data);
+    if (parsed) {
+      return parsed.args.length > 0 ? `${parsed.name}(${parsed.args.join(', ')})` : parsed.name;
+    }
+  }
+  return 'Transaction reverted';
+}
+
+/**
+ * Classify any error thrown by a wallet, ethers or the relayer. Reverts are decoded with
+ * `iface` when the node returned no reason string; unrecognised errors become code UNKNOWN
+ */
+export function toFhevmError(error: unknown, iface?: ethers.Interface): FhevmError {
+  if (error instanceof FhevmError) return error;
+
+  const err = error as any;
+  const rpcCodes = [err?.code, err?.error?.code, err?.info?.error?.code];
+  if (ethers.isError(error, 'ACTION_REJECTED') || rpcCodes.includes(USER_REJECTED_RPC_CODE)) {
+    return new UserRejectedError(error);
+  }
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    return new ContractRevertError(revertReason(error, iface), error);
+  }
+  if (isRelayerNetworkError(error)) {
+    return new RelayerUnavailableError(error);
+  }
+
+  // Wallets wrap the node's error, e.g. { info: { error: { message: "execution reverted: ..." } } }
+  const nested = err?.info?.error?.message ?? err?.error?.message;
+  if (typeof nested === 'string') {
+    if (nested.includes('execution reverted')) {
+      return new ContractRevertError(nested.replace(/^.*execution reverted:?\s*/, '') || 'Transaction reverted', error);
+    }
+    return new FhevmError('UNKNOWN', nested, error);
+  }
+
+  const message = err?.shortMessage ?? (error instanceof Error ? error.message : String(error));
+  return new FhevmError('UNKNOWN', message, error);
+}
+
+/**
+ * Best effort human readable reason for a failed write: the require() message or
+ * custom error decoded with `iface`, a wallet rejection, or the raw error message
+ */
+export function decodeRevertReason(error: unknown, iface?: ethers.Interface): string {
+  return toFhevmError(error, iface).message;
+}
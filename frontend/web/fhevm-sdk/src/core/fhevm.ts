@@ -6,24 +6,108 @@
 
 import { ethers } from "ethers";
 
+import { createEip1193Provider } from "./eip1193.js";
+import { DEFAULT_NETWORK, getNetwork, toFhevmInstanceConfig } from "./networks.js";
+import { NotInitializedError, RelayerUnavailableError, WrongNetworkError, toFhevmError } from "./errors.js";
+import { createMockRelayerClient } from "./mockRelayer.js";
+import type { NetworkConfig } from "./networks.js";
+import type { relayer as mockRelayer } from "@fhevm/mock-utils";
+
 let fheInstance: any = null;
+let fheSigner: ethers.Signer | null = null;
+
+export interface InitializeFheOptions {
+  /**
+   * Registry key or chain id; defaults to the wallet's chain in the browser and
+   * to the provider's chain in Node.js (Sepolia when no provider is given)
+   */
+  network?: string | number;
+  /** Overrides the network's primary RPC URL */
+  rpcUrl?: string;
+  /** Overrides the network's relayer URL; on a mock network, where the local mock relayer listens */
+  relayerUrl?: string;
+  /** Headless mode: read through this provider */
+  provider?: ethers.Provider;
+  /** Headless mode: sign transactions and decryption requests with this signer (its provider is used if none is given) */
+  signer?: ethers.Signer;
+  /** Headless mode: shorthand for `signer: new ethers.Wallet(privateKey, provider)` */
+  privateKey?: string;
+}
+
+// mock-utils types contract addresses as hex string literals
+const hexAddress = (address: string) => ethers.getAddress(address) as `0x${string}`;
+
+const RELAYER_SDK_URL = 'https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs';
+
+/**
+ * Create a @fhevm/mock-utils instance against a Hardhat node running the FHEVM mock engine.
+ * Input proofs and decryptions go through the local mock relayer when the network (or
+ * `relayerUrl`) names one, else straight to the node. The host contract addresses come
+ * from `fhevm_relayer_metadata`
+ */
+async function initializeMockFheInstance(network: NetworkConfig, provider: ethers.JsonRpcApiProvider, relayerUrl?: string) {
+  const { MockFhevmInstance } = await import('@fhevm/mock-utils');
+  const url = relayerUrl ?? network.fhevm.relayerUrl;
+  const relayer = url ? createMockRelayerClient(url) : provider;
+  const metadata: mockRelayer.RelayerMetadata = await relayer.send('fhevm_relayer_metadata', []);
+
+  const config: Parameters<typeof MockFhevmInstance.create>[2] = {
+    aclContractAddress: hexAddress(metadata.ACLAddress),
+    chainId: network.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: hexAddress(metadata.InputVerifierAddress),
+    kmsContractAddress: hexAddress(metadata.KMSVerifierAddress),
+    verifyingContractAddressDecryption: hexAddress(network.fhevm.verifyingContractAddressDecryption),
+    verifyingContractAddressInputVerification: hexAddress(network.fhevm.verifyingContractAddressInputVerification),
+  };
+  fheInstance = await MockFhevmInstance.create(relayer, provider, config, {
+    inputVerifierProperties: {},
+    kmsVerifierProperties: {},
+  });
+  console.log(`✅ FHEVM mock instance created for ${network.name}${url ? ` (relayer ${url})` : ''}`);
+  return fheInstance;
+}
+
+/**
+ * The relayer SDK from a <script> tag if the page has one, else injected from the CDN on
+ * first use, so pages on a mock network never fetch it
+ */
+async function loadRelayerSdk(): Promise<any> {
+  // Check for both uppercase and lowercase versions of RelayerSDK
+  const loaded = () => (window as any).RelayerSDK || (window as any).relayerSDK;
+  if (loaded()) return loaded();
+
+  await new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = RELAYER_SDK_URL;
+    script.onload = () => resolve();
+    script.onerror = () => reject(new RelayerUnavailableError(new Error(`Failed to load ${RELAYER_SDK_URL}`)));
+    document.head.appendChild(script);
+  });
+  return loaded();
+}
 
 /**
  * Initialize FHEVM instance for browser environment
  */
-async function initializeBrowserFheInstance() {
+async function initializeBrowserFheInstance(options?: InitializeFheOptions) {
   if (typeof window === 'undefined' || !window.ethereum) {
     throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
   }
 
-  // Check for both uppercase and lowercase versions of RelayerSDK
-  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
-
-  if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+  // An explicit network must be the one the wallet is on, or every transaction would go elsewhere
+  const walletChainId = Number(await window.ethereum.request({ method: 'eth_chainId' }));
+  const network = getNetwork(options?.network ?? walletChainId);
+  if (network.chainId !== walletChainId) {
+    throw new WrongNetworkError(network, walletChainId);
+  }
+  if (network.mock) {
+    return initializeMockFheInstance(network, new ethers.JsonRpcProvider(options?.rpcUrl ?? network.rpcUrls[0]), options?.relayerUrl);
   }
 
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
+  const sdk = await loadRelayerSdk();
+
+  const { initSDK, createInstance } = sdk;
 
   // Try to initialize SDK with CDN first (default behavior)
   // If it fails (e.g., CORS error), fallback to local WASM files
@@ -41,7 +125,11 @@ async function initializeBrowserFheInstance() {
     console.log('✅ FHEVM SDK initialized with local WASM files');
   }
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+  const config = {
+    ...toFhevmInstanceConfig(network),
+    ...(options?.relayerUrl ? { relayerUrl: options.relayerUrl } : {}),
+    network: window.ethereum,
+  };
 
   try {
     fheInstance = await createInstance(config);
@@ -54,47 +142,43 @@ async function initializeBrowserFheInstance() {
 
 /**
  * Initialize FHEVM instance for Node.js environment
- * REAL FUNCTIONALITY - uses actual RelayerSDK
+ * REAL FUNCTIONALITY - uses actual RelayerSDK through an EIP-1193 bridge over
+ * the given ethers provider / signer
  */
-async function initializeNodeFheInstance(rpcUrl?: string) {
+async function initializeNodeFheInstance(options?: InitializeFheOptions) {
+  const provider = options?.provider
+    ?? options?.signer?.provider
+    ?? new ethers.JsonRpcProvider(options?.rpcUrl ?? getNetwork(options?.network ?? DEFAULT_NETWORK).rpcUrls[0]);
+  const signer = options?.signer
+    ?? (options?.privateKey ? new ethers.Wallet(options.privateKey, provider) : null);
+
+  // The provider is the source of truth for the chain; an explicit network must agree with it
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const network = getNetwork(options?.network ?? chainId);
+  if (network.chainId !== chainId) {
+    throw new WrongNetworkError(network, chainId);
+  }
+
+  fheSigner = signer;
+
+  if (network.mock) {
+    const rpcProvider = provider instanceof ethers.JsonRpcApiProvider
+      ? provider
+      : new ethers.JsonRpcProvider(options?.rpcUrl ?? network.rpcUrls[0]);
+    return initializeMockFheInstance(network, rpcProvider, options?.relayerUrl);
+  }
+
   try {
     console.log('🚀 Initializing REAL FHEVM Node.js instance...');
     
     // Use eval to prevent webpack from analyzing these imports
     const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
-    
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-    
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
+    const { createInstance } = relayerSDKModule;
     
     const config = { 
-      ...SepoliaConfig, 
-      network: eip1193Provider 
+      ...toFhevmInstanceConfig(network), 
+      ...(options?.relayerUrl ? { relayerUrl: options.relayerUrl } : {}),
+      network: createEip1193Provider(provider, signer ?? undefined)
     };
     
     fheInstance = await createInstance(config);
@@ -110,14 +194,16 @@ async function initializeNodeFheInstance(rpcUrl?: string) {
  * Initialize FHEVM instance - Environment-aware
  * MAINTAINS BACKWARD COMPATIBILITY
  */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
+export async function initializeFheInstance(options?: InitializeFheOptions) {
+  const headless = Boolean(options?.provider || options?.signer || options?.privateKey);
+
   // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
+  if (!headless && typeof window !== 'undefined' && window.ethereum) {
     // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
+    return initializeBrowserFheInstance(options);
   } else {
     // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
+    return initializeNodeFheInstance(options);
   }
 }
 
@@ -126,208 +212,10 @@ export function getFheInstance() {
 }
 
 /**
- * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
- */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
-    
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
-}
-
-/**
- * Batch decrypt multiple encrypted values using EIP-712 user decryption
- */
-export async function batchDecryptValues(
-  handles: string[], 
-  contractAddress: string, 
-  signer: any
-): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
-    }
-
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
-}
-
-/**
- * Encrypt values using FHEVM
- * 
- * 📝 BIT SIZE SUPPORT:
- * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
- * than the default 32-bit, you can use the appropriate method:
- * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535) 
- * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
- * - add64(value) - for 64-bit values (0-18446744073709551615)
- * - add128(value) - for 128-bit values
- * - add256(value) - for 256-bit values
- * 
- * Example: If your contract expects 8-bit values, replace add32() with add8()
+ * Signer passed to initializeFheInstance in headless mode, used by default for user decryption
  */
-export async function encryptValue(
-  contractAddress: string,
-  address: string,
-  plainDigits: number[]
-) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
-
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
-  }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
-}
-
-/**
- * Create encrypted input for contract interaction (matches showcase API)
- */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-  
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-  
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
-    }
-  }
-  
-  // If result is not an object, use it directly
-  return {
-    encryptedData: result,
-    proof: result
-  };
+export function getFheSigner(): ethers.Signer | null {
+  return fheSigner;
 }
 
 export async function publicDecryptV09(handles: string[]): Promise<{
@@ -336,7 +224,7 @@ export async function publicDecryptV09(handles: string[]): Promise<{
   decryptionProof: string;
 }> {
   const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+  if (!fhe) throw new NotInitializedError();
 
   try {
     console.log('🔐 Starting v0.9 public decryption for handles:', handles);
@@ -387,11 +275,8 @@ export async function publicDecryptV09(handles: string[]): Promise<{
         decryptionProof
       };
     }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
+  } catch (error) {
+    throw toFhevmError(error);
   }
 }
 
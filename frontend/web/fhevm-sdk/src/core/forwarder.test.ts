@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { ForwardRelay, createForwardRelayClient } from './forwarder.js';
+import type { ForwardRequest } from './forwarder.js';
+import { ContractRevertError, FhevmError } from './errors.js';
+import { AutoPayForwarder__factory, AutoPaySystem__factory } from '../typechain/index.js';
+
+vi.mock('../typechain/index.js', async importOriginal => {
+  const actual = await importOriginal<typeof import('../typechain/index.js')>();
+  return { ...actual, AutoPayForwarder__factory: { connect: vi.fn() } };
+});
+
+const AUTOPAY = '0x000000000000000000000000000000000000bEEF';
+const FORWARDER = '0x000000000000000000000000000000000000f0f0';
+const SUBSCRIBER = '0x0000000000000000000000000000000000000002';
+
+const autoPay = AutoPaySystem__factory.createInterface();
+
+function request(overrides: Partial<ForwardRequest> = {}): ForwardRequest {
+  return {
+    from: SUBSCRIBER,
+    to: AUTOPAY,
+    value: 0n,
+    gas: 200_000n,
+    deadline: 1_700_000_000,
+    data: autoPay.encodeFunctionData('pauseSubscription', ['sub-1', 0]),
+    signature: '0x',
+    ...overrides,
+  };
+}
+
+describe('ForwardRelay', () => {
+  let forwarder: { verify: ReturnType<typeof vi.fn>; execute: ReturnType<typeof vi.fn> };
+  let provider: { call: ReturnType<typeof vi.fn> };
+
+  const relay = (options = {}) => new ForwardRelay({
+    autoPayAddress: AUTOPAY,
+    forwarderAddress: FORWARDER,
+    signer: { provider } as unknown as ethers.Signer,
+    ...options,
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    forwarder = {
+      verify: vi.fn(async () => true),
+      execute: vi.fn(async () => ({ hash: '0x01' })),
+    };
+    provider = { call: vi.fn(async () => '0x') };
+    vi.mocked(AutoPayForwarder__factory.connect).mockReturnValue(forwarder as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('simulates the call as AutoPaySystem sees it, then sends it', async () => {
+    const signed = request();
+
+    await expect(relay().submit(signed)).resolves.toBe('0x01');
+    expect(forwarder.verify).toHaveBeenCalledWith(signed);
+    expect(provider.call).toHaveBeenCalledWith({
+      from: FORWARDER,
+      to: AUTOPAY,
+      data: ethers.concat([signed.data, SUBSCRIBER]),
+      gasLimit: 200_000n,
+    });
+    expect(forwarder.execute).toHaveBeenCalledWith(signed);
+  });
+
+  it('only relays calls to its AutoPaySystem', async () => {
+    const other = request({ to: FORWARDER });
+
+    await expect(relay().submit(other)).rejects.toThrow('Only AutoPaySystem calls are relayed');
+    expect(forwarder.verify).not.toHaveBeenCalled();
+  });
+
+  it('only relays the allowlisted functions, without value', async () => {
+    const execute = request({ data: autoPay.encodeFunctionData('executePayment', ['sub-1', '0x', '0x']) });
+
+    await expect(relay().submit(execute)).rejects.toThrow(/Only createSubscription, .* are relayed/);
+    await expect(relay().submit(request({ data: '0x12345678' }))).rejects.toThrow(/are relayed/);
+    await expect(relay().submit(request({ value: 1n }))).rejects.toThrow(/are relayed/);
+    expect(forwarder.verify).not.toHaveBeenCalled();
+  });
+
+  it('caps the gas a request may forward', async () => {
+    await expect(relay().submit(request({ gas: 500_001n }))).rejects.toThrow('Forward requests may use at most 500000 gas');
+    await expect(relay({ maxGas: 100_000n }).submit(request())).rejects.toBeInstanceOf(FhevmError);
+    expect(forwarder.verify).not.toHaveBeenCalled();
+    expect(provider.call).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests the forwarder does not verify', async () => {
+    forwarder.verify.mockResolvedValue(false);
+
+    await expect(relay().submit(request())).rejects.toThrow('Invalid or expired forward request');
+    expect(provider.call).not.toHaveBeenCalled();
+  });
+
+  it('answers reverting calls with their reason and never sends them', async () => {
+    provider.call.mockRejectedValue(ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'call',
+      data: null,
+      reason: 'Subscription does not exist',
+      transaction: { to: AUTOPAY, data: '0x' },
+      invocation: null,
+      revert: null,
+    }));
+
+    const error = await relay().submit(request()).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect((error as ContractRevertError).reason).toBe('Subscription does not exist');
+    expect(forwarder.execute).not.toHaveBeenCalled();
+  });
+
+  it('keeps sending after a failed transaction', async () => {
+    forwarder.execute.mockRejectedValueOnce(new Error('nonce too low'));
+    const instance = relay();
+
+    const [first, second] = await Promise.allSettled([instance.submit(request()), instance.submit(request())]);
+
+    expect(first.status).toBe('rejected');
+    expect(second).toEqual({ status: 'fulfilled', value: '0x01' });
+  });
+});
+
+describe('createForwardRelayClient', () => {
+  const URL = 'http://127.0.0.1:8547';
+  let fetch: ReturnType<typeof vi.fn>;
+
+  const respond = (status: number, body: unknown = {}) =>
+    fetch.mockResolvedValue({ status, statusText: 'Error', json: async () => body });
+
+  beforeEach(() => {
+    fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts the request with bigints as decimal strings', async () => {
+    respond(200, { hash: '0x01' });
+
+    await expect(createForwardRelayClient(URL).relay(request())).resolves.toBe('0x01');
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(body).toMatchObject({ from: SUBSCRIBER, value: '0', gas: '200000' });
+  });
+
+  it('rebuilds the errors the relay reports', async () => {
+    respond(400, { error: { code: 'CONTRACT_REVERT', message: 'Subscription does not exist' } });
+    await expect(createForwardRelayClient(URL).relay(request())).rejects.toBeInstanceOf(ContractRevertError);
+
+    respond(400, { error: { code: 'UNKNOWN', message: 'Invalid or expired forward request' } });
+    await expect(createForwardRelayClient(URL).relay(request())).rejects.toMatchObject({
+      code: 'UNKNOWN',
+      message: 'Invalid or expired forward request',
+    });
+  });
+
+  it('reports outages as RELAYER_UNAVAILABLE', async () => {
+    respond(502);
+    await expect(createForwardRelayClient(URL).relay(request())).rejects.toMatchObject({ code: 'RELAYER_UNAVAILABLE' });
+
+    fetch.mockRejectedValue(new TypeError('fetch failed'));
+    await expect(createForwardRelayClient(URL).relay(request())).rejects.toMatchObject({ code: 'RELAYER_UNAVAILABLE' });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Gasless Calls - Universal SDK
+ * ERC-2771 forward requests for AutoPayForwarder: the subscriber signs, a relay
+ * submits and pays the gas, and AutoPaySystem sees the subscriber as the sender
+ */
+
+import { ethers } from 'ethers';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { AutoPayForwarder__factory, AutoPaySystem__factory } from '../typechain/index.js';
+import { ContractRevertError, FhevmError, toFhevmError } from './errors.js';
+import type { FhevmErrorCode } from './errors.js';
+
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+    { name: 'data', type: 'bytes' },
+  ],
+};
+
+/** The only AutoPaySystem functions a ForwardRelay submits */
+export const RELAYABLE_FUNCTIONS = [
+  'createSubscription',
+  'disableSubscription',
+  'pauseSubscription',
+  'resumeSubscription',
+  'setSubscriptionEnd',
+  'acceptRuleTerms',
+  'declineRuleTerms',
+] as const;
+export type RelayableFunction = typeof RELAYABLE_FUNCTIONS[number];
+
+export const DEFAULT_FORWARD_RELAY_PORT = 8547;
+
+const DEFAULT_FORWARD_GAS = 500_000n;
+const DEFAULT_FORWARD_VALIDITY = 60 * 60;
+
+/** AutoPayForwarder's ForwardRequestData */
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: bigint;
+  /** Gas the forwarder must pass on to the call */
+  gas: bigint;
+  /** Unix seconds */
+  deadline: number;
+  data: string;
+  signature: string;
+}
+
+/** A ForwardRequest as sent to a ForwardRelay: JSON has no bigints, so they travel as decimal strings */
+export interface ForwardRequestJson {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  deadline: number;
+  data: string;
+  signature: string;
+}
+
+export interface ForwardCall {
+  to: string;
+  data: string;
+  value?: bigint;
+  gas?: bigint;
+  /** Defaults to an hour from now */
+  deadline?: number;
+}
+
+/**
+ * Sign `call` as a forward request with the signer's next forwarder nonce
+ */
+export async function signForwardRequest(
+  signer: ethers.Signer,
+  forwarderAddress: string,
+  call: ForwardCall
+): Promise<ForwardRequest> {
+  const forwarder = AutoPayForwarder__factory.connect(forwarderAddress, signer);
+  const from = await signer.getAddress();
+  const [[, name, version, chainId, verifyingContract], nonce] = await Promise.all([
+    forwarder.eip712Domain(),
+    forwarder.nonces(from),
+  ]);
+
+  const request = {
+    from,
+    to: call.to,
+    value: call.value ?? 0n,
+    gas: call.gas ?? DEFAULT_FORWARD_GAS,
+    deadline: call.deadline ?? Math.floor(Date.now() / 1000) + DEFAULT_FORWARD_VALIDITY,
+    data: call.data,
+  };
+  try {
+    const signature = await signer.signTypedData(
+      { name, version, chainId, verifyingContract },
+      FORWARD_REQUEST_TYPES,
+      { ...request, nonce }
+    );
+    return { ...request, signature };
+  } catch (error) {
+    throw toFhevmError(error);
+  }
+}
+
+const toJson = (request: ForwardRequest): ForwardRequestJson =>
+  ({ ...request, value: request.value.toString(), gas: request.gas.toString() });
+const fromJson = (json: ForwardRequestJson): ForwardRequest =>
+  ({ ...json, value: BigInt(json.value), gas: BigInt(json.gas), deadline: Number(json.deadline) });
+
+export interface ForwardRelayClient {
+  /** Submit a signed request; resolves with the relay's transaction hash once it is sent */
+  relay(request: ForwardRequest): Promise<string>;
+}
+
+/**
+ * Client for a ForwardRelay. Requests it refuses come back as the FhevmError it
+ * reported (a revert reason as ContractRevertError); outages as RELAYER_UNAVAILABLE
+ */
+export function createForwardRelayClient(relayUrl: string): ForwardRelayClient {
+  const unavailable = (cause: unknown) =>
+    new FhevmError('RELAYER_UNAVAILABLE', 'The transaction relay is temporarily unavailable. Please try again later.', cause);
+
+  return {
+    async relay(request) {
+      let response: Response;
+      try {
+        response = await fetch(relayUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(toJson(request)),
+        });
+      } catch (error) {
+        throw unavailable(error);
+      }
+      if (response.status >= 500) {
+        throw unavailable(new Error(`Forward relay answered ${response.status} ${response.statusText}`));
+      }
+
+      const { hash, error } = await response.json();
+      if (error) {
+        throw error.code === 'CONTRACT_REVERT'
+          ? new ContractRevertError(error.message)
+          : new FhevmError(error.code as FhevmErrorCode, error.message);
+      }
+      return hash;
+    },
+  };
+}
+
+export interface ForwardRelayOptions {
+  autoPayAddress: string;
+  forwarderAddress: string;
+  /** Pays for the relayed transactions; wrap it in a NonceManager if it sends elsewhere too */
+  signer: ethers.Signer;
+  host?: string;
+  port?: number;
+  /** Most gas a request may ask the forwarder to pass on (default: what signForwardRequest asks for) */
+  maxGas?: bigint;
+}
+
+/**
+ * Submits signed forward requests for the RELAYABLE_FUNCTIONS of one AutoPaySystem.
+ * Each request is simulated first, so reverts are answered with their reason and
+ * never cost the relay gas
+ */
+export class ForwardRelay {
+  private options: Required<ForwardRelayOptions>;
+  private server: Server | null = null;
+  // Sends one transaction at a time so the signer's nonces stay in order
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: ForwardRelayOptions) {
+    this.options = {
+      host: '127.0.0.1',
+      port: DEFAULT_FORWARD_RELAY_PORT,
+      maxGas: DEFAULT_FORWARD_GAS,
+      ...options,
+    };
+  }
+
+  get url(): string {
+    return `http://${this.options.host}:${this.options.port}`;
+  }
+
+  /**
+   * Listen for forward requests; Node.js only
+   */
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+
+    // Use eval to prevent bundlers from analyzing this import
+    const http: typeof import('http') = await eval('import("http")');
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('❌ Forward relay request failed:', error);
+        if (!res.headersSent) res.writeHead(502);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      // Browsers keep connections alive, which would hold close() open
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Check and send one request; resolves with the transaction hash
+   */
+  async submit(request: ForwardRequest): Promise<string> {
+    const { autoPayAddress, forwarderAddress, signer } = this.options;
+    const autoPay = AutoPaySystem__factory.connect(autoPayAddress, signer);
+    const forwarder = AutoPayForwarder__factory.connect(forwarderAddress, signer);
+
+    if (ethers.getAddress(request.to) !== ethers.getAddress(autoPayAddress)) {
+      throw new FhevmError('UNKNOWN', 'Only AutoPaySystem calls are relayed');
+    }
+    const call = autoPay.interface.parseTransaction({ data: request.data });
+    if (!call || !(RELAYABLE_FUNCTIONS as readonly string[]).includes(call.name) || request.value !== 0n) {
+      throw new FhevmError('UNKNOWN', `Only ${RELAYABLE_FUNCTIONS.join(', ')} are relayed`);
+    }
+    // The relay pays for whatever gas the signer asked to be forwarded
+    if (request.gas > this.options.maxGas) {
+      throw new FhevmError('UNKNOWN', `Forward requests may use at most ${this.options.maxGas} gas`);
+    }
+    if (!(await forwarder.verify(request))) {
+      throw new FhevmError('UNKNOWN', 'Invalid or expired forward request');
+    }
+
+    // The call as AutoPaySystem will see it: from the forwarder, with the signer appended
+    try {
+      await signer.provider!.call({
+        from: forwarderAddress,
+        to: request.to,
+        data: ethers.concat([request.data, request.from]),
+        gasLimit: request.gas,
+      });
+    } catch (error) {
+      throw toFhevmError(error, autoPay.interface);
+    }
+
+    const send = this.queue.then(() => forwarder.execute(request));
+    this.queue = send.catch(() => undefined);
+    const tx = await send;
+    console.log(`📨 ${call.name} for ${request.from}: ${tx.hash}`);
+    return tx.hash;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // The app calls the relay straight from the browser
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let body = '';
+    for await (const chunk of req) body += chunk;
+
+    try {
+      const hash = await this.submit(fromJson(JSON.parse(body) as ForwardRequestJson));
+      this.reply(res, 200, { hash });
+    } catch (error) {
+      const typed = toFhevmError(error);
+      this.reply(res, 400, { error: { code: typed.code, message: typed.message } });
+    }
+  }
+
+  private reply(res: ServerResponse, status: number, answer: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(answer));
+  }
+}
@@ -3,7 +3,23 @@
  * Simple, clean implementation that matches showcase APIs
  */
 
-// Core FHEVM functionality - All functions consolidated in fhevm.ts
+// Core FHEVM functionality - initialization and public decryption in fhevm.ts
 export * from './fhevm.js';
+export * from './encryption.js';
+export * from './decryption.js';
+export * from './networks.js';
+export * from './eip1193.js';
 export * from './contracts.js';
+export * from './multicall.js';
+export * from './errors.js';
+export * from './transactions.js';
+export * from './mockRelayer.js';
 
+// AutoPaySystem client built on the typechain bindings
+export * from './autopay.js';
+export * from './consent.js';
+export * from './forwarder.js';
+export * from './keeper.js';
+export * from './indexer.js';
+export type { AutoPaySystem } from '../typechain/index.js';
+export { AutoPaySystem__factory } from '../typechain/index.js';
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { AutoPayIndexer, MemoryIndexerStore } from './indexer.js';
+import type { IndexerOptions } from './indexer.js';
+import type { AutoPayClient } from './autopay.js';
+import { AutoPaySystem__factory } from '../typechain/index.js';
+
+const ADDRESS = '0x000000000000000000000000000000000000bEEF';
+const CREATOR = '0x0000000000000000000000000000000000000001';
+const SUBSCRIBER = '0x0000000000000000000000000000000000000002';
+const RECIPIENT = '0x0000000000000000000000000000000000000003';
+
+const iface = AutoPaySystem__factory.createInterface();
+
+interface FakeBlock {
+  hash: string;
+  timestamp: number;
+  logs: ethers.Log[];
+}
+
+/** An in-memory chain whose tail can be replaced to simulate reorgs */
+class FakeChain {
+  blocks: FakeBlock[] = [];
+
+  constructor() {
+    this.mine();
+  }
+
+  get head(): number {
+    return this.blocks.length - 1;
+  }
+
+  mine(events: { name: string; args: unknown[] }[] = [], fork = 'a'): number {
+    const number = this.blocks.length;
+    const hash = ethers.id(`${fork}:${number}`);
+    const logs = events.map(({ name, args }, index) => {
+      const { data, topics } = iface.encodeEventLog(name, args);
+      const transactionHash = ethers.id(`${hash}:${index}`);
+      return { address: ADDRESS, blockNumber: number, blockHash: hash, transactionHash, index, data, topics } as unknown as ethers.Log;
+    });
+    this.blocks.push({ hash, timestamp: 1_700_000_000 + number * 12, logs });
+    return number;
+  }
+
+  /** Drop every block from `number` on */
+  reorg(number: number): void {
+    this.blocks.length = number;
+  }
+
+  provider = {
+    getNetwork: async () => ({ chainId: 31337n }),
+    getBlockNumber: async () => this.head,
+    getBlock: async (number: number) => this.blocks[number] ?? null,
+    getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+      this.blocks.slice(fromBlock, toBlock + 1).flatMap(block => block.logs)
+    ),
+  };
+}
+
+const ruleCreated = (ruleId: string) => ({ name: 'PaymentRuleCreated', args: [ruleId, CREATOR] });
+const subscriptionCreated = (subscriptionId: string, ruleId: string) =>
+  ({ name: 'SubscriptionCreated', args: [subscriptionId, ruleId, SUBSCRIBER] });
+const subscriptionDisabled = (subscriptionId: string) =>
+  ({ name: 'SubscriptionDisabled', args: [subscriptionId, SUBSCRIBER] });
+const paymentExecuted = (subscriptionId: string, ruleId: string, amount: bigint) =>
+  ({ name: 'PaymentExecuted', args: [subscriptionId, ruleId, RECIPIENT, ethers.ZeroAddress, amount] });
+
+describe('AutoPayIndexer', () => {
+  let chain: FakeChain;
+  let ruleIds: string[];
+  let subscriptionIds: string[];
+  let client: {
+    contract: { interface: typeof iface; runner: { provider: FakeChain['provider'] } };
+    getAddress: () => string;
+    getRuleIdsPage: ReturnType<typeof vi.fn>;
+    getSubscriptionIdsPage: ReturnType<typeof vi.fn>;
+  };
+
+  const indexer = (options: IndexerOptions = {}) =>
+    new AutoPayIndexer(client as unknown as AutoPayClient, { store: new MemoryIndexerStore(), startBlock: 1, ...options });
+  const page = (ids: () => string[]) => vi.fn(async (offset: number, limit: number) =>
+    ({ ids: ids().slice(offset, offset + limit), total: ids().length }));
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    chain = new FakeChain();
+    ruleIds = ['rule-1'];
+    subscriptionIds = ['sub-1'];
+    client = {
+      contract: { interface: iface, runner: { provider: chain.provider } },
+      getAddress: () => ADDRESS,
+      getRuleIdsPage: page(() => ruleIds),
+      getSubscriptionIdsPage: page(() => subscriptionIds),
+    };
+
+    chain.mine([ruleCreated('rule-1')]);
+    chain.mine([subscriptionCreated('sub-1', 'rule-1')]);
+    chain.mine([paymentExecuted('sub-1', 'rule-1', 100n)]);
+  });
+
+  it('ingests events in batches and resolves their hashed ids', async () => {
+    const index = indexer({ batchSize: 2 });
+    const result = await index.sync();
+
+    expect(result).toEqual({
+      fromBlock: 1,
+      toBlock: 3,
+      rules: 1,
+      subscriptions: 1,
+      disabledSubscriptions: 0,
+      payments: 1,
+      reorgedBlocks: 0,
+    });
+    expect(chain.provider.getLogs).toHaveBeenCalledTimes(2);
+    expect(index.getRules()).toMatchObject([{ ruleId: 'rule-1', creator: CREATOR, blockNumber: 1 }]);
+    expect(index.getPayments({ subscriber: SUBSCRIBER })).toMatchObject([
+      { subscriptionId: 'sub-1', ruleId: 'rule-1', recipient: RECIPIENT, amount: 100n, isConfidential: false },
+    ]);
+  });
+
+  it('resolves new ids from the newest page first', async () => {
+    ruleIds = ['rule-0', 'rule-x', 'rule-y', 'rule-1'];
+    // Stops after block 1, which only creates rule-1
+    await indexer({ idPageSize: 2, confirmations: 2 }).sync();
+
+    // The total, then only the last page
+    expect(client.getRuleIdsPage.mock.calls).toEqual([[0, 0], [2, 2]]);
+  });
+
+  it('looks each id up only in the list of its kind', async () => {
+    await indexer().sync();
+
+    // rule-1 once among the rules, sub-1 once among the subscriptions, then cached
+    expect(client.getRuleIdsPage.mock.calls).toEqual([[0, 0], [0, 1]]);
+    expect(client.getSubscriptionIdsPage.mock.calls).toEqual([[0, 0], [0, 1]]);
+  });
+
+  it('only fetches blocks after the last synced one', async () => {
+    const index = indexer();
+    await index.sync();
+    chain.mine([paymentExecuted('sub-1', 'rule-1', 200n)]);
+
+    const result = await index.sync();
+
+    expect(result).toMatchObject({ fromBlock: 4, toBlock: 4, payments: 1, reorgedBlocks: 0 });
+    expect(index.getPayments().map(p => p.amount)).toEqual([100n, 200n]);
+  });
+
+  it('rolls back to the last matching checkpoint after a reorg', async () => {
+    const index = indexer();
+    await index.sync();
+
+    chain.reorg(3);
+    chain.mine([paymentExecuted('sub-1', 'rule-1', 300n)], 'b');
+    chain.mine([], 'b');
+    const result = await index.sync();
+
+    expect(result).toMatchObject({ fromBlock: 3, toBlock: 4, payments: 1, reorgedBlocks: 1 });
+    expect(index.getPayments().map(p => [p.amount, p.blockNumber])).toEqual([[300n, 3]]);
+    expect(index.getSubscriptions()).toHaveLength(1);
+  });
+
+  it('records disabled subscriptions and drops them with a reorg', async () => {
+    const index = indexer();
+    chain.mine([subscriptionDisabled('sub-1')]);
+
+    expect(await index.sync()).toMatchObject({ disabledSubscriptions: 1 });
+    expect(index.getDisabledSubscriptions({ subscriber: SUBSCRIBER })).toMatchObject([
+      { subscriptionId: 'sub-1', subscriber: SUBSCRIBER, blockNumber: 4 },
+    ]);
+
+    chain.reorg(4);
+    chain.mine([], 'b');
+    await index.sync();
+
+    expect(index.getDisabledSubscriptions()).toEqual([]);
+  });
+
+  it('rebuilds from the start block when the reorg is deeper than its checkpoints', async () => {
+    const index = indexer();
+    await index.sync();
+
+    chain.reorg(1);
+    chain.mine([ruleCreated('rule-1')], 'b');
+    const result = await index.sync();
+
+    expect(result).toMatchObject({ fromBlock: 1, toBlock: 1, rules: 1, reorgedBlocks: 3 });
+    expect(index.getRules()).toHaveLength(1);
+    expect(index.getSubscriptions()).toEqual([]);
+    expect(index.getPayments()).toEqual([]);
+  });
+
+  it('resumes from the stored index', async () => {
+    const store = new MemoryIndexerStore();
+    await indexer({ store }).sync();
+    chain.mine([paymentExecuted('sub-1', 'rule-1', 200n)]);
+
+    const resumed = indexer({ store });
+    const result = await resumed.sync();
+
+    expect(result.fromBlock).toBe(4);
+    expect(resumed.getPayments().map(p => p.amount)).toEqual([100n, 200n]);
+  });
+
+  it('needs a sync before answering queries', () => {
+    expect(() => indexer().getPayments()).toThrow(/sync\(\)/);
+  });
+});
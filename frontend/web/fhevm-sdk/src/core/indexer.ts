@@ -0,0 +1,582 @@
+/**
+ * AutoPay Event Indexer - Universal SDK
+ * Ingests rule, subscription and payment events into a local store and serves
+ * payment history without walking every rule on-chain
+ */
+
+import { ethers } from 'ethers';
+import { AutoPayClient } from './autopay.js';
+import type { IdPage } from './autopay.js';
+
+export interface IndexedRule {
+  ruleId: string;
+  creator: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface IndexedSubscription {
+  subscriptionId: string;
+  ruleId: string;
+  subscriber: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface IndexedSubscriptionDisabled {
+  subscriptionId: string;
+  subscriber: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface IndexedPayment {
+  subscriptionId: string;
+  ruleId: string;
+  subscriber: string;
+  recipient: string;
+  paymentToken: string;
+  /** Clear amount paid; null for confidential payments */
+  amount: bigint | null;
+  /** Handle of the encrypted amount actually transferred (confidential payments only) */
+  transferredHandle: string | null;
+  isConfidential: boolean;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+export interface BlockCheckpoint {
+  number: number;
+  hash: string;
+}
+
+export interface IndexerState {
+  chainId: number;
+  address: string;
+  startBlock: number;
+  /** Last block whose events are fully ingested */
+  lastBlock: number;
+  /** Recent block hashes, used to detect reorgs */
+  checkpoints: BlockCheckpoint[];
+  /** keccak256(id) -> id, since indexed string event arguments are only emitted hashed */
+  preimages: Record<string, string>;
+  rules: IndexedRule[];
+  subscriptions: IndexedSubscription[];
+  /** Subscriptions their subscriber cancelled with disableSubscription */
+  disabledSubscriptions: IndexedSubscriptionDisabled[];
+  payments: IndexedPayment[];
+}
+
+/**
+ * Where the index is persisted between page loads / process runs
+ */
+export interface IndexerStore {
+  load(key: string): Promise<IndexerState | null>;
+  save(key: string, state: IndexerState): Promise<void>;
+}
+
+export interface IndexerOptions {
+  /** Defaults to localStorage in browsers and a JSON file in Node.js */
+  store?: IndexerStore;
+  /** First block to scan, e.g. the registry's autoPayDeployBlock (default: found by bisecting getCode) */
+  startBlock?: number;
+  /** Blocks per eth_getLogs request (default: 2000) */
+  batchSize?: number;
+  /** Stay this many blocks behind the head (default: 0) */
+  confirmations?: number;
+  /** How far back reorgs are detected (default: 64 blocks) */
+  maxReorgDepth?: number;
+  /** Ids per getRuleIdsPage / getSubscriptionIdsPage call when resolving id hashes (default: 200) */
+  idPageSize?: number;
+}
+
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number;
+  rules: number;
+  subscriptions: number;
+  disabledSubscriptions: number;
+  payments: number;
+  /** Blocks rolled back because the chain reorganised */
+  reorgedBlocks: number;
+}
+
+export interface PaymentHistoryFilter {
+  subscriptionId?: string;
+  ruleId?: string;
+  subscriber?: string;
+  recipient?: string;
+  /** Unix seconds, inclusive */
+  fromTimestamp?: number;
+  /** Unix seconds, inclusive */
+  toTimestamp?: number;
+}
+
+const INDEXED_EVENTS = [
+  'PaymentRuleCreated',
+  'SubscriptionCreated',
+  'SubscriptionDisabled',
+  'PaymentExecuted',
+  'ConfidentialPaymentExecuted',
+] as const;
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_REORG_DEPTH = 64;
+const DEFAULT_ID_PAGE_SIZE = 200;
+
+/**
+ * JSON with bigints, which the payment amounts need
+ */
+export function serializeIndexerState(state: IndexerState): string {
+  return JSON.stringify(state, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+export function parseIndexerState(json: string): IndexerState {
+  const state: IndexerState = JSON.parse(json);
+  // Indexes saved before SubscriptionDisabled was ingested
+  state.disabledSubscriptions ??= [];
+  for (const payment of state.payments) {
+    payment.amount = payment.amount === null ? null : BigInt(payment.amount);
+  }
+  return state;
+}
+
+export class MemoryIndexerStore implements IndexerStore {
+  private items = new Map<string, string>();
+
+  async load(key: string): Promise<IndexerState | null> {
+    const stored = this.items.get(key);
+    return stored ? parseIndexerState(stored) : null;
+  }
+
+  async save(key: string, state: IndexerState): Promise<void> {
+    this.items.set(key, serializeIndexerState(state));
+  }
+}
+
+export class BrowserIndexerStore implements IndexerStore {
+  constructor(private storage: Storage = window.localStorage) {}
+
+  async load(key: string): Promise<IndexerState | null> {
+    const stored = this.storage.getItem(key);
+    return stored ? parseIndexerState(stored) : null;
+  }
+
+  async save(key: string, state: IndexerState): Promise<void> {
+    this.storage.setItem(key, serializeIndexerState(state));
+  }
+}
+
+/**
+ * One JSON file per contract under ~/.fhevm-sdk/indexer (or $AUTOPAY_INDEX_DIR)
+ */
+export class JsonFileIndexerStore implements IndexerStore {
+  constructor(private directory?: string) {}
+
+  async load(key: string): Promise<IndexerState | null> {
+    const fs = await eval('import("fs/promises")');
+    try {
+      return parseIndexerState(await fs.readFile(await this.path(key), 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(key: string, state: IndexerState): Promise<void> {
+    const fs = await eval('import("fs/promises")');
+    const path = await eval('import("path")');
+    const file = await this.path(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so an interrupted save never truncates the index
+    await fs.writeFile(`${file}.tmp`, serializeIndexerState(state));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  private async path(key: string): Promise<string> {
+    // Use eval to prevent bundlers from analyzing these imports
+    const os = await eval('import("os")');
+    const path = await eval('import("path")');
+    const directory = this.directory
+      || process.env.AUTOPAY_INDEX_DIR
+      || path.join(os.homedir(), '.fhevm-sdk', 'indexer');
+    return path.join(directory, `${key.replace(/[^a-zA-Z0-9]+/g, '-')}.json`);
+  }
+}
+
+export function getDefaultIndexerStore(): IndexerStore {
+  return typeof window !== 'undefined' && window.localStorage
+    ? new BrowserIndexerStore()
+    : new JsonFileIndexerStore();
+}
+
+/**
+ * First block at which `address` has code, by bisecting eth_getCode.
+ * Needs an archive node; prefer passing a known deploy block
+ */
+export async function findDeploymentBlock(provider: ethers.Provider, address: string): Promise<number> {
+  let low = 0;
+  let high = await provider.getBlockNumber();
+  if ((await provider.getCode(address, high)) === '0x') {
+    throw new Error(`No contract deployed at ${address}`);
+  }
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if ((await provider.getCode(address, middle)) === '0x') {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export class AutoPayIndexer {
+  private client: AutoPayClient;
+  private options: Required<Omit<IndexerOptions, 'startBlock'>> & Pick<IndexerOptions, 'startBlock'>;
+  private state: IndexerState | null = null;
+  private syncing: Promise<IndexerSyncResult> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(client: AutoPayClient, options: IndexerOptions = {}) {
+    this.client = client;
+    this.options = {
+      batchSize: DEFAULT_BATCH_SIZE,
+      confirmations: 0,
+      maxReorgDepth: DEFAULT_REORG_DEPTH,
+      idPageSize: DEFAULT_ID_PAGE_SIZE,
+      ...options,
+      store: options.store ?? getDefaultIndexerStore(),
+    };
+  }
+
+  private get provider(): ethers.Provider {
+    const provider = this.client.contract.runner?.provider;
+    if (!provider) throw new Error('The AutoPay client needs a runner with a provider to index events');
+    return provider;
+  }
+
+  /**
+   * Last fully indexed block, or null before the first sync
+   */
+  get lastBlock(): number | null {
+    return this.state ? this.state.lastBlock : null;
+  }
+
+  /**
+   * Bring the index up to the chain head (minus confirmations). Concurrent
+   * callers share one sync
+   */
+  sync(): Promise<IndexerSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  getRules(filter: { creator?: string } = {}): IndexedRule[] {
+    const state = this.requireState();
+    return state.rules.filter(rule => !filter.creator || sameAddress(rule.creator, filter.creator));
+  }
+
+  getSubscriptions(filter: { ruleId?: string; subscriber?: string } = {}): IndexedSubscription[] {
+    const state = this.requireState();
+    return state.subscriptions.filter(subscription =>
+      (!filter.ruleId || subscription.ruleId === filter.ruleId)
+      && (!filter.subscriber || sameAddress(subscription.subscriber, filter.subscriber))
+    );
+  }
+
+  /**
+   * Subscriptions cancelled by their subscriber, in the order they were disabled
+   */
+  getDisabledSubscriptions(filter: { subscriptionId?: string; subscriber?: string } = {}): IndexedSubscriptionDisabled[] {
+    const state = this.requireState();
+    return state.disabledSubscriptions.filter(disabled =>
+      (!filter.subscriptionId || disabled.subscriptionId === filter.subscriptionId)
+      && (!filter.subscriber || sameAddress(disabled.subscriber, filter.subscriber))
+    );
+  }
+
+  /**
+   * Executed payments matching every given criterion, oldest first
+   */
+  getPayments(filter: PaymentHistoryFilter = {}): IndexedPayment[] {
+    const state = this.requireState();
+    return state.payments.filter(payment =>
+      (!filter.subscriptionId || payment.subscriptionId === filter.subscriptionId)
+      && (!filter.ruleId || payment.ruleId === filter.ruleId)
+      && (!filter.subscriber || sameAddress(payment.subscriber, filter.subscriber))
+      && (!filter.recipient || sameAddress(payment.recipient, filter.recipient))
+      && (filter.fromTimestamp === undefined || payment.timestamp >= filter.fromTimestamp)
+      && (filter.toTimestamp === undefined || payment.timestamp <= filter.toTimestamp)
+    );
+  }
+
+  /**
+   * Keep syncing every `intervalMs` until stop() is called
+   */
+  start(intervalMs: number, onSync?: (result: IndexerSyncResult) => void): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        const result = await this.sync();
+        onSync?.(result);
+      } catch (error) {
+        console.error('AutoPay indexer sync failed:', error);
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, intervalMs);
+      }
+    };
+    tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private requireState(): IndexerState {
+    if (!this.state) throw new Error('Indexer not synced. Call sync() first.');
+    return this.state;
+  }
+
+  private async storageKey(): Promise<string> {
+    const chainId = Number((await this.provider.getNetwork()).chainId);
+    return `fhevm-sdk:autopay-index:${chainId}:${this.client.getAddress().toLowerCase()}`;
+  }
+
+  private async loadState(key: string): Promise<IndexerState> {
+    const stored = await this.options.store.load(key);
+    if (stored) return stored;
+
+    const chainId = Number((await this.provider.getNetwork()).chainId);
+    const startBlock = this.options.startBlock
+      ?? await findDeploymentBlock(this.provider, this.client.getAddress());
+    return {
+      chainId,
+      address: this.client.getAddress(),
+      startBlock,
+      lastBlock: startBlock - 1,
+      checkpoints: [],
+      preimages: {},
+      rules: [],
+      subscriptions: [],
+      disabledSubscriptions: [],
+      payments: [],
+    };
+  }
+
+  private async runSync(): Promise<IndexerSyncResult> {
+    const key = await this.storageKey();
+    const state = this.state ?? await this.loadState(key);
+    this.state = state;
+
+    const reorgedBlocks = await this.rollbackReorg(state);
+    const head = (await this.provider.getBlockNumber()) - this.options.confirmations;
+    const result: IndexerSyncResult = {
+      fromBlock: state.lastBlock + 1,
+      toBlock: state.lastBlock,
+      rules: 0,
+      subscriptions: 0,
+      disabledSubscriptions: 0,
+      payments: 0,
+      reorgedBlocks,
+    };
+
+    for (let from = state.lastBlock + 1; from <= head; from += this.options.batchSize) {
+      const to = Math.min(from + this.options.batchSize - 1, head);
+      await this.ingestRange(state, from, to, result);
+
+      const block = await this.provider.getBlock(to);
+      if (!block?.hash) throw new Error(`Block ${to} not found`);
+      state.lastBlock = to;
+      this.addCheckpoint(state, { number: to, hash: block.hash });
+      result.toBlock = to;
+
+      // Persist per batch so a long initial sync can resume
+      await this.options.store.save(key, state);
+    }
+
+    if (reorgedBlocks > 0 && result.toBlock < result.fromBlock) {
+      await this.options.store.save(key, state);
+    }
+    return result;
+  }
+
+  private async ingestRange(state: IndexerState, fromBlock: number, toBlock: number, result: IndexerSyncResult) {
+    const contract = this.client.contract;
+    const topics = INDEXED_EVENTS.map(name => contract.interface.getEvent(name)!.topicHash);
+    const logs = await this.provider.getLogs({
+      address: this.client.getAddress(),
+      fromBlock,
+      toBlock,
+      topics: [topics],
+    });
+
+    const timestamps = new Map<number, number>();
+    const timestampOf = async (log: ethers.Log) => {
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await this.provider.getBlock(log.blockNumber);
+        if (!block) throw new Error(`Block ${log.blockNumber} not found`);
+        timestamps.set(log.blockNumber, block.timestamp);
+        this.addCheckpoint(state, { number: log.blockNumber, hash: log.blockHash });
+      }
+      return timestamps.get(log.blockNumber)!;
+    };
+
+    for (const log of logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (!parsed) continue;
+      const base = {
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        timestamp: await timestampOf(log),
+      };
+
+      switch (parsed.name) {
+        case 'PaymentRuleCreated':
+          state.rules.push({
+            ...base,
+            ruleId: await this.resolveId(state, parsed.args.ruleId, 'rule'),
+            creator: parsed.args.creator,
+          });
+          result.rules++;
+          break;
+        case 'SubscriptionCreated':
+          state.subscriptions.push({
+            ...base,
+            subscriptionId: await this.resolveId(state, parsed.args.subscriptionId, 'subscription'),
+            ruleId: await this.resolveId(state, parsed.args.ruleId, 'rule'),
+            subscriber: parsed.args.subscriber,
+          });
+          result.subscriptions++;
+          break;
+        case 'SubscriptionDisabled':
+          state.disabledSubscriptions.push({
+            ...base,
+            subscriptionId: await this.resolveId(state, parsed.args.subscriptionId, 'subscription'),
+            subscriber: parsed.args.subscriber,
+          });
+          result.disabledSubscriptions++;
+          break;
+        case 'PaymentExecuted':
+        case 'ConfidentialPaymentExecuted': {
+          const subscriptionId = await this.resolveId(state, parsed.args.subscriptionId, 'subscription');
+          const isConfidential = parsed.name === 'ConfidentialPaymentExecuted';
+          state.payments.push({
+            ...base,
+            subscriptionId,
+            ruleId: await this.resolveId(state, parsed.args.ruleId, 'rule'),
+            subscriber: await this.subscriberOf(state, subscriptionId),
+            recipient: parsed.args.recipient,
+            paymentToken: parsed.args.paymentToken,
+            amount: isConfidential ? null : parsed.args.amount,
+            transferredHandle: isConfidential ? parsed.args.transferred : null,
+            isConfidential,
+            logIndex: log.index,
+          });
+          result.payments++;
+          break;
+        }
+      }
+    }
+  }
+
+  // Indexed strings arrive as an ethers Indexed wrapper holding keccak256(id);
+  // ids are never deleted on-chain, so the current id list of `kind` contains every preimage
+  private async resolveId(state: IndexerState, value: ethers.Indexed | string, kind: 'rule' | 'subscription'): Promise<string> {
+    if (typeof value === 'string') return value;
+    const hash = value.hash!;
+    if (!state.preimages[hash]) {
+      await this.loadPreimages(state, hash, (offset, limit) => kind === 'rule'
+        ? this.client.getRuleIdsPage(offset, limit)
+        : this.client.getSubscriptionIdsPage(offset, limit));
+    }
+    const id = state.preimages[hash];
+    if (!id) throw new Error(`Unknown ${kind} id hash ${hash}`);
+    return id;
+  }
+
+  // Ids are appended on creation, so an unknown hash most likely belongs to one
+  // of the newest: walk the pages from the end and stop once it resolves
+  private async loadPreimages(
+    state: IndexerState,
+    hash: string,
+    getPage: (offset: number, limit: number) => Promise<IdPage>
+  ): Promise<void> {
+    // limit 0 returns only the total
+    const { total } = await getPage(0, 0);
+    const pageSize = this.options.idPageSize;
+    for (let end = total; end > 0 && !state.preimages[hash]; end -= pageSize) {
+      const offset = Math.max(0, end - pageSize);
+      const { ids } = await getPage(offset, end - offset);
+      for (const id of ids) {
+        state.preimages[ethers.id(id)] = id;
+      }
+    }
+  }
+
+  private async subscriberOf(state: IndexerState, subscriptionId: string): Promise<string> {
+    const indexed = state.subscriptions.find(subscription => subscription.subscriptionId === subscriptionId);
+    if (indexed) return indexed.subscriber;
+    return (await this.client.getSubscription(subscriptionId)).subscriber;
+  }
+
+  private addCheckpoint(state: IndexerState, checkpoint: BlockCheckpoint) {
+    const checkpoints = state.checkpoints.filter(c => c.number !== checkpoint.number);
+    checkpoints.push(checkpoint);
+    checkpoints.sort((a, b) => a.number - b.number);
+    const oldest = checkpoint.number - this.options.maxReorgDepth;
+    // Always keep the newest checkpoint, even after a long gap between syncs
+    state.checkpoints = checkpoints.filter((c, i) => c.number >= oldest || i === checkpoints.length - 1);
+  }
+
+  /**
+   * Walk checkpoints from the newest until one still matches the chain and drop
+   * everything indexed after it. Returns the number of blocks rolled back
+   */
+  private async rollbackReorg(state: IndexerState): Promise<number> {
+    if (state.checkpoints.length === 0) return 0;
+
+    let forkBlock: number | null = null;
+    for (let i = state.checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = state.checkpoints[i];
+      const block = await this.provider.getBlock(checkpoint.number);
+      if (block?.hash === checkpoint.hash) {
+        forkBlock = checkpoint.number;
+        break;
+      }
+    }
+    if (forkBlock === state.lastBlock) return 0;
+
+    // Deeper than the retained checkpoints: rebuild from scratch
+    const keepUntil = forkBlock ?? state.startBlock - 1;
+    const rolledBack = state.lastBlock - keepUntil;
+    console.warn(`AutoPay indexer: chain reorganised, rolling back ${rolledBack} blocks to ${keepUntil}`);
+
+    state.rules = state.rules.filter(rule => rule.blockNumber <= keepUntil);
+    state.subscriptions = state.subscriptions.filter(subscription => subscription.blockNumber <= keepUntil);
+    state.disabledSubscriptions = state.disabledSubscriptions.filter(disabled => disabled.blockNumber <= keepUntil);
+    state.payments = state.payments.filter(payment => payment.blockNumber <= keepUntil);
+    state.checkpoints = state.checkpoints.filter(checkpoint => checkpoint.number <= keepUntil);
+    state.lastBlock = keepUntil;
+    return rolledBack;
+  }
+}
@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { AutoPayKeeper, getNextDueTimestamp, getSubscriptionStatus, isSubscriptionDue } from './keeper.js';
+import type { AutoPayClient, PaymentRule, Subscription } from './autopay.js';
+import { publicDecryptV09 } from './fhevm.js';
+
+vi.mock('./fhevm.js', () => ({ publicDecryptV09: vi.fn() }));
+
+const NOW = 1_700_000_000;
+const INTERVAL = 3600;
+
+function rule(overrides: Partial<PaymentRule> = {}): PaymentRule {
+  return {
+    ruleId: 'rule-1',
+    amount: 100n,
+    recipient: ethers.ZeroAddress,
+    description: '',
+    creator: ethers.ZeroAddress,
+    timestamp: 0,
+    isActive: true,
+    paymentInterval: INTERVAL,
+    paymentToken: ethers.ZeroAddress,
+    isConfidential: false,
+    ...overrides,
+  };
+}
+
+function subscription(overrides: Partial<Subscription> = {}): Subscription {
+  return {
+    subscriptionId: 'sub-1',
+    ruleId: 'rule-1',
+    subscriber: ethers.ZeroAddress,
+    lastPaymentTimestamp: 0,
+    isActive: true,
+    pausedUntil: 0,
+    paymentCount: 0,
+    maxPayments: 0,
+    endTimestamp: 0,
+    ...overrides,
+  };
+}
+
+describe('getNextDueTimestamp', () => {
+  it('is due immediately before the first payment', () => {
+    expect(getNextDueTimestamp(subscription(), rule())).toBe(0);
+  });
+
+  it('is one interval after the last payment', () => {
+    expect(getNextDueTimestamp(subscription({ lastPaymentTimestamp: NOW }), rule())).toBe(NOW + INTERVAL);
+  });
+});
+
+describe('getSubscriptionStatus', () => {
+  it('is active by default', () => {
+    expect(getSubscriptionStatus(subscription(), NOW)).toBe('active');
+  });
+
+  it('is paused until pausedUntil', () => {
+    expect(getSubscriptionStatus(subscription({ pausedUntil: NOW + 1 }), NOW)).toBe('paused');
+    expect(getSubscriptionStatus(subscription({ pausedUntil: NOW }), NOW)).toBe('active');
+    expect(getSubscriptionStatus(subscription({ pausedUntil: Infinity }), NOW)).toBe('paused');
+  });
+
+  it('ends at the end date', () => {
+    expect(getSubscriptionStatus(subscription({ endTimestamp: NOW + 1 }), NOW)).toBe('active');
+    expect(getSubscriptionStatus(subscription({ endTimestamp: NOW }), NOW)).toBe('ended');
+  });
+
+  it('ends after maxPayments payments, even though the contract deactivated it', () => {
+    expect(getSubscriptionStatus(subscription({ paymentCount: 2, maxPayments: 3 }), NOW)).toBe('active');
+    expect(getSubscriptionStatus(subscription({ paymentCount: 3, maxPayments: 3, isActive: false }), NOW)).toBe('ended');
+  });
+
+  it('is cancelled once disabled', () => {
+    expect(getSubscriptionStatus(subscription({ isActive: false }), NOW)).toBe('cancelled');
+  });
+
+  it('reports an ended subscription as ended rather than paused', () => {
+    expect(getSubscriptionStatus(subscription({ endTimestamp: NOW, pausedUntil: Infinity }), NOW)).toBe('ended');
+  });
+});
+
+describe('isSubscriptionDue', () => {
+  it('is due once the interval has passed', () => {
+    const paid = subscription({ lastPaymentTimestamp: NOW - INTERVAL });
+    expect(isSubscriptionDue(paid, rule(), NOW)).toBe(true);
+    expect(isSubscriptionDue(paid, rule(), NOW - 1)).toBe(false);
+  });
+
+  it('is never due while paused, ended, cancelled or on a disabled rule', () => {
+    expect(isSubscriptionDue(subscription({ pausedUntil: NOW + 1 }), rule(), NOW)).toBe(false);
+    expect(isSubscriptionDue(subscription({ endTimestamp: NOW }), rule(), NOW)).toBe(false);
+    expect(isSubscriptionDue(subscription({ isActive: false }), rule(), NOW)).toBe(false);
+    expect(isSubscriptionDue(subscription(), rule({ isActive: false }), NOW)).toBe(false);
+  });
+});
+
+describe('AutoPayKeeper', () => {
+  const CONDITION = ethers.id('condition');
+  let subscriptions: Subscription[];
+  let rules: PaymentRule[];
+  let handles: Record<string, string>;
+  let client: {
+    getSubscriptionIdsPage: ReturnType<typeof vi.fn>;
+    getSubscriptions: ReturnType<typeof vi.fn>;
+    getPaymentRules: ReturnType<typeof vi.fn>;
+    getConditionHandles: ReturnType<typeof vi.fn>;
+    executePayment: ReturnType<typeof vi.fn>;
+    getChainTime: ReturnType<typeof vi.fn>;
+  };
+
+  const keeper = (options = {}) =>
+    new AutoPayKeeper(client as unknown as AutoPayClient, { now: () => NOW, retryDelayMs: 0, ...options });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    rules = [rule(), rule({ ruleId: 'rule-2', isConfidential: true })];
+    subscriptions = [
+      subscription({ subscriptionId: 'due' }),
+      subscription({ subscriptionId: 'paused', pausedUntil: Infinity }),
+      subscription({ subscriptionId: 'ended', endTimestamp: NOW }),
+      subscription({ subscriptionId: 'cancelled', isActive: false }),
+      subscription({ subscriptionId: 'not-yet', lastPaymentTimestamp: NOW }),
+      subscription({ subscriptionId: 'no-metric' }),
+      subscription({ subscriptionId: 'confidential', ruleId: 'rule-2' }),
+    ];
+    handles = { due: CONDITION, confidential: ethers.id('confidential') };
+
+    const ids = () => subscriptions.map(s => s.subscriptionId);
+    client = {
+      getSubscriptionIdsPage: vi.fn(async (offset: number, limit: number) => ({
+        ids: ids().slice(offset, offset + limit),
+        total: subscriptions.length,
+      })),
+      getSubscriptions: vi.fn(async (wanted: string[]) => subscriptions.filter(s => wanted.includes(s.subscriptionId))),
+      getPaymentRules: vi.fn(async (wanted: string[]) => rules.filter(r => wanted.includes(r.ruleId))),
+      getConditionHandles: vi.fn(async (wanted: string[]) => wanted.map(id => handles[id] ?? ethers.ZeroHash)),
+      executePayment: vi.fn(async (subscriptionId: string) => ({ hash: `0x${subscriptionId}` })),
+      getChainTime: vi.fn(async () => NOW),
+    };
+    vi.mocked(publicDecryptV09).mockResolvedValue({
+      clearValues: { [CONDITION]: 1n },
+      abiEncodedClearValues: '0x',
+      decryptionProof: '0x',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('finds the active, due subscriptions with a pending metric across pages', async () => {
+    const { checked, due } = await keeper({ pageSize: 3 }).findDueSubscriptions();
+
+    expect(checked).toBe(7);
+    expect(due.map(s => s.subscriptionId)).toEqual(['due', 'confidential']);
+    expect(client.getSubscriptionIdsPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('checks due dates against the latest block time by default', async () => {
+    subscriptions = [subscription({ subscriptionId: 'due', lastPaymentTimestamp: NOW - INTERVAL })];
+    const chainKeeper = new AutoPayKeeper(client as unknown as AutoPayClient, { retryDelayMs: 0 });
+
+    client.getChainTime.mockResolvedValue(NOW - 1);
+    expect((await chainKeeper.findDueSubscriptions()).due).toEqual([]);
+
+    client.getChainTime.mockResolvedValue(NOW);
+    expect((await chainKeeper.findDueSubscriptions()).due.map(s => s.subscriptionId)).toEqual(['due']);
+  });
+
+  it('only reports due subscriptions in a dry run', async () => {
+    const result = await keeper({ dryRun: true }).runOnce();
+
+    expect(result.due).toEqual(['due', 'confidential']);
+    expect(result.executed).toEqual([]);
+    expect(client.executePayment).not.toHaveBeenCalled();
+    expect(publicDecryptV09).not.toHaveBeenCalled();
+  });
+
+  it('executes met conditions and confidential rules without decrypting the latter', async () => {
+    const result = await keeper().runOnce();
+
+    expect(result.executed).toEqual(['due', 'confidential']);
+    expect(result.skipped).toEqual([]);
+    expect(publicDecryptV09).toHaveBeenCalledWith([CONDITION]);
+  });
+
+  it('skips public rules whose condition was not met', async () => {
+    vi.mocked(publicDecryptV09).mockResolvedValue({
+      clearValues: { [CONDITION]: 0n },
+      abiEncodedClearValues: '0x',
+      decryptionProof: '0x',
+    });
+
+    const result = await keeper().runOnce();
+
+    expect(result.skipped).toEqual(['due']);
+    expect(result.executed).toEqual(['confidential']);
+    expect(client.executePayment).not.toHaveBeenCalledWith('due');
+  });
+
+  it('retries failed sends but not reverts', async () => {
+    client.executePayment
+      .mockRejectedValueOnce(new Error('nonce too low'))
+      .mockResolvedValueOnce({ hash: '0x01' })
+      .mockRejectedValueOnce(ethers.makeError('execution reverted', 'CALL_EXCEPTION'));
+
+    const result = await keeper().runOnce();
+
+    expect(result.executed).toEqual(['due']);
+    expect(result.failed.map(f => f.subscriptionId)).toEqual(['confidential']);
+    expect(client.executePayment).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * AutoPay Keeper - Universal SDK
+ * Scans subscriptions and executes the ones that are due
+ */
+
+import { ethers } from 'ethers';
+import { AutoPayClient } from './autopay.js';
+import type { PaymentRule, Subscription } from './autopay.js';
+import { ContractRevertError } from './errors.js';
+import { publicDecryptV09 } from './fhevm.js';
+
+export interface KeeperOptions {
+  /** Only report due subscriptions, never decrypt or send transactions */
+  dryRun?: boolean;
+  /** Attempts per subscription before giving up for this round */
+  retries?: number;
+  /** Initial backoff between attempts, doubled on each retry */
+  retryDelayMs?: number;
+  /** Called before each attempt; lets a NonceManager resync after a failure */
+  onRetry?: (subscriptionId: string, attempt: number, error: unknown) => void | Promise<void>;
+  /** Subscriptions loaded per page of getSubscriptionIdsPage */
+  pageSize?: number;
+  /** Overrides the latest block timestamp the keeper checks due dates against, e.g. in tests */
+  now?: () => number;
+}
+
+export interface KeeperRunResult {
+  checked: number;
+  due: string[];
+  executed: string[];
+  /** Due, but the pending metric did not meet the condition */
+  skipped: string[];
+  failed: { subscriptionId: string; error: string }[];
+}
+
+/**
+ * Mirrors AutoPaySystem.nextDueTimestamp: a never-paid subscription is due
+ * immediately, otherwise one rule interval after the last payment
+ */
+export function getNextDueTimestamp(subscription: Subscription, rule: PaymentRule): number {
+  if (subscription.lastPaymentTimestamp === 0) return 0;
+  return subscription.lastPaymentTimestamp + rule.paymentInterval;
+}
+
+export type SubscriptionStatus = 'active' | 'paused' | 'ended' | 'cancelled';
+
+/**
+ * Mirrors AutoPaySystem's checks: a subscription ends at its end date or once it
+ * made maxPayments payments, and is paused until `pausedUntil`
+ */
+export function getSubscriptionStatus(subscription: Subscription, now: number): SubscriptionStatus {
+  const { isActive, pausedUntil, paymentCount, maxPayments, endTimestamp } = subscription;
+  if (maxPayments !== 0 && paymentCount >= maxPayments) return 'ended';
+  if (!isActive) return 'cancelled';
+  if (endTimestamp !== 0 && now >= endTimestamp) return 'ended';
+  return now < pausedUntil ? 'paused' : 'active';
+}
+
+/**
+ * A subscription is due when both it and its rule are active, it is neither
+ * paused nor ended, and its next due timestamp has passed
+ */
+export function isSubscriptionDue(subscription: Subscription, rule: PaymentRule, now: number): boolean {
+  if (getSubscriptionStatus(subscription, now) !== 'active' || !rule.isActive) return false;
+  return now >= getNextDueTimestamp(subscription, rule);
+}
+
+// Reverts are deterministic: retrying them only burns gas
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof ContractRevertError) && !ethers.isError(error, 'CALL_EXCEPTION');
+}
+
+export class AutoPayKeeper {
+  private client: AutoPayClient;
+  private options: Required<Omit<KeeperOptions, 'onRetry' | 'now'>> & Pick<KeeperOptions, 'onRetry' | 'now'>;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(client: AutoPayClient, options: KeeperOptions = {}) {
+    this.client = client;
+    this.options = {
+      dryRun: false,
+      retries: 3,
+      retryDelayMs: 1000,
+      pageSize: 200,
+      ...options,
+    };
+  }
+
+  /**
+   * Load every subscription, a page at a time, and keep the ones that are due now
+   * and have a pending encrypted metric. Each page's subscriptions, rules and
+   * condition handles are read in one batched round trip each
+   */
+  async findDueSubscriptions(): Promise<{ checked: number; due: Subscription[] }> {
+    // Due dates are enforced against block.timestamp, not the local clock
+    const now = this.options.now ? this.options.now() : await this.client.getChainTime();
+    const due: Subscription[] = [];
+    let total = Infinity;
+
+    for (let offset = 0; offset < total; offset += this.options.pageSize) {
+      const page = await this.client.getSubscriptionIdsPage(offset, this.options.pageSize);
+      total = page.total;
+
+      const subscriptions = (await this.client.getSubscriptions(page.ids)).filter(s => s.isActive);
+      const rules = await this.getRules(subscriptions);
+
+      const candidates = subscriptions.filter(s => isSubscriptionDue(s, rules.get(s.ruleId)!, now));
+      const handles = await this.client.getConditionHandles(candidates.map(s => s.subscriptionId));
+
+      // Nothing to evaluate until the subscriber or the rule oracle submits a metric
+      due.push(...candidates.filter((_, i) => handles[i] !== ethers.ZeroHash));
+    }
+
+    return { checked: total, due };
+  }
+
+  /**
+   * One keeper round: find due subscriptions and execute them sequentially
+   * so the signer's nonces stay ordered
+   */
+  async runOnce(): Promise<KeeperRunResult> {
+    const { checked, due } = await this.findDueSubscriptions();
+    const result: KeeperRunResult = {
+      checked,
+      due: due.map(s => s.subscriptionId),
+      executed: [],
+      skipped: [],
+      failed: [],
+    };
+
+    console.log(`🔎 Checked ${checked} subscriptions, ${due.length} due`);
+    if (this.options.dryRun) {
+      for (const subscription of due) {
+        console.log(`🧪 [dry-run] would execute ${subscription.subscriptionId} (rule ${subscription.ruleId})`);
+      }
+      return result;
+    }
+
+    const unmet = await this.findUnmetConditions(due);
+    for (const subscription of due) {
+      if (unmet.has(subscription.subscriptionId)) {
+        result.skipped.push(subscription.subscriptionId);
+        console.log(`⏭️ Skipped ${subscription.subscriptionId}: condition not met`);
+        continue;
+      }
+      try {
+        const receipt = await this.executeWithRetry(subscription.subscriptionId);
+        result.executed.push(subscription.subscriptionId);
+        console.log(`✅ Executed ${subscription.subscriptionId} in tx ${receipt.hash}`);
+      } catch (error: any) {
+        const message = error?.shortMessage || error?.message || String(error);
+        result.failed.push({ subscriptionId: subscription.subscriptionId, error: message });
+        console.error(`❌ Failed to execute ${subscription.subscriptionId}:`, message);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run a round every `pollIntervalMs` until `stop()` is called
+   */
+  start(pollIntervalMs: number): void {
+    if (this.running) return;
+    this.running = true;
+
+    const tick = async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('❌ Keeper round failed:', error);
+      }
+      if (this.running) {
+        this.timer = setTimeout(tick, pollIntervalMs);
+      }
+    };
+    tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async getRules(subscriptions: Subscription[]): Promise<Map<string, PaymentRule>> {
+    const ruleIds = [...new Set(subscriptions.map(s => s.ruleId))];
+    const rules = new Map<string, PaymentRule>();
+    (await this.client.getPaymentRules(ruleIds)).forEach(rule => rules.set(rule.ruleId, rule));
+    return rules;
+  }
+
+  /**
+   * Publicly decrypt the pending conditions of the due public-rule subscriptions, whose
+   * executePayment would revert with "Condition not met". Confidential rules' conditions
+   * are only user-decryptable, and their payments move an encrypted zero when unmet
+   */
+  private async findUnmetConditions(due: Subscription[]): Promise<Set<string>> {
+    const rules = await this.getRules(due);
+    const ids = due.filter(s => !rules.get(s.ruleId)!.isConfidential).map(s => s.subscriptionId);
+    if (ids.length === 0) return new Set();
+
+    const handles = await this.client.getConditionHandles(ids);
+    const { clearValues } = await publicDecryptV09(handles);
+    // ebool clear values come back as booleans, not bigints
+    return new Set(ids.filter((_, i) => BigInt(clearValues[handles[i]]) === 0n));
+  }
+
+  private async executeWithRetry(subscriptionId: string): Promise<ethers.ContractTransactionReceipt> {
+    let delay = this.options.retryDelayMs;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.client.executePayment(subscriptionId);
+      } catch (error) {
+        if (attempt >= this.options.retries || !isRetryable(error)) throw error;
+        console.warn(`⚠️ Attempt ${attempt} for ${subscriptionId} failed, retrying in ${delay}ms`);
+        await this.options.onRetry?.(subscriptionId, attempt, error);
+        await new Promise(res => setTimeout(res, delay));
+        delay *= 2;
+      }
+    }
+  }
+}
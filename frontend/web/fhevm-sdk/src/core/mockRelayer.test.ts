@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { MockRelayer, createMockRelayerClient } from './mockRelayer.js';
+import { RelayerUnavailableError } from './errors.js';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>;
+
+// Serve the relayer's request handler directly: start() imports http through eval,
+// which vitest's module runner cannot resolve
+async function listen(handler: http.RequestListener): Promise<http.Server> {
+  const server = http.createServer(handler);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  return server;
+}
+
+const urlOf = (server: http.Server) => `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+const close = (server: http.Server) => new Promise(resolve => server.close(resolve));
+
+describe('MockRelayer', () => {
+  let node: http.Server;
+  let server: http.Server | undefined;
+  let received: { method: string; params?: unknown[] }[];
+
+  const start = async (options = {}) => {
+    const relayer = new MockRelayer({ rpcUrl: urlOf(node), ...options });
+    const handle = (relayer as unknown as { handle: Handler }).handle.bind(relayer);
+    server = await listen((req, res) => void handle(req, res));
+    return urlOf(server);
+  };
+  const post = async (url: string, body: string) => (await fetch(url, { method: 'POST', body })).json();
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    received = [];
+
+    // The Hardhat node: answers every request with its method name
+    node = await listen(async (req, res) => {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      const request = JSON.parse(body);
+      received.push(request);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: request.id, result: `${request.method} answer` }));
+    });
+  });
+
+  afterEach(async () => {
+    if (server) await close(server);
+    server = undefined;
+    await close(node);
+    vi.restoreAllMocks();
+  });
+
+  it('forwards relayer methods to the node', async () => {
+    const client = createMockRelayerClient(await start());
+
+    await expect(client.send('fhevm_relayer_v1_input_proof', ['0x01'])).resolves.toBe('fhevm_relayer_v1_input_proof answer');
+    expect(received).toMatchObject([{ method: 'fhevm_relayer_v1_input_proof', params: ['0x01'] }]);
+  });
+
+  it('refuses every other method without asking the node', async () => {
+    const client = createMockRelayerClient(await start());
+
+    await expect(client.send('eth_sendTransaction', [])).rejects.toThrow('eth_sendTransaction is not a relayer method');
+    expect(received).toEqual([]);
+  });
+
+  it('answers batches request by request', async () => {
+    const url = await start();
+    const answer = await post(url, JSON.stringify([
+      { jsonrpc: '2.0', id: 1, method: 'fhevm_relayer_metadata' },
+      { jsonrpc: '2.0', id: 2, method: 'eth_accounts' },
+    ]));
+
+    expect(answer).toMatchObject([
+      { id: 1, result: 'fhevm_relayer_metadata answer' },
+      { id: 2, error: { code: -32601 } },
+    ]);
+  });
+
+  it('answers malformed JSON with a parse error', async () => {
+    expect(await post(await start(), '{')).toMatchObject({ id: null, error: { code: -32700 } });
+  });
+
+  it('simulates outages as RelayerUnavailableError', async () => {
+    const client = createMockRelayerClient(await start({ failureRate: 1 }));
+
+    await expect(client.send('fhevm_relayer_metadata', [])).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(received).toEqual([]);
+  });
+
+  it('allows browser preflight requests', async () => {
+    const response = await fetch(await start(), { method: 'OPTIONS' });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+  });
+});
+
+describe('createMockRelayerClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports an unreachable relayer as RelayerUnavailableError', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('fetch failed')));
+
+    await expect(createMockRelayerClient('http://127.0.0.1:1').send('fhevm_relayer_metadata', []))
+      .rejects.toBeInstanceOf(RelayerUnavailableError);
+  });
+});
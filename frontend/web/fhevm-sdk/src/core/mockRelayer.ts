@@ -0,0 +1,177 @@
+/**
+ * Local Mock Relayer - Universal SDK
+ * Stands in for the Zama relayer and KMS during offline development: input proofs
+ * and public / user decryptions are answered by a Hardhat node running the FHEVM
+ * mock engine, behind a relayer process of their own like on a real network
+ */
+
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { RelayerUnavailableError } from './errors.js';
+
+/** The only JSON-RPC methods the relayer forwards to the node */
+export const MOCK_RELAYER_METHODS = [
+  'fhevm_relayer_metadata',
+  'fhevm_relayer_v1_input_proof',
+  'fhevm_relayer_v1_public_decrypt',
+  'fhevm_relayer_v1_user_decrypt',
+];
+
+export const DEFAULT_MOCK_RELAYER_PORT = 8546;
+
+export interface MockRelayerOptions {
+  /** Hardhat node running the FHEVM mock, the KMS stand-in */
+  rpcUrl: string;
+  host?: string;
+  port?: number;
+  /** Delay added to every answer, to make loading states visible */
+  latencyMs?: number;
+  /** Share of requests (0-1) answered with a 503, to exercise RelayerUnavailableError handling */
+  failureRate?: number;
+}
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+/**
+ * Relayer provider for a MockFhevmInstance that talks to a MockRelayer over HTTP.
+ * Transport failures and outages become RelayerUnavailableError
+ */
+export function createMockRelayerClient(relayerUrl: string) {
+  let nextId = 0;
+  return {
+    async send(method: string, params: unknown[]): Promise<any> {
+      let response: Response;
+      try {
+        response = await fetch(relayerUrl, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jsonrpc: '2.0', id: ++nextId, method, params }),
+        });
+      } catch (error) {
+        throw new RelayerUnavailableError(error);
+      }
+      if (!response.ok) {
+        throw new RelayerUnavailableError(new Error(`Mock relayer answered ${response.status} ${response.statusText}`));
+      }
+
+      const { result, error } = await response.json();
+      if (error) throw new Error(error.message);
+      return result;
+    },
+  };
+}
+
+export class MockRelayer {
+  private options: Required<MockRelayerOptions>;
+  private server: Server | null = null;
+
+  constructor(options: MockRelayerOptions) {
+    this.options = {
+      host: '127.0.0.1',
+      port: DEFAULT_MOCK_RELAYER_PORT,
+      latencyMs: 0,
+      failureRate: 0,
+      ...options,
+    };
+  }
+
+  get url(): string {
+    return `http://${this.options.host}:${this.options.port}`;
+  }
+
+  /**
+   * Listen for relayer requests; Node.js only
+   */
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+
+    // Use eval to prevent bundlers from analyzing this import
+    const http: typeof import('http') = await eval('import("http")');
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('❌ Mock relayer request failed:', error);
+        if (!res.headersSent) res.writeHead(502);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      // Browsers keep connections alive, which would hold close() open
+      server.closeAllConnections?.();
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // The app calls the relayer straight from the browser
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let body = '';
+    for await (const chunk of req) body += chunk;
+
+    if (this.options.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+    }
+    if (Math.random() < this.options.failureRate) {
+      console.warn('💥 Simulated relayer outage');
+      res.writeHead(503).end();
+      return;
+    }
+
+    let payload: JsonRpcRequest | JsonRpcRequest[];
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      this.reply(res, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+
+    this.reply(res, Array.isArray(payload)
+      ? await Promise.all(payload.map(request => this.forward(request)))
+      : await this.forward(payload));
+  }
+
+  private async forward(request: JsonRpcRequest): Promise<unknown> {
+    if (!MOCK_RELAYER_METHODS.includes(request.method)) {
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32601, message: `${request.method} is not a relayer method` } };
+    }
+
+    console.log(`🔁 ${request.method}`);
+    const response = await fetch(this.options.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    return response.json();
+  }
+
+  private reply(res: ServerResponse, answer: unknown): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(answer));
+  }
+}
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { MULTICALL3_ADDRESS, Multicall } from './multicall.js';
+
+const TARGET = '0x000000000000000000000000000000000000bEEF';
+
+const targetInterface = new ethers.Interface([
+  'function double(uint256 value) view returns (uint256)',
+  'function owner() view returns (address)',
+]);
+const multicallInterface = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+]);
+const REVERT_DATA = targetInterface.encodeErrorResult('Error(string)', ['Zero']);
+
+// The target contract: double(0) reverts, anything else is doubled
+function execute(data: string): string {
+  const call = targetInterface.parseTransaction({ data })!;
+  if (call.name === 'owner') return targetInterface.encodeFunctionResult('owner', [TARGET]);
+  if (call.args[0] === 0n) {
+    throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'call',
+      data: REVERT_DATA,
+      reason: 'Zero',
+      transaction: { to: TARGET, data },
+      invocation: null,
+      revert: null,
+    });
+  }
+  return targetInterface.encodeFunctionResult('double', [call.args[0] * 2n]);
+}
+
+describe('Multicall', () => {
+  let code: string;
+  let provider: { getCode: ReturnType<typeof vi.fn>; call: ReturnType<typeof vi.fn> };
+  let target: ethers.Contract;
+
+  const values = (results: (ethers.Result | null)[]) => results.map(result => (result ? result[0] : null));
+
+  beforeEach(() => {
+    code = '0x60';
+    provider = {
+      getCode: vi.fn(async () => code),
+      call: vi.fn(async ({ to, data }: { to: string; data: string }) => {
+        if (to !== MULTICALL3_ADDRESS) return execute(data);
+
+        const [calls] = multicallInterface.decodeFunctionData('aggregate3', data);
+        const returned = calls.map(([, , callData]: [string, boolean, string]) => {
+          try {
+            return [true, execute(callData)];
+          } catch {
+            return [false, REVERT_DATA];
+          }
+        });
+        return multicallInterface.encodeFunctionResult('aggregate3', [returned]);
+      }),
+    };
+    target = new ethers.Contract(TARGET, targetInterface, provider as unknown as ethers.Provider);
+  });
+
+  const multicall = (batchSize?: number) => new Multicall(provider as unknown as ethers.Provider, { batchSize });
+
+  it('batches the calls through aggregate3 and decodes each result', async () => {
+    const results = await multicall(2).callEach(target, 'double', [[1], [0], [3]]);
+
+    expect(values(results)).toEqual([2n, null, 6n]);
+    expect(provider.call).toHaveBeenCalledTimes(2);
+    expect(provider.call.mock.calls.every(([tx]) => tx.to === MULTICALL3_ADDRESS)).toBe(true);
+  });
+
+  it('decodes different methods in one batch', async () => {
+    const results = await multicall().callMany(target, [
+      { method: 'owner', args: [] },
+      { method: 'double', args: [21] },
+    ]);
+
+    expect(values(results)).toEqual([TARGET, 42n]);
+    expect(provider.call).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to one eth_call per request where Multicall3 is not deployed', async () => {
+    code = '0x';
+    const reader = multicall();
+
+    expect(values(await reader.callEach(target, 'double', [[1], [0]]))).toEqual([2n, null]);
+    expect(values(await reader.callEach(target, 'double', [[5]]))).toEqual([10n]);
+
+    expect(provider.call.mock.calls.map(([tx]) => tx.to)).toEqual([TARGET, TARGET, TARGET]);
+    expect(provider.getCode).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the revert data of a failed fallback call', async () => {
+    code = '0x';
+    const data = targetInterface.encodeFunctionData('double', [0]);
+
+    expect(await multicall().aggregate([{ target: TARGET, callData: data }])).toEqual([
+      { success: false, returnData: REVERT_DATA },
+    ]);
+  });
+
+  it('fails the batch on errors other than reverts', async () => {
+    code = '0x';
+    provider.call.mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(multicall().callEach(target, 'double', [[1]])).rejects.toThrow('connection refused');
+  });
+
+  it('makes no request for an empty batch', async () => {
+    expect(await multicall().aggregate([])).toEqual([]);
+    expect(provider.getCode).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown methods', async () => {
+    await expect(multicall().callEach(target, 'missing', [[]])).rejects.toThrow(/Unknown contract method: missing/);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Multicall3 Batch Reader - Universal SDK
+ * Packs many view calls into one eth_call through the canonical Multicall3
+ * deployment, falling back to parallel calls on chains without it
+ */
+
+import { ethers } from 'ethers';
+
+/** Same address on every chain it is deployed to, see https://www.multicall3.com */
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+export interface MulticallRequest {
+  target: string;
+  callData: string;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+export interface MulticallOptions {
+  /** Override for chains where Multicall3 lives elsewhere */
+  address?: string;
+  /** Calls per eth_call, keeping each request under node gas / size limits (default: 200) */
+  batchSize?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 200;
+
+export class Multicall {
+  private provider: ethers.Provider;
+  private contract: ethers.Contract;
+  private batchSize: number;
+  private available: Promise<boolean> | null = null;
+
+  constructor(provider: ethers.Provider, options: MulticallOptions = {}) {
+    this.provider = provider;
+    this.contract = new ethers.Contract(options.address ?? MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Whether Multicall3 is deployed on the connected chain (checked once)
+   */
+  isAvailable(): Promise<boolean> {
+    if (!this.available) {
+      this.available = this.contract.getAddress()
+        .then(address => this.provider.getCode(address))
+        .then(code => code !== '0x');
+    }
+    return this.available;
+  }
+
+  /**
+   * Run every call; a reverting call yields `success: false` instead of failing the batch
+   */
+  async aggregate(requests: MulticallRequest[]): Promise<MulticallResult[]> {
+    if (requests.length === 0) return [];
+
+    if (!(await this.isAvailable())) {
+      // Local Hardhat nodes have no Multicall3: fall back to one eth_call per request
+      return Promise.all(requests.map(async ({ target, callData }) => {
+        try {
+          return { success: true, returnData: await this.provider.call({ to: target, data: callData }) };
+        } catch (error) {
+          if (!ethers.isError(error, 'CALL_EXCEPTION')) throw error;
+          return { success: false, returnData: error.data ?? '0x' };
+        }
+      }));
+    }
+
+    const results: MulticallResult[] = [];
+    for (let i = 0; i < requests.length; i += this.batchSize) {
+      const batch = requests.slice(i, i + this.batchSize).map(({ target, callData }) => ({
+        target,
+        allowFailure: true,
+        callData,
+      }));
+      const returned = await this.contract.aggregate3.staticCall(batch);
+      for (const { success, returnData } of returned) {
+        results.push({ success, returnData });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Call several methods of `contract` in one batch and decode the results
+   * (null where the call reverted)
+   */
+  async callMany(
+    contract: ethers.BaseContract,
+    calls: { method: string; args: unknown[] }[]
+  ): Promise<(ethers.Result | null)[]> {
+    const target = await contract.getAddress();
+    const fragments = calls.map(({ method }) => {
+      const fragment = contract.interface.getFunction(method);
+      if (!fragment) throw new Error(`Unknown contract method: ${method}`);
+      return fragment;
+    });
+
+    const results = await this.aggregate(calls.map(({ args }, i) => ({
+      target,
+      callData: contract.interface.encodeFunctionData(fragments[i], args),
+    })));
+    return results.map(({ success, returnData }, i) =>
+      success ? contract.interface.decodeFunctionResult(fragments[i], returnData) : null
+    );
+  }
+
+  /**
+   * Call `method` of `contract` once per argument list
+   */
+  callEach(contract: ethers.BaseContract, method: string, argsList: unknown[][]): Promise<(ethers.Result | null)[]> {
+    return this.callMany(contract, argsList.map(args => ({ method, args })));
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Network Registry - Universal SDK
+ * Chain ids, RPC URLs, FHEVM host/gateway addresses and AutoPay deployments.
+ * networks.json is shared with the frontend, hardhat.config.ts and the deploy script
+ */
+
+import registry from '../networks.json' with { type: 'json' };
+
+export interface FhevmContractsConfig {
+  /**
+   * Zama relayer; on a mock network the local mock relayer (`autopay-relayer`),
+   * or null to send relayer requests straight to the Hardhat node
+   */
+  relayerUrl: string | null;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  /** Tried in order; the first one is the primary endpoint */
+  rpcUrls: string[];
+  blockExplorerUrl: string | null;
+  /** Hardhat node running the FHEVM mock engine instead of a real relayer */
+  mock: boolean;
+  fhevm: FhevmContractsConfig;
+  /** Written by deploy/deploy.ts */
+  autoPayAddress: string | null;
+  /** Block of the AutoPaySystem deployment, where event indexing starts */
+  autoPayDeployBlock: number | null;
+  /** ERC-2771 forwarder AutoPaySystem trusts, written by deploy/deploy.ts */
+  forwarderAddress: string | null;
+  /** Relay submitting signed forward requests (`autopay-forward-relay`), null for no gasless calls */
+  forwardRelayUrl: string | null;
+}
+
+export const DEFAULT_NETWORK = 'sepolia';
+
+const networks: Record<string, NetworkConfig> = { ...(registry as Record<string, NetworkConfig>) };
+
+export function getNetworks(): Record<string, NetworkConfig> {
+  return networks;
+}
+
+/**
+ * Add or override a network at runtime, e.g. a fork or another FHEVM chain
+ */
+export function registerNetwork(key: string, config: NetworkConfig): void {
+  networks[key] = config;
+}
+
+export function findNetwork(keyOrChainId: string | number): { key: string; network: NetworkConfig } | undefined {
+  if (typeof keyOrChainId === 'string' && networks[keyOrChainId]) {
+    return { key: keyOrChainId, network: networks[keyOrChainId] };
+  }
+  const chainId = Number(keyOrChainId);
+  const key = Object.keys(networks).find(k => networks[k].chainId === chainId);
+  return key ? { key, network: networks[key] } : undefined;
+}
+
+/**
+ * Look a network up by registry key or chain id (number, decimal or 0x-hex string)
+ */
+export function getNetwork(keyOrChainId: string | number): NetworkConfig {
+  const found = findNetwork(keyOrChainId);
+  if (!found) {
+    throw new Error(`Unsupported network: ${keyOrChainId}. Known networks: ${Object.keys(networks).join(', ')}`);
+  }
+  return found.network;
+}
+
+export function getAutoPayAddress(keyOrChainId: string | number): string {
+  const network = getNetwork(keyOrChainId);
+  if (!network.autoPayAddress) {
+    throw new Error(`AutoPaySystem is not deployed on ${network.name}`);
+  }
+  return network.autoPayAddress;
+}
+
+/**
+ * Relayer SDK instance config for a non-mock network
+ */
+export function toFhevmInstanceConfig(network: NetworkConfig) {
+  const { relayerUrl, ...contracts } = network.fhevm;
+  return {
+    ...contracts,
+    chainId: network.chainId,
+    relayerUrl: relayerUrl ?? undefined,
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { trackTransaction } from './transactions.js';
+import type { TransactionUpdate } from './transactions.js';
+import { ContractRevertError, FhevmError, UserRejectedError } from './errors.js';
+
+const HASH = ethers.id('tx');
+const REPLACEMENT_HASH = ethers.id('replacement');
+const iface = new ethers.Interface(['error Unauthorized(address caller)']);
+
+function sent(wait: () => Promise<unknown>) {
+  return async () => ({ hash: HASH, wait: vi.fn(wait) }) as unknown as ethers.ContractTransactionResponse;
+}
+
+function replaced(reason: 'repriced' | 'cancelled' | 'replaced') {
+  return ethers.makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+    cancelled: reason !== 'repriced',
+    reason,
+    hash: HASH,
+    replacement: { hash: REPLACEMENT_HASH } as ethers.TransactionResponse,
+    receipt: { hash: REPLACEMENT_HASH, status: 1 } as ethers.TransactionReceipt,
+  });
+}
+
+function track(submit: () => Promise<ethers.ContractTransactionResponse>) {
+  const updates: TransactionUpdate[] = [];
+  const result = trackTransaction(submit, update => updates.push(update), iface);
+  return { result, updates, stages: () => updates.map(u => u.stage) };
+}
+
+describe('trackTransaction', () => {
+  it('goes from signing through pending to mined', async () => {
+    const receipt = { hash: HASH, status: 1 };
+    const { result, updates, stages } = track(sent(async () => receipt));
+
+    await expect(result).resolves.toBe(receipt);
+    expect(stages()).toEqual(['signing', 'pending', 'mined']);
+    expect(updates[1].hash).toBe(HASH);
+    expect(updates[2].receipt).toBe(receipt);
+  });
+
+  it('fails at signing when the wallet rejects', async () => {
+    const rejection = ethers.makeError('user rejected action', 'ACTION_REJECTED', {
+      action: 'sendTransaction',
+      reason: 'rejected',
+    });
+    const { result, updates, stages } = track(async () => {
+      throw rejection;
+    });
+
+    await expect(result).rejects.toBeInstanceOf(UserRejectedError);
+    expect(stages()).toEqual(['signing', 'failed']);
+    expect(updates[1].error).toBe('Request rejected in wallet');
+  });
+
+  it('fails with the decoded reason when the transaction reverts', async () => {
+    const revert = ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+      action: 'sendTransaction',
+      data: iface.encodeErrorResult('Unauthorized', [ethers.ZeroAddress]),
+      reason: null,
+      transaction: { to: null, data: '0x' },
+      invocation: null,
+      revert: null,
+    });
+    const { result, updates, stages } = track(sent(async () => {
+      throw revert;
+    }));
+
+    await expect(result).rejects.toBeInstanceOf(ContractRevertError);
+    expect(stages()).toEqual(['signing', 'pending', 'failed']);
+    expect(updates[2].error).toBe(`Unauthorized(${ethers.ZeroAddress})`);
+  });
+
+  it('fails when no receipt comes back', async () => {
+    const { result, stages } = track(sent(async () => null));
+
+    await expect(result).rejects.toThrow('Transaction receipt is null');
+    expect(stages()).toEqual(['signing', 'pending', 'failed']);
+  });
+
+  it('resolves with the replacement receipt of a repriced transaction', async () => {
+    const error = replaced('repriced');
+    const { result, updates, stages } = track(sent(async () => {
+      throw error;
+    }));
+
+    await expect(result).resolves.toBe(error.receipt);
+    expect(stages()).toEqual(['signing', 'pending', 'replaced']);
+    expect(updates[2]).toMatchObject({ hash: HASH, replacementHash: REPLACEMENT_HASH, error: undefined });
+  });
+
+  it.each(['cancelled', 'replaced'] as const)('rejects with an FhevmError when %s', async reason => {
+    const { result, updates, stages } = track(sent(async () => {
+      throw replaced(reason);
+    }));
+
+    const error = await result.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(FhevmError);
+    expect((error as FhevmError).cause).toMatchObject({ code: 'TRANSACTION_REPLACED', reason });
+    expect(stages()).toEqual(['signing', 'pending', 'replaced']);
+    expect(updates[2]).toMatchObject({ replacementHash: REPLACEMENT_HASH, error: `Transaction ${reason}` });
+  });
+
+  it('works without an observer', async () => {
+    const receipt = { hash: HASH, status: 1 };
+    await expect(trackTransaction(sent(async () => receipt))).resolves.toBe(receipt);
+  });
+});
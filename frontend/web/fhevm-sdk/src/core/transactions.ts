@@ -0,0 +1,70 @@
+/**
+ * Transaction Lifecycle - Universal SDK
+ * Reports each write through encrypting → signing → pending → mined / failed / replaced
+ */
+
+import { ethers } from 'ethers';
+import { toFhevmError } from './errors.js';
+
+export type TransactionStage = 'encrypting' | 'signing' | 'pending' | 'mined' | 'failed' | 'replaced';
+
+export interface TransactionUpdate {
+  stage: TransactionStage;
+  /** Set from `pending` on */
+  hash?: string;
+  receipt?: ethers.TransactionReceipt;
+  /** Transaction that took the nonce (`replaced` only) */
+  replacementHash?: string;
+  /** Human readable revert or rejection reason (`failed`, and `replaced` when cancelled) */
+  error?: string;
+}
+
+export type TransactionObserver = (update: TransactionUpdate) => void;
+
+/**
+ * Send a transaction and follow it to its receipt, reporting every stage to `observer`.
+ * A repriced replacement (same call, higher fee) resolves with the replacement's receipt;
+ * a cancelled or different replacement rejects. Failures are rethrown as FhevmErrors,
+ * reverts as a ContractRevertError with the reason decoded through `iface`
+ */
+export async function trackTransaction(
+  submit: () => Promise<ethers.ContractTransactionResponse>,
+  observer?: TransactionObserver,
+  iface?: ethers.Interface
+): Promise<ethers.ContractTransactionReceipt> {
+  const fail = (error: unknown): never => {
+    const typed = toFhevmError(error, iface);
+    observer?.({ stage: 'failed', error: typed.message });
+    throw typed;
+  };
+
+  observer?.({ stage: 'signing' });
+  let tx: ethers.ContractTransactionResponse;
+  try {
+    tx = await submit();
+  } catch (error) {
+    return fail(error);
+  }
+
+  observer?.({ stage: 'pending', hash: tx.hash });
+  try {
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error("Transaction receipt is null");
+    }
+    observer?.({ stage: 'mined', hash: tx.hash, receipt });
+    return receipt;
+  } catch (error) {
+    if (!ethers.isError(error, 'TRANSACTION_REPLACED')) return fail(error);
+
+    observer?.({
+      stage: 'replaced',
+      hash: tx.hash,
+      replacementHash: error.replacement.hash,
+      receipt: error.receipt,
+      error: error.cancelled ? `Transaction ${error.reason}` : undefined,
+    });
+    if (error.cancelled) throw toFhevmError(error, iface);
+    return error.receipt as ethers.ContractTransactionReceipt;
+  }
+}
@@ -7,5 +7,5 @@
 export * from './core/index.js';
 
 // Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt, useUserDecrypt, usePaymentHistory } from './adapters/react.js';
 
@@ -0,0 +1,443 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../common.js";
+import type {
+  AutoPayForwarder,
+  AutoPayForwarderInterface,
+} from "../AutoPayForwarder.js";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint48",
+        name: "deadline",
+        type: "uint48",
+      },
+    ],
+    name: "ERC2771ForwarderExpiredRequest",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+    ],
+    name: "ERC2771ForwarderInvalidSigner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestedValue",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "msgValue",
+        type: "uint256",
+      },
+    ],
+    name: "ERC2771ForwarderMismatchedValue",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ERC2771ForwarderNoRefundReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "target",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "forwarder",
+        type: "address",
+      },
+    ],
+    name: "ERC2771UntrustfulTarget",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FailedCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientBalance",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "currentNonce",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidAccountNonce",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "signer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "success",
+        type: "bool",
+      },
+    ],
+    name: "ExecutedForwardRequest",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "from",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "to",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "gas",
+            type: "uint256",
+          },
+          {
+            internalType: "uint48",
+            name: "deadline",
+            type: "uint48",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+          {
+            internalType: "bytes",
+            name: "signature",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct ERC2771Forwarder.ForwardRequestData",
+        name: "request",
+        type: "tuple",
+      },
+    ],
+    name: "execute",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "from",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "to",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "gas",
+            type: "uint256",
+          },
+          {
+            internalType: "uint48",
+            name: "deadline",
+            type: "uint48",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+          {
+            internalType: "bytes",
+            name: "signature",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct ERC2771Forwarder.ForwardRequestData[]",
+        name: "requests",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address payable",
+        name: "refundReceiver",
+        type: "address",
+      },
+    ],
+    name: "executeBatch",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "from",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "to",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "gas",
+            type: "uint256",
+          },
+          {
+            internalType: "uint48",
+            name: "deadline",
+            type: "uint48",
+          },
+          {
+            internalType: "bytes",
+            name: "data",
+            type: "bytes",
+          },
+          {
+            internalType: "bytes",
+            name: "signature",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct ERC2771Forwarder.ForwardRequestData",
+        name: "request",
+        type: "tuple",
+      },
+    ],
+    name: "verify",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6101608060405234610148576100148161014c565b60108152602081016f20baba37a830bca337b93bb0b93232b960811b81526040519161003f8361014c565b6001835260208301603160f81b815261005782610167565b9261012093845261006785610167565b92610140938452519020938460e05251902091610100938385524660a0526040519360208501917f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f8352604086015260608501524660808501523060a085015260a0845260c084019380851060018060401b0386111761013457846040525190206080523060c052610cb493846101f1853960805184610b28015260a05184610bf4015260c05184610af2015260e05184610b7701525183610b9d015251826104ff015251816105290152f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b604081019081106001600160401b0382111761013457604052565b601f815111610192576020815191015160208210610183571790565b5f198260200360031b1b161790565b6040519063305a27a960e01b82528160208060048301528251908160248401525f935b8285106101d7575050604492505f838284010152601f80199101168101030190fd5b84810182015186860160440152938101938593506101b556fe60406080815260049081361015610014575f80fd5b5f3560e01c806319d8d38c146106245780637ecebe00146105db57806384b0196e146104e5578063ccf96b4a1461025d5763df905caf14610053575f80fd5b61005c36610669565b8181013590813403610241575f91610073826107a9565b92919082156102015781156101d6578015610197578261018f575b5081610187575b506100b2575b505050156100a557005b5163d6bda27560e01b8152fd5b9091925060018060a01b031690815f5260026020525f80858120928354936001850190556060860135956100e860208201610782565b9161010661013d60346100fe60a08601866109d2565b939095610782565b928c5193818592602084019889378201906bffffffffffffffffffffffff199060601b166020820152036014810184520182610709565b519288f192603f5a91041161018557837f842fb24a83793558587a3dab2be7674da4a51d09c5542d6dd354e5d0ea70813c9181519081528415156020820152a25f808061009b565bfe5b90505f610095565b91505f61008e565b83896101d28a6101a68a610782565b9051636422d02b60e11b81526001600160a01b0394851693810193845293166020830152829160400190565b0390fd5b6024888a65ffffffffffff6101ed60808b01610796565b9251634a777ac560e11b8152921690820152fd5b88886101d261021260208a01610782565b915163d2650cd160e01b81526001600160a01b0390921692820192835230602084015290918291604090910190565b5090516370647f7960e01b815291820152346024820152604490fd5b50806003193601126104e15781359067ffffffffffffffff908183116104e157366023840112156104e157828401359182116104e157602480840193602436918560051b0101116104e157602435926001600160a01b03918285168086036104e1575f9690159387938493925b8185106103215750505050503481036103055750836102e557005b6102f657506102f49250610a05565b005b516339c6e3b760e01b81528390fd5b856044918451916370647f7960e01b8352820152346024820152fd5b909192939461033e908861033688868661072b565b013590610761565b9461034a81848461072b565b885f91868a610358836107a9565b93610481575b82610479575b5081610471575b506103a2575b5050505015610387575b600101939291906102ca565b9861039a600191896103368d878761072b565b99905061037b565b90919293501690815f526020600281525f8085812093845494600186019055606080820135976103d3868401610782565b908661042560346103e760a08801886109d2565b9390966103f389610782565b9085875196879485019a8b378301916bffffffffffffffffffffffff19911b168c820152036014810184520182610709565b519301359089f193603f5a910411610185577f842fb24a83793558587a3dab2be7674da4a51d09c5542d6dd354e5d0ea70813c918c91825191825285151590820152a2885f8681610371565b90505f61036b565b91505f610364565b9193509193945082156104cf5781156104b75780156104a657918d9493918a9361035e565b5050508d6101d28c6101a685610782565b508f8d8b9165ffffffffffff6101ed60808901610796565b508f8d6101d261021260208801610782565b5f80fd5b50346104e1575f3660031901126104e15761057f906105237f0000000000000000000000000000000000000000000000000000000000000000610a74565b9061054d7f0000000000000000000000000000000000000000000000000000000000000000610a74565b61058c82519261055c846106d9565b5f84526020928151968796600f60f81b885260e0602089015260e088019061069b565b918683039087015261069b565b4660608501523060808501525f60a085015283810360c0850152602080845192838152019301915f5b8281106105c457505050500390f35b8351855286955093810193928101926001016105b5565b5090346104e15760203660031901126104e15735906001600160a01b03821682036104e15761061d60209260018060a01b03165f52600260205260405f205490565b9051908152f35b50346104e15760209061063e61063936610669565b6107a9565b509082939293610661575b5082610659575b50519015158152f35b915083610650565b925084610649565b600319906020818301126104e1576004359167ffffffffffffffff83116104e1578260e0920301126104e15760040190565b91908251928382525f5b8481106106c5575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016106a5565b6020810190811067ffffffffffffffff8211176106f557604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176106f557604052565b919081101561074d5760051b8101359060de19813603018212156104e1570190565b634e487b7160e01b5f52603260045260245ffd5b9190820180921161076e57565b634e487b7160e01b5f52601160045260245ffd5b356001600160a01b03811681036104e15790565b3565ffffffffffff811681036104e15790565b6107b281610782565b91602090818301926107c384610782565b926040936107ed6107d384610782565b6001600160a01b03165f9081526002602052604090205490565b9660808401906107fc82610796565b9861080a60a08701876109d2565b929067ffffffffffffffff938481116106f5578a5190610833601f8201601f19168a0183610709565b8082528882019236828201116104e157815f928b92863783010152519020895192878401927f7f96328b83274ebc7c1cf4f7a3abda602b51a78b7fa1d86a2ce353d75e587cac845260018060a01b0397888092168d8701521660608501528a8901356080850152606089013560a085015260c084015265ffffffffffff809c1660e084015261010090818401528252610120820190828210848311176106f557610911926042928b525190206108e7610aef565b908a519161190160f01b8352600283015260228201522061090b60c08801886109d2565b91610abb565b5060048199929910156109be57610929901599610782565b81518681019063572b6c0560e01b8252306024820152602481526060810194818610908611176106f55787945f945251915afa5f5190933d856109b3575b5050836109a7575b5061097990610796565b928661098d575b5050944291161015929190565b8192965061099a90610782565b1690841614935f80610980565b1515925061097961096f565b101593505f80610967565b634e487b7160e01b5f52602160045260245ffd5b903590601e19813603018212156104e1570180359067ffffffffffffffff82116104e1576020019181360383136104e157565b814710610a55575f808093819382604051610a1f816106d9565b526001600160a01b03165af115610a3257565b3d15610a43576040513d5f823e3d90fd5b60405163d6bda27560e01b8152600490fd5b60405163cf47918160e01b815247600482015260248101839052604490fd5b60ff811690601f8211610aa957604051916040830183811067ffffffffffffffff8211176106f5576040528252602082015290565b604051632cd44ac360e21b8152600490fd5b9060418303610ae557610ade9250602081013591604082359201355f1a90610c1a565b9192909190565b50505f9160029190565b307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161480610bf1575b15610b4a577f000000000000000000000000000000000000000000000000000000000000000090565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f000000000000000000000000000000000000000000000000000000000000000060408201527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260a0815260c0810181811067ffffffffffffffff8211176106f55760405251902090565b507f00000000000000000000000000000000000000000000000000000000000000004614610b21565b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411610c9c579160209360809260ff5f9560405194855216868401526040830152606082015282805260015afa15610c91575f516001600160a01b03811615610c8757905f905f90565b505f906001905f90565b6040513d5f823e3d90fd5b5050505f916003919056fea164736f6c6343000818000a";
+
+type AutoPayForwarderConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AutoPayForwarderConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AutoPayForwarder__factory extends ContractFactory {
+  constructor(...args: AutoPayForwarderConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      AutoPayForwarder & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AutoPayForwarder__factory {
+    return super.connect(runner) as AutoPayForwarder__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AutoPayForwarderInterface {
+    return new Interface(_abi) as AutoPayForwarderInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AutoPayForwarder {
+    return new Contract(address, _abi, runner) as unknown as AutoPayForwarder;
+  }
+}
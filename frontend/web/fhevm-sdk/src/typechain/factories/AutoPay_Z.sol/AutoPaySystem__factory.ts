@@ -0,0 +1,1894 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common.js";
+import type {
+  AutoPaySystem,
+  AutoPaySystemInterface,
+} from "../../AutoPay_Z.sol/AutoPaySystem.js";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "forwarder",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReentrancyGuardReentrantCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    name: "SafeERC20FailedOperation",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    name: "ConfidentialPaymentExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "ConsentRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EscrowDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "EscrowWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "submitter",
+        type: "address",
+      },
+    ],
+    name: "MetricSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PaymentExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+    ],
+    name: "PaymentRuleCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "RuleDescriptionUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oracle",
+        type: "address",
+      },
+    ],
+    name: "RuleOracleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "RuleRecipientUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isActive",
+        type: "bool",
+      },
+    ],
+    name: "RuleStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "RuleTermsAccepted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "RuleTermsDeclined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "effectiveAt",
+        type: "uint256",
+      },
+    ],
+    name: "RuleTermsProposed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "SpendingLimitsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+    ],
+    name: "SubscriptionCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+    ],
+    name: "SubscriptionDisabled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxPayments",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTimestamp",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionEndUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "SubscriptionExpired",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "resumeAt",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionPaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "SubscriptionResumed",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "SPEND_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "SUBSCRIPTION_CONSENT_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TERMS_NOTICE_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "acceptRuleTerms",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedThreshold",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "paymentInterval",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "createConfidentialPaymentRule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedThreshold",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "paymentInterval",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "createPaymentRule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+    ],
+    name: "createSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "createSubscriptionWithConsent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "declineRuleTerms",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "declinedTermsVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "depositEscrow",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+    ],
+    name: "disableRule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "disableSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+    ],
+    name: "enableRule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "escrowBalances",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "executeConfidentialPayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearValue",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "executePayment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllRuleIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllSubscriptionIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "getConditionHandle",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+    ],
+    name: "getPaymentRule",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "period",
+        type: "uint256",
+      },
+    ],
+    name: "getPeriodSpendHandle",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "getRecipientSpendHandle",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getRuleIdsByCreator",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getRuleIdsPage",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+    ],
+    name: "getRuleSubscriptions",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getRuleSubscriptionsPage",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+    ],
+    name: "getRuleTermsCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+    ],
+    name: "getSpendTotalHandle",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "getSpendingLimitHandles",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "periodCap",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "budget",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "getSubscription",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getSubscriptionIdsBySubscriber",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getSubscriptionIdsPage",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "period",
+        type: "uint256",
+      },
+    ],
+    name: "getSubscriptionSpendHandles",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "total",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "periodTotal",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "forwarder",
+        type: "address",
+      },
+    ],
+    name: "isTrustedForwarder",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "nextDueTimestamp",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "resumeAt",
+        type: "uint256",
+      },
+    ],
+    name: "pauseSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedThreshold",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "proposeRuleTerms",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "resumeSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+    ],
+    name: "revokeConsent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "ruleOracles",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "ruleTerms",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedThreshold",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "effectiveAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "oracle",
+        type: "address",
+      },
+    ],
+    name: "setRuleOracle",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedPeriodCap",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedBudget",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setSpendingLimits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "maxPayments",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTimestamp",
+        type: "uint256",
+      },
+    ],
+    name: "setSubscriptionEnd",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedMetric",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitEncryptedMetric",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+    ],
+    name: "subscriptionTermsVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "trustedForwarder",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "updateRuleDescription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "ruleId",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+    ],
+    name: "updateRuleRecipient",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "usedConsentNonces",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "subscriptionId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "withdrawEscrow",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x610180346200039e57601f620062d138819003918201601f19168301926001600160401b0392909190838511838610176200029457808392604096875283396020928391810103126200039e5751906001600160a01b039081831683036200039e578451916200006f83620003be565b600d8352818301916c4175746f50617953797374656d60981b83528651916200009883620003be565b6001835281830190603160f81b8252620000b162000467565b5046600103620002a857620000c562000467565b508851620000d381620003a2565b5f81525f848201525f8a820152905b89818351169260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790558286820151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790550151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029182541617905560017f9b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f0055620001a385620003da565b93610120948552620001b584620003da565b95610140968752519020928360e05251902096610100978089524660a0528151928301937f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f85528284015260608301524660808301523060a083015260a0825260c08201968288109088111762000294578690525190206080523060c052610160928352615e49948562000488863960805185615a6d015260a05185615b38015260c05185615a37015260e05185615abc01525184615ae201525183611e4f01525182611e7901525181818161229a0152818161298801526147b70152f35b634e487b7160e01b5f52604160045260245ffd5b4662aa36a7036200031b57620002bd62000467565b508851620002cb81620003a2565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c1278482015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8a82015290620000e2565b46617a69036200038d576200032f62000467565b5088516200033d81620003a2565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd248482015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8a82015290620000e2565b88516373cac13b60e01b8152600490fd5b5f80fd5b606081019081106001600160401b038211176200029457604052565b604081019081106001600160401b038211176200029457604052565b601f81511162000407576020815191015160208210620003f8571790565b5f198260200360031b1b161790565b6040519063305a27a960e01b82528160208060048301528251908160248401525f935b8285106200044d575050604492505f838284010152601f80199101168101030190fd5b84810182015186860160440152938101938593506200042a565b604051906200047682620003a2565b5f604083828152826020820152015256fe60806040526004361015610011575f80fd5b5f803560e01c80620ae02f1461399f57806304a8033b146138e8578063062107cf14613853578063089fd67e146137a15780631108ce821461374857806312ed89ba146136f757806316a0042c146136945780631946aa891461328d5780632280ca5314613237578063241a0a691461317c5780632a5411bc1461303c5780633247f30414612bd457806340ee684c14612ac057806352760c9714612a57578063544d069714612a255780635591d795146129bc578063572b6c051461296757806357fd129e146127ee5780635e1e576e146127a457806367197023146127475780636f6da483146126eb578063713ae60114612697578063793ad58c146122fb5780637a8ff0f9146122c95780637da0a877146122845780637fbdb97d14612224578063831ce1d71461204657806383b378a914611f2f57806384b0196e14611e35578063856c71dd14611e1957806385df9d4814611d825780638927b03014611d675780638b102bdd14611c9057806397ae9c3514611b7d5780639b3f3fff14611b41578063ab66bb8514611b23578063aded7c4414611a38578063af7f4b6714611970578063afa492dc14611914578063b711441e1461187a578063b71e7d4414611817578063b7e90d14146117ca578063b8b0c6c81461127d578063bb2ab2ee146111a6578063c54089b514610c21578063cd598d4d14610b21578063cea2d67c14610ad8578063d38e6848146109fb578063d7c8c5631461090e578063d9040682146105f4578063dc93ed78146105b9578063e42401d414610575578063f9514c9c14610557578063fa8acceb146104295763fc1fc48614610276575f80fd5b34610426576080366003190112610426576001600160401b03600435818111610422576102a7903690600401613acc565b916064359080821161041e576103326102c761032a933690600401613acc565b93906102d38787614720565b61030c6102de61478c565b604051898982376004818b019081528190036020019020600201546001600160a01b03918216911614613e30565b61032261031a368784613daf565b60243561582d565b943691613daf565b60443561582d565b61033c30846159e0565b61034d61034761478c565b846159e0565b61035730826159e0565b61036861036261478c565b826159e0565b6040519260408401928484109084111761040a5760019260405283526020830190815260405185858237602081878101600c8152030190209251835551910155604051828282376020818481016008815203019020546103fb575b81604051928392833781015f81520390207fe48d801a6e2cd9812ab409eab17f2d50cbe99c42f6dafe6d95f798c79d4bcfa38280a280f35b61040582826154a9565b6103c3565b634e487b7160e01b5f52604160045260245ffd5b8480fd5b8280fd5b80fd5b5034610426576020366003190112610426576004356001600160401b0381116105535761045c6020913690600401613acc565b61046881839493614720565b61047061478c565b604051828582378281016004815260028260018060a01b039687948594030190200154169116036104fd57600460405182858237602081848101848152030190200160ff1981541690556104c261478c565b9281604051928392833781015f81520390209116907e586700ac1e9e605d85e391fefddc1338da4af8f1356e709b87c780501b948c8380a380f35b60405162461bcd60e51b815260206004820152602860248201527f4f6e6c7920737562736372696265722063616e2064697361626c65207375627360448201526731b934b83a34b7b760c11b6064820152608490fd5b5080fd5b5034610426578060031936011261042657602060405162093a808152f35b503461042657602036600319011261042657600435906001600160401b0382116104265760206105b16105ab3660048601613acc565b906146c6565b604051908152f35b503461042657806003193601126104265760206040517fe340f2b97a9637245c73beab2a97c7a8d73a6ba8000fc8fb849aae500aaf7b7d8152f35b5034610426576060366003190112610426576001600160401b0360043581811161042257610626903690600401613acc565b60449291923591821161090a576106436002923690600401613acc565b9061064e8386614720565b604051908386833781848101600481526020938491030190209261067860ff600486015416613e8c565b61068a61068485615490565b15614681565b60018401936106b460ff600860405187816106a5818c614061565b8d8152030190200154166140fe565b6106bc61478c565b9601546001600160a01b039687169087161480156108bb575b15610862576107298361071c6107146107369583958c8b6106f681836146c6565b9889928260405193849283378101600a815203019020553691613daf565b60243561592b565b9560405192838092614061565b6003815203019020613e03565b5054821561084f575b80829115610841575b6064865f80516020615ddd833981519152541694896040519687948593631391547f60e01b85526004850152602484015260ff60f81b821660448401525af1918215610836578692610803575b506107a030836159e0565b6040519083868337818481016009815203019020556107bf81846154a9565b6107c761478c565b9281604051928392833781015f81520390209116907f85a69dc373aff6e6e0292069a4b3065f88d295a4721bb636153e6e163dfa360c8380a380f35b9080925081813d831161082f575b61081b8183613d73565b8101031261082b5751905f610795565b5f80fd5b503d610811565b6040513d88823e3d90fd5b5061084a6157db565b610748565b91508061085a6157db565b92905061073f565b60405162461bcd60e51b815260048101849052602b60248201527f4f6e6c792073756273637269626572206f72206f7261636c652063616e20737560448201526a626d6974206d657472696360a81b6064820152608490fd5b508560405184816108cc8189614061565b60078152030190205416151580156106d557506108e761478c565b868060405186816108f8818b614061565b600781520301902054169116146106d5565b8380fd5b5034610426576020366003190112610426576004356001600160401b038111610553577fd92fa9a95d5b69ec5ce06bcafb701c6a89927b75a1b0731d6390ef5b184d0fb26109626020923690600401613acc565b61096e818395936153b2565b94906008600361099688604051888161098a8160018a01614061565b86815203019020613e03565b5001549188600982015587604051868682378781888101600b815203019020550180548281159182156109f1575b50506109e9575b505081604051928392833781015f815203902092604051908152a280f35b555f806109cb565b119050825f6109c4565b5034610426576020366003190112610426576004356001600160401b03811161055357610a2c903690600401613acc565b90610a3782826153b2565b928360405182858237602081848101600b8152030190205414610a9a577f51f01e2ea99475010551e11b58679f244c1349ac2cb3ed5259045a3741477d1d92846009602094015581604051928392833781015f815203902092604051908152a280f35b60405162461bcd60e51b815260206004820152601660248201527515195c9b5cc8185b1c9958591e48191958db1a5b995960521b6044820152606490fd5b50346104265760403660031901126104265760209060ff906040906001600160a01b03610b03613b2f565b16815260168452818120602435825284522054166040519015158152f35b5034610426576020366003190112610426576004356001600160401b03811161055357610b52903690600401613acc565b90610b5d8282614720565b6005604051838382376020818581016004815203019020610b97610b7f61478c565b60028301546001600160a01b03918216911614613e30565b018054421015610bdc5783905581604051928392833781015f81520390207f63918ec90ba77e1cad81e892def78bcb4e44c663e09b121f069a7f27d29c88818280a280f35b60405162461bcd60e51b815260206004820152601a60248201527f537562736372697074696f6e206973206e6f74207061757365640000000000006044820152606490fd5b50346104265760031990606036830112610426576001600160401b0360043581811161042257610c55903690600401613acc565b909360249485358481116111a257610c71903690600401613de5565b9360443581811161119e57610c8a903690600401613de5565b93610c936148d4565b610c9d8184614720565b6040519381848637610cc460ff6004878581018281526020998a9103019020015416613e8c565b6040519682858937610ce783890160048152898860019b8c9303019020016140e1565b96610cf860ff60088a0154166140fe565b60ff89890154166111635790610e00878c8b94610df08e610d24610d1c8b8e6145ee565b42101561413f565b610d418c8b60405191823786818d81016004815203019020614903565b610d618c8b60405191823786818d81016008815203019020541515614181565b60405197610d6e89613d58565b88528436818a01376040518a8d823785818c8101600881520301902054610d9489614648565b527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546040516378542ead60e01b8152606060048201526001600160a01b039a90978896928c169587958694610e0f949391606487018f61537f565b908487830301908701528c613c00565b91848303016044850152613c00565b03925af1908115611158578b9161112b575b5015611119577fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a0610e66610e8493610e7360405192839260408452604084019061537f565b8281038c84015285613c00565b0390a1868082518301019101614669565b156110e1579083929189866002610e9c858b99614958565b0154948b6040518689823783818881016008815203019020558b604051868982378381888101600981520301902055610ed585886149ac565b8b600489019a8b948686541680155f1461100957505093610fc88787600287610f9f8e7f05c6e21d4edf5a37dfc7efea8ebf87865654fbc66ce147ba11c2ea32ebdf53829f9d9a60409f9d9a60408f90610fea9f9c80808b9f858d8f8493600391610f979c8e610f5d87610f919d518584823784818781016006815203019020541015614524565b6040839051938492833781016006815203019020610f7c858254614570565b90550154165af1610f8b61457d565b506145ac565b16615788565b958691614a42565b8c5190898d8337818a8101600481520301902001541660038d0193858086541691541691614b0b565b541699541693818651928392833781015f815203902095845191828092614061565b039020958351928352820152a45f80516020615e1d8339815191525580f35b92939550935050846002604051888b82378c818a810160048152030190200154168560038b01541690604051936323b872dd60e01b90526004528352866044528c8c8b8260648180875af19151148116156110c3575b826040528d606052156110b2575050508282808a610fc88997899760028e610f9f7f05c6e21d4edf5a37dfc7efea8ebf87865654fbc66ce147ba11c2ea32ebdf53829e610f9760409f9c610fea9d610f91565b635274afe760e01b82526004820152fd5b8c8115166110d857813b15153d15161661105f565b823d8f823e3d90fd5b60405162461bcd60e51b8152600481018690526011818b01527010dbdb991a5d1a5bdb881b9bdd081b595d607a1b6044820152606490fd5b60405163cf6c44e960e01b8152600490fd5b61114b9150883d8a11611151575b6111438183613d73565b810190614669565b5f610e21565b503d611139565b6040513d8d823e3d90fd5b60405162461bcd60e51b8152600481018890526014818d015273149d5b19481a5cc818dbdb999a59195b9d1a585b60621b6044820152606490fd5b8680fd5b8580fd5b5034610426576020366003190112610426576004356001600160401b038111610553576111d7903690600401613acc565b906111e282826147e5565b61121b6111ed61478c565b6040518484823760028186019081528190036020019020600601546001600160a01b03918216911614613f24565b600860405183838237602081858101600281520301902001600160ff1982541617905581604051928392833781015f81520390207fbc1d782e3780d3a0a0a95b20672796e8c47eda665e26fe2ad9a0f9b79214947c602060405160018152a280f35b503461042657610100366003190112610426576004356001600160401b038111610553576112af903690600401613acc565b6044356001600160401b03811161090a576112ce903690600401613acc565b906112d7613b5b565b906112e0613b71565b9060e435906001600160401b0382116117c657611377610714889260209761133a6113348b6113166113d2993690600401613acc565b9c909882604051938492833760028183015281010301902054613f87565b156141cd565b611347608435151561420f565b61135b6001600160a01b038916151561425b565b6113706001600160401b0360643511156144d8565b3691613daf565b9461138386151561429b565b61138b61478c565b936040519561139987613d06565b6113a4368a8c613daf565b8752602087018b905260843560408801526001600160a01b0390811660608801521660808601523691613daf565b60a08301526001600160a01b031660c08201524260e082015260016101008201526040518385823760208185810160028152030190209080518051906001600160401b03821161174a576114308261142a8654613f87565b866142e7565b602090601f831160011461175e5761145f92918991836116c9575b50508160011b915f199060031b1c19161790565b82555b61148160208201511515600184019060ff801983541691151516179055565b6040810151600283015560608101516003830180546001600160a01b039283166001600160a01b031991821617909155608083015160048501805491909316911617905560a08101518051906001600160401b03821161174a576114f5826114ec6005870154613f87565b600587016142e7565b602090601f83116001146116d4579261152e836008946101009461157798978d926116c95750508160011b915f199060031b1c19161790565b60058501555b6006840160018060a01b0360c0830151166001600160601b0360a01b82541617905560e081015160078501550151151591019060ff801983541691151516179055565b61158130826159e0565b61158c61036261478c565b60405182848237602081848101600381520301902090604051906115af82613d22565b815260208101915f835260408201606435815260608301914283528054600160401b81101561040a576115e791600182018155613e03565b9490946116b65760039351855551600185015551600284015551910155604051818382376020818381016003815203019020545f198101116116a25761162d818361447b565b6001600160a01b0361163d61478c565b168352600f6020526116538183604086206144ab565b61165b61478c565b918160405192839283375f9082019081520390206001600160a01b03909116907f190caf84043fe0e3824920b06cc5e2f17f2e77efeeadd3df09597eb224d7a7128380a380f35b634e487b7160e01b5f52601160045260245ffd5b634e487b7160e01b5f525f60045260245ffd5b015190505f8061144b565b906005850189526020892091895b601f198516811061173257508361010093611577979693600193600897601f1981161061171a575b505050811b016005850155611534565b01515f1960f88460031b161c191690555f808061170a565b919260206001819286850151815501940192016116e2565b634e487b7160e01b88526041600452602488fd5b9190848952602089209089935b601f19841685106117ab576001945083601f19811610611793575b505050811b018255611462565b01515f1960f88460031b161c191690555f8080611786565b8181015183556020948501946001909301929091019061176b565b8780fd5b5034610426576040366003190112610426576117e4613b2f565b60406117ee613b45565b9260018060a01b03809316815260116020522091165f52602052602060405f2054604051908152f35b503461042657606036600319011261042657611831613b2f565b9061183a613b45565b611842613b87565b92604060018060a01b039384809316815260136020522091165f5260205260405f2091165f52602052602060405f2054604051908152f35b5034610426576040366003190112610426576004356001600160401b038111610553576118ab903690600401613de5565b906118c86020602435938160405193828580945193849201613bdf565b810160038152030190209081548310156104265760806118e88484613e03565b508054906001810154906003600282015491015491604051938452602084015260408301526060820152f35b503461042657602036600319011261042657600435906001600160401b03821161042657604060206119493660048601613acc565b919082845193849283378101600c8152030190206001815491015482519182526020820152f35b503461042657602061198136613b9d565b61198e82849593946147e5565b6119c961199961478c565b604051858782376002818701908152819003909401909320600601546001600160a01b0393841690841614613f24565b16916119d683151561425b565b600360405183838237602081858101600281520301902001836001600160601b0360a01b82541617905581604051928392833781015f81520390207fb6383c9fd255c9fb40015fa28fafaea8e4051aa3fecf09a50ee75c38bd040a7e8380a380f35b503461042657602036600319011261042657600435906001600160401b03821161042657611aea6020611a6e3660048601613acc565b9190611a7a8382614720565b8260405193849283378101600481520301902060018060a01b03600282015416600382015460ff6004840154166005840154600685015490600786015492600887015494611af8611ad66001611acf8b613fbf565b9a01613fbf565b6040519a8b9a610120808d528c0190613c00565b908a820360208c0152613c00565b96604089015260608801521515608087015260a086015260c085015260e08401526101008301520390f35b5034610426578060031936011261042657602060405162278d008152f35b503461042657602036600319011261042657600435906001600160401b0382116104265760206105b1611b773660048601613acc565b906145ee565b5034610426576040366003190112610426576001600160401b0360043581811161042257611baf903690600401613acc565b60249291923591821161090a576040611bed7f83d889096cc5b9fcc6d69e191573c3b6a84f531e1f4b7cc7b9245ae7529330e4933690600401613acc565b929094611bfa82826147e5565b611c32611c0561478c565b84518484823760028186019081528190036020019020600601546001600160a01b03918216911614613f24565b611c53848760058651868682376020818881016002815203019020016143b5565b818351928392833781015f81520390209382825193849260208452816020850152848401378181018301879052601f01601f19168101030190a280f35b5034610426576060366003190112610426576001600160401b0360043581811161042257611cc2903690600401613acc565b909160243590811161090a57611cdc903690600401613acc565b90611ce5613b87565b92611cee61478c565b6001600160a01b03858116911603611d0c57611d0994614ee5565b80f35b60405162461bcd60e51b815260206004820152602d60248201527f4f6e6c7920737562736372696265722063616e2073756273637269626520776960448201526c1d1a1bdd5d0818dbdb9cd95b9d609a1b6064820152608490fd5b503461042657806003193601126104265760206105b1615350565b5034610426578060031936011261042657601454611d9f81613f70565b90611dad6040519283613d73565b808252601483527fce6d7b5282bd9a3661ae061feed1dbda4e52ab073b1f9285be6e155d9c38d4ec9260208084015b838310611dfd5760405160208082528190611df990820188613c25565b0390f35b6001828192611e0b89613fbf565b815201960192019194611ddc565b5034610426578060031936011261042657602060405160018152f35b5034610426578060031936011261042657611ed290611e737f0000000000000000000000000000000000000000000000000000000000000000615b98565b90611e9d7f0000000000000000000000000000000000000000000000000000000000000000615b98565b9060405191611eab83613d3d565b818352611ee0602091604051968796600f60f81b885260e0602089015260e0880190613c00565b908682036040880152613c00565b904660608601523060808601528260a086015284820360c0860152602080855193848152019401925b828110611f1857505050500390f35b835185528695509381019392810192600101611f09565b5034610426576020807f317af6ada1081d2fe8cf19de4c0ebe1c7a6e5ec7abccaef66547466c0f85a107611f6236613cab565b94919390611f6e6148d4565b611f788186614720565b611fb3611f8361478c565b604051838882376004818501908152819003909401909320600201546001600160a01b0393841690841614613e30565b611fd3866040518388823785818581016006815203019020541015614524565b6040518186823783818381016006815203019020611ff2878254614570565b905561200e878080808a61200461478c565b5af1610f8b61457d565b61201661478c565b9481604051928392833781015f8152039020936040519586521693a360015f80516020615e1d8339815191525580f35b50346104265760c0366003190112610426576001600160401b0360043581811161042257612078903690600401613acc565b60249291923582811161041e57612093903690600401613acc565b9161209c613b87565b936084359060643560a435828111612220576120bc903690600401613acc565b928442116121e9576120ce838a614847565b6120d936878c613daf565b60208151910120946120ec368a8a613daf565b60208151910120936040519460208601977fe340f2b97a9637245c73beab2a97c7a8d73a6ba8000fc8fb849aae500aaf7b7d89526040870152606086015260018060a01b038b16608086015260a085015260c084015260c0835260e08301908382109082111761040a576121969461218f9360429260405251902061216f615a34565b906040519161190160f01b83526002830152602282015220923691613daf565b9086614e48565b156121a457611d0994614ee5565b60405162461bcd60e51b815260206004820152601960248201527f496e76616c696420636f6e73656e74207369676e6174757265000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152600f60248201526e10dbdb9cd95b9d08195e1c1a5c9959608a1b6044820152606490fd5b8980fd5b50346104265761225c604061227a9261223c36613c81565b6001600160a01b03909216808452600f6020528484209095929190614d63565b928152600f6020522054604051928392604084526040840190613c25565b9060208301520390f35b50346104265780600319360112610426576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346104265761227a6122e46122de36613cdd565b90614d00565b601454604051928392604084526040840190613c25565b50346104265760a0366003190112610426576004356001600160401b0381116105535761232c903690600401613acc565b6064356001600160401b03811161090a5761234b903690600401613acc565b612357838593956147e5565b61239061236261478c565b6040518585823760028187019081528190036020019020600601546001600160a01b03918216911614613f24565b6123ad604051848482376020818681016003815203019020614e26565b612652576123c66001600160401b0360843511156144d8565b60ff6001604051858582376020818781016002815203019020015416936123f1610714368484613daf565b918515612649576124079161032a913691613daf565b905b80151580612638575b61241b9061429b565b62093a804201421161262457841561261b5785905b61243a30826159e0565b61244561036261478c565b82612601575b6040518585823760208187810160038152030190206040519161246d83613d22565b8252602082019284845260408301908152606083019162093a80420183528054600160401b81101561040a576124a891600182018155613e03565b9490946116b657600393518555516001850155516002840155519101556040518383823760208185810160038152030190205493845f198101116116a257612539575b50816040917fa56e60c140584a15efa9969f9de8bd1f6b2efc4e248d94f41c0455a4cceca8b4938351928392833781015f8152039020928151905f1901815262093a8042016020820152a280f35b93909260405183858237602081858101600581520301902092825b84548110156125d3578060ff600461258060206125736001968b6143a0565b5060405192838092614061565b84815203019020015416612595575b01612554565b6125ce6125a282886143a0565b5060026125b26040518093614061565b9160048352602081878060a01b039403019020015416896159e0565b61258f565b50919450929091507fa56e60c140584a15efa9969f9de8bd1f6b2efc4e248d94f41c0455a4cceca8b46124eb565b61260b30846159e0565b61261661034761478c565b61244b565b60843590612430565b634e487b7160e01b86526011600452602486fd5b508415806124125750811515612412565b50508490612409565b60405162461bcd60e51b815260206004820152601c60248201527f5465726d73206368616e676520616c72656164792070656e64696e67000000006044820152606490fd5b503461042657604090816126aa36613cab565b9060208495939551828782378181848101600d815203019020549582865193849283378101600e815203019020908252602052205482519182526020820152f35b503461042657602036600319011261042657600435906001600160401b0382116104265760208061271f3660048601613acc565b919061272b8382614720565b8260405193849283378101600881520301902054604051908152f35b503461042657602036600319011261042657600435906001600160401b0382116104265760206127918161277e3660048701613de5565b8160405193828580945193849201613bdf565b8101600681520301902054604051908152f35b503461042657602036600319011261042657600435906001600160401b0382116104265760206127db8161277e3660048701613de5565b8101600b81520301902054604051908152f35b50602080600319360112610553576004356001600160401b0381116104225761281b903690600401613acc565b90916128278284614720565b61284660016040518486823783818681016004815203019020016140e1565b60048101546001600160a01b039391908416159081612957575b50156129125734156128d857907fa36d3b6248ba9a71adeda7230faef76b146f83261182146356c996c0f4bdd7909160405181868237828183810160068152030190206128ae3482546144cb565b90556128b861478c565b9481604051928392833781015f815203902092604051943486521693a380f35b60405162461bcd60e51b8152600481018390526012602482015271139bdd1a1a5b99c81d1bc819195c1bdcda5d60721b6044820152606490fd5b60405162461bcd60e51b815260048101839052601760248201527f52756c65206973206e6f74207061696420696e204554480000000000000000006044820152606490fd5b60ff91506001015416155f612860565b5034610426576020366003190112610426576020612983613b2f565b6040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b039081169216919091148152f35b503461042657602036600319011261042657600435906001600160401b0382116104265760206129ef3660048501613de5565b81612a036040519283815193849201613bdf565b600790820190815281900382019020546040516001600160a01b039091168152f35b50346104265761227a612a40612a3a36613cdd565b90614c5d565b601554604051928392604084526040840190613c25565b50346104265761227a6020612a97612a6e36613af9565b90612a7e838597959694966147e5565b6040518587823784818781016005815203019020614d63565b928260405193849283378101600581520301902054604051928392604084526040840190613c25565b5034610426576020366003190112610426576004356001600160401b03811161055357612af1903690600401613acc565b90612afc82826147e5565b612b0461478c565b6040518383823760028185019081528190036020019020600601546001600160a01b03908116911603612b8f5760086040518383823760208185810160028152030190200160ff19815416905581604051928392833781015f81520390207fbc1d782e3780d3a0a0a95b20672796e8c47eda665e26fe2ad9a0f9b79214947c6020604051848152a280f35b60405162461bcd60e51b815260206004820152601d60248201527f4f6e6c792063726561746f722063616e2064697361626c652072756c650000006044820152606490fd5b503461042657610100366003190112610426576004356001600160401b03811161055357612c06903690600401613acc565b6064356001600160401b03811161090a57612c25903690600401613acc565b90612c2e613b5b565b612c36613b71565b9060e4356001600160401b0381116117c657612c56903690600401613acc565b929093612c7a611334604051898b82376020818b8101600281520301902054613f87565b612c87608435151561420f565b612c9b6001600160a01b038416151561425b565b6001600160a01b03821615612ff757612cd2612cca612d3692612cc261031a368b84613daf565b983691613daf565b60443561592b565b94861515948580612fee575b612ce79061429b565b612cef61478c565b9360405195612cfd87613d06565b612d08368c8e613daf565b87526001602088015260843560408801526001600160a01b0390811660608801521660808601523691613daf565b60a08301526001600160a01b031660c08201524260e082015260016101008201526040518587823760208187810160028152030190209080518051906001600160401b038211612f7257612d8e8261142a8654613f87565b602090601f8311600114612f8657612dbc92918b91836116c95750508160011b915f199060031b1c19161790565b82555b612dde60208201511515600184019060ff801983541691151516179055565b6040810151600283015560608101516003830180546001600160a01b039283166001600160a01b031991821617909155608083015160048501805491909316911617905560a08101518051906001600160401b038211612f7257612e49826114ec6005870154613f87565b6020908a601f8411600114612f14578360089461010094612e8398979461152e94926116c95750508160011b915f199060031b1c19161790565b612e8d30836159e0565b612e9e612e9861478c565b836159e0565b612efa575b60405183858237602081858101600381520301902060405191612ec583613d22565b825260208201928352604082015f815260608301914283528054600160401b81101561040a576115e791600182018155613e03565b612f0430836159e0565b612f0f612e9861478c565b612ea3565b5090600585018b5260208b20918b5b601f1985168110612f5a57508361010093612e83979693600193600897601f1981161061171a57505050811b016005850155611534565b91926020600181928685015181550194019201612f23565b634e487b7160e01b8a52604160045260248afd5b9190848b5260208b20908b935b601f1984168510612fd3576001945083601f19811610612fbb575b505050811b018255612dbf565b01515f1960f88460031b161c191690555f8080612fae565b81810151835560209485019460019093019290910190612f93565b50861515612cde565b60405162461bcd60e51b815260206004820152601b60248201527f436f6e666964656e7469616c20746f6b656e20726571756972656400000000006044820152606490fd5b503461042657602036600319011261042657600435906001600160401b0382116104265761313b6130ce60026130753660048701613acc565b929061308184826147e5565b6130c8604051858382376020818781018781520301902094602060405182858237818184810160038152030190209382604051938492833781016003815203019020614df9565b90613e03565b50015460018060a01b039081600384015416908260068501541692600785015460ff600887015416906131536002880154936004890154169460ff60018a01541696613125600561311e8c613fbf565b9b01613fbf565b906040519b8c9b8c6101408091528d0190613c00565b9260208c015260408b015289820360608b0152613c00565b95608088015260a0870152151560c086015260e085015261010084015215156101208301520390f35b50346104265760207fa63d305da49e2171e214eb4ab3d82a53bbf7ff5e98e5162eb4564dad227448f96131ae36613cab565b93916131ba8282614720565b60405182828237838184810160048152030190206131d9610b7f61478c565b6131e960ff600483015416613e8c565b851580801561322e575b6131fc90613ed8565b156132255760055f19915b015581604051928392833781015f815203902092604051908152a280f35b60058691613207565b504287116131f3565b50346104265761326f604061227a9261324f36613c81565b6001600160a01b0390921680845260106020528484209095929190614d63565b92815260106020522054604051928392604084526040840190613c25565b503461082b5760208060031936011261082b576004356001600160401b03811161082b576132bf903690600401613acc565b6132ca9291926148d4565b6132d48184614720565b6132f660ff600460405184878237858186810184815203019020015416613e8c565b61331560016040518386823784818581016004815203019020016140e1565b9061332660ff6008840154166140fe565b60ff6001830154161561364f57613340610d1c82866145ee565b61335c6040518286823784818481016004815203019020614903565b61337b6040518286823784818481016008815203019020541515614181565b60405181858237838183810160088152030190205493600161339d8383614958565b01546133a76156ba565b9080871561363a575b9086911561362c575b821561361c575b606460018060a01b03985f8a5f80516020615ddd83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af19081156135e4575f916135ef575b505f6040518484823786818681016008815203019020555f60405184848237868186810160098152030190205561344483836149ac565b600484019580875416815f80516020615dfd8339815191525416803b1561082b57604051630f8e573b60e21b8152600481018590526001600160a01b039290921660248301525f908290604490829084905af180156135e4576135d1575b5080875416868260026040518888823783818a8101600481520301902001541691606460038901938c8686541693604051988995869463eb3155b560e01b86526004860152602485015260448401525af19283156135c6578789918b9561358c575b50928061356b93610fc8878a958460028c849b7f1ca0e780004004c85c951706e4c3b1a06f80a88fda4650be90b008be5f1574929f60409f9e6135479184614a42565b8a8f51928337818b8101600481520301902001541690858086541691541691614b0b565b039020958351928352820152a460015f80516020615e1d8339815191525580f35b93959450905082813d83116135bf575b6135a68183613d73565b810103126135bb579051919290878783613504565b8880fd5b503d61359c565b6040513d8b823e3d90fd5b6135dc919850613cf3565b5f965f6134a2565b6040513d5f823e3d90fd5b90508481813d8311613615575b6136068183613d73565b8101031261082b57515f61340d565b503d6135fc565b91506136266156ba565b916133c0565b506136356156ba565b6133b9565b9650859061364661573c565b979091506133b0565b60405162461bcd60e51b815260048101849052601860248201527f52756c65206973206e6f7420636f6e666964656e7469616c00000000000000006044820152606490fd5b3461082b57602036600319011261082b576004356136b9816136b461478c565b614847565b7f988f76ef7977a3c8ed258b6edb689399775fa491cc7367bb03d44d8d55af79a860206001600160a01b036136ec61478c565b1692604051908152a2005b3461082b57602036600319011261082b576004356001600160401b03811161082b57602061372a81923690600401613acc565b91908260405193849283378101600381520301902054604051908152f35b3461082b57606036600319011261082b57613761613b2f565b613769613b45565b9060018060a01b038091165f52601260205260405f2091165f5260205260405f206044355f52602052602060405f2054604051908152f35b3461082b5760208060031936011261082b576004356001600160401b03811161082b576137d382913690600401613acc565b91906137df83826147e5565b826040519384928337810160058152030190209081546137fe81613f70565b9261380c6040519485613d73565b8184525f908152828120838086015b8484106138355760405182815280611df98185018a613c25565b600191829161384385613fbf565b815201920192019190849061381b565b3461082b575f36600319011261082b5760155461386f81613f70565b61387c6040519182613d73565b8181526020916020820160155f527f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec475935f915b8383106138cc5760405160208082528190611df990820188613c25565b60018281926138da89613fbf565b8152019601920191946138af565b3461082b576138f636613b9d565b9161390182826147e5565b602061393e61390e61478c565b604051858582376002818701908152819003909301909220600601546001600160a01b0392831690831614613f24565b604051838382376020818581016007815203019020931692836001600160601b0360a01b82541617905581604051928392833781015f81520390207f3c930bf65b4256b26e784411590e552fdd0eb918632ff5560889e0e9a7580f5f5f80a3005b3461082b576139ad36613af9565b9291906139ba8284614720565b604051828482376020818481016004815203019020916139f36139db61478c565b60028501546001600160a01b03918216911614613e30565b613a0360ff600485015416613e8c565b81158015613abf575b15613a7a577ff13bc9c80a7fee3a5b978e98b080bfc811fafe2da9cdbfc84f0ba1b1d1bc6cd19385600860409582158015613a71575b613a4b90613ed8565b8560078201550155818451928392833781015f81520390209382519182526020820152a2005b50428311613a42565b60405162461bcd60e51b815260206004820152601c60248201527f4d6178207061796d656e747320616c72656164792072656163686564000000006044820152606490fd5b5060068301548211613a0c565b9181601f8401121561082b578235916001600160401b03831161082b576020838186019501011161082b57565b606060031982011261082b57600435906001600160401b03821161082b57613b2391600401613acc565b90916024359060443590565b600435906001600160a01b038216820361082b57565b602435906001600160a01b038216820361082b57565b60a435906001600160a01b038216820361082b57565b60c435906001600160a01b038216820361082b57565b604435906001600160a01b038216820361082b57565b604060031982011261082b57600435906001600160401b03821161082b57613bc791600401613acc565b90916024356001600160a01b038116810361082b5790565b5f5b838110613bf05750505f910152565b8181015183820152602001613be1565b90602091613c1981518092818552858086019101613bdf565b601f01601f1916010190565b90808251908181526020809101926020808460051b8301019501935f915b848310613c535750505050505090565b9091929394958480613c71600193601f198682030187528a51613c00565b9801930193019194939290613c43565b606090600319011261082b576004356001600160a01b038116810361082b57906024359060443590565b604060031982011261082b57600435906001600160401b03821161082b57613cd591600401613acc565b909160243590565b604090600319011261082b576004359060243590565b6001600160401b03811161040a57604052565b61012081019081106001600160401b0382111761040a57604052565b608081019081106001600160401b0382111761040a57604052565b602081019081106001600160401b0382111761040a57604052565b604081019081106001600160401b0382111761040a57604052565b90601f801991011681019081106001600160401b0382111761040a57604052565b6001600160401b03811161040a57601f01601f191660200190565b929192613dbb82613d94565b91613dc96040519384613d73565b82948184528183011161082b578281602093845f960137010152565b9080601f8301121561082b57816020613e0093359101613daf565b90565b8054821015613e1c575f5260205f209060021b01905f90565b634e487b7160e01b5f52603260045260245ffd5b15613e3757565b60405162461bcd60e51b815260206004820152602760248201527f4f6e6c7920737562736372696265722063616e207570646174652073756273636044820152663934b83a34b7b760c91b6064820152608490fd5b15613e9357565b60405162461bcd60e51b815260206004820152601a60248201527f537562736372697074696f6e206973206e6f74206163746976650000000000006044820152606490fd5b15613edf57565b60405162461bcd60e51b815260206004820152601a60248201527f44617465206d75737420626520696e20746865206675747572650000000000006044820152606490fd5b15613f2b57565b60405162461bcd60e51b815260206004820152601c60248201527f4f6e6c792063726561746f722063616e207570646174652072756c65000000006044820152606490fd5b6001600160401b03811161040a5760051b60200190565b90600182811c92168015613fb5575b6020831014613fa157565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613f96565b9060405191825f8254613fd181613f87565b908184526020946001916001811690815f1461403f5750600114614001575b505050613fff92500383613d73565b565b5f90815285812095935091905b818310614027575050613fff93508201015f8080613ff0565b8554888401850152948501948794509183019161400e565b92505050613fff94925060ff191682840152151560051b8201015f8080613ff0565b5f9291815461406f81613f87565b926001918083169081156140c6575060011461408c575b50505050565b9091929394505f5260209060205f20905f915b8583106140b5575050505001905f808080614086565b80548584015291830191810161409f565b60ff191684525050508115159091020191505f808080614086565b60206140f39160405192838092614061565b600281520301902090565b1561410557565b60405162461bcd60e51b815260206004820152601260248201527152756c65206973206e6f742061637469766560701b6044820152606490fd5b1561414657565b60405162461bcd60e51b815260206004820152601360248201527214185e5b595b9d081b9bdd08191d59481e595d606a1b6044820152606490fd5b1561418857565b60405162461bcd60e51b815260206004820152601760248201527f436f6e646974696f6e206e6f74207375626d69747465640000000000000000006044820152606490fd5b156141d457565b60405162461bcd60e51b815260206004820152601360248201527252756c6520616c72656164792065786973747360681b6044820152606490fd5b1561421657565b60405162461bcd60e51b815260206004820152601860248201527f496e76616c6964207061796d656e7420696e74657276616c00000000000000006044820152606490fd5b1561426257565b60405162461bcd60e51b8152602060048201526011602482015270125b9d985b1a59081c9958da5c1a595b9d607a1b6044820152606490fd5b156142a257565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c696420656e6372797074656420696e7075740000000000000000006044820152606490fd5b601f82116142f457505050565b5f5260205f20906020601f840160051c8301931061432c575b601f0160051c01905b818110614321575050565b5f8155600101614316565b909150819061430d565b601454811015613e1c5760145f527fce6d7b5282bd9a3661ae061feed1dbda4e52ab073b1f9285be6e155d9c38d4ec01905f90565b601554811015613e1c5760155f527f55f448fdea98c4d29eb340757ef0a66cd03dbb9538908a6a81d96026b71ec47501905f90565b8054821015613e1c575f5260205f2001905f90565b9092916001600160401b03811161040a576143da816143d48454613f87565b846142e7565b5f601f82116001146144175781906144089394955f9261440c5750508160011b915f199060031b1c19161790565b9055565b013590505f8061144b565b601f19821694835f5260209160205f20925f905b8882106144635750508360019596971061444a575b505050811b019055565b01355f19600384901b60f8161c191690555f8080614440565b8060018496829495870135815501950192019061442b565b90601454600160401b81101561040a5780600161449b9201601455614336565b9290926116b657613fff926143b5565b9190918054600160401b81101561040a5761449b916001820181556143a0565b919082018092116116a257565b156144df57565b60405162461bcd60e51b815260206004820152601c60248201527f416d6f756e742065786365656473206575696e7436342072616e6765000000006044820152606490fd5b1561452b57565b60405162461bcd60e51b815260206004820152601b60248201527f496e73756666696369656e7420657363726f772062616c616e636500000000006044820152606490fd5b919082039182116116a257565b3d156145a7573d9061458e82613d94565b9161459c6040519384613d73565b82523d5f602084013e565b606090565b156145b357565b60405162461bcd60e51b8152602060048201526013602482015272115512081d1c985b9cd9995c8819985a5b1959606a1b6044820152606490fd5b6020906145fb8382614720565b826040519384928337810160048152030190206003810154801561464257600260016020613e00946146336040518094819301614061565b848152030190200154906144cb565b50505f90565b805115613e1c5760200190565b8051821015613e1c5760209160051b010190565b9081602091031261082b5751801515810361082b5790565b1561468857565b60405162461bcd60e51b815260206004820152601660248201527514dd589cd8dc9a5c1d1a5bdb881a185cc8195b99195960521b6044820152606490fd5b6020906146d38382614720565b82604051938492833781016004815203019020600961470b6040516020816146fe8160018801614061565b6003815203019020614df9565b910154908082111561471b575090565b905090565b906020614740928260405193849283378101600481520301902054613f87565b1561474757565b60405162461bcd60e51b815260206004820152601b60248201527f537562736372697074696f6e20646f6573206e6f7420657869737400000000006044820152606490fd5b6014361015806147b3575b156147af57601319360136811161082b573560601c90565b3390565b50337f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031614614797565b906020614805928260405193849283378101600281520301902054613f87565b1561480c57565b60405162461bcd60e51b8152602060048201526013602482015272149d5b1948191bd95cc81b9bdd08195e1a5cdd606a1b6044820152606490fd5b60018060a01b0316805f52601660205260405f20825f5260205260ff60405f20541661488f575f52601660205260405f20905f5260205260405f20600160ff19825416179055565b60405162461bcd60e51b815260206004820152601f60248201527f436f6e73656e7420616c72656164792075736564206f72207265766f6b6564006044820152606490fd5b5f80516020615e1d83398151915260028154146148f15760029055565b604051633ee5aeb560e01b8152600490fd5b6005810154421061491a57610684613fff91615490565b60405162461bcd60e51b815260206004820152601660248201527514dd589cd8dc9a5c1d1a5bdb881a5cc81c185d5cd95960521b6044820152606490fd5b6149a891602061498581600160405185878237828187810160048152030190200160405192838092614061565b6003815203019020928260405193849283378101600a8152030190205490613e03565b5090565b6040518282823760208184810160048152030190204260038201556006810180545f1981146116a25760010180915560078201548015159182614a37575b50506149f557505050565b60040160ff19815416905581604051928392833781015f81520390207f6c915851fd52785d091e13b1d706d44772d1f9bf3f823f93bfb777b6c95c8cec5f80a2565b101590505f806149ea565b916002604092835181868237818101600481526020938285809460018060a01b03940301902001541695614af0614adf62278d00420496614a96818a518887823787818a8101600d81520301902054615bce565b614aa030826159e0565b614aaa8b826159e0565b8951878682378681898101600d815203019020558851868582378581888101600e815203019020885f528552885f2054615bce565b97614aea308a6159e0565b886159e0565b82865193849283378101600e815203019020915f52525f2055565b9262278d0042049260018060a01b0391614bfa614be984881692835f5260209560118752604098818a5f20971696875f528852614b4b838b5f2054615bce565b614b5530826159e0565b614b5f8c826159e0565b865f52601189528a5f20885f5289528a5f2055855f5260128852895f20875f528852895f20815f528852614b96838b5f2054615bce565b90614ba130836159e0565b614bab8c836159e0565b865f52601289528a5f20885f5289528a5f20905f528852895f2055845f5260138752885f20865f528752885f20971696875f528652875f2054615bce565b96614bf430896159e0565b876159e0565b5f5260138252835f20905f528152825f20915f52525f2055565b90614c1e82613f70565b614c2b6040519182613d73565b8281528092614c3c601f1991613f70565b01905f5b828110614c4c57505050565b806060602080938501015201614c40565b91906015549081841015614cea57614c758483614570565b811115614cda57505b614c90614c8b8483614570565b614c14565b92805b828110614c9f57505050565b80614cd3614cae60019361436b565b50614cc2614cbc8685614570565b91613fbf565b614ccc828a614655565b5287614655565b5001614c93565b614ce59150836144cb565b614c7e565b50509050604051614cfa81613d3d565b5f815290565b91906014549081841015614cea57614d188483614570565b811115614d5357505b614d2e614c8b8483614570565b92805b828110614d3d57505050565b80614d4c614cae600193614336565b5001614d31565b614d5e9150836144cb565b614d21565b929183549081831015614de857614d7a8383614570565b811115614dd75750905b614d91614c8b8284614570565b93815b838110614da15750505050565b80614dd0614db1600193856143a0565b50614dbf614cbc8785614570565b614dc9828b614655565b5288614655565b5001614d94565b614de29150826144cb565b90614d84565b5050509050604051614cfa81613d3d565b614e0281614e26565b15614e17575460011981019081116116a25790565b545f1981019081116116a25790565b80545f198101919082116116a257600391614e4091613e03565b500154421090565b9091813b614e9757614e5a9192615b5e565b506004811015614e8357159182614e7057505090565b6001600160a01b03918216911614919050565b634e487b7160e01b5f52602160045260245ffd5b6020918160645f935160405192630b135d3f60e11b9788855260048501526040602485015286820190604485015e8281018201859052601f01601f191601915afa905f5114601f3d11161690565b929192614f0660405183838237602081858101600481520301902054613f87565b61530b57614f1483856147e5565b614f3860ff60086040518688823760208188810160028152030190200154166140fe565b60405161014081018181106001600160401b0382111761040a57604052614f60368484613daf565b8152614f6d368587613daf565b602082015260018060a01b03861660408201525f6060820152600160808201525f60a08201525f60c08201525f60e08201525f6101008201525f6101208201526040518383823760208185810160048152030190209080518051906001600160401b03821161040a57614fe48261142a8654613f87565b602090601f83116001146152a35761501292915f91836116c95750508160011b915f199060031b1c19161790565b82555b60208101518051906001600160401b03821161040a576150458261503c6001870154613f87565b600187016142e7565b602090601f83116001146152315782610120936009959361507a935f926116c95750508160011b915f199060031b1c19161790565b60018501555b6002840160018060a01b036040830151166001600160601b0360a01b825416179055606081015160038501556150cb60808201511515600486019060ff801983541691151516179055565b60a0810151600585015560c0810151600685015560e081015160078501556101008101516008850155015191015560ff60016040518587823760208187810160028152030190200154166151d9575b61513982826040518688823760208188810160058152030190206144ab565b601554600160401b81101561040a57806001615158920160155561436b565b6116b6578282615167926143b5565b60018060a01b0385165f526010602052615185828260405f206144ab565b81604051928392833781015f8152039020918160405192839283378101935f855260018060a01b031693039020907fefaa6090092226c65002f762bb450230caa4b551e031829857c65bce85a4e6e75f80a4565b9491604093919351818382376020818381016003815203019020936151fd85614df9565b8554811015615226578061522088600161521881958b613e03565b5001546159e0565b016151fd565b50919350919461511a565b90600185015f5260205f20915f5b601f198516811061528b575092600994926001926101209583601f19811610615273575b505050811b016001850155615080565b01515f1960f88460031b161c191690555f8080615263565b9192602060018192868501518155019401920161523f565b9190845f5260205f20905f935b601f19841685106152f0576001945083601f198116106152d8575b505050811b018255615015565b01515f1960f88460031b161c191690555f80806152cb565b818101518355602094850194600190930192909101906152b0565b60405162461bcd60e51b815260206004820152601b60248201527f537562736372697074696f6e20616c72656164792065786973747300000000006044820152606490fd5b4660010361535d57600190565b4662aa36a70361536d5761271190565b617a69461461537a575f90565b5f1990565b9081518082526020808093019301915f5b82811061539e575050505090565b835185529381019392810192600101615390565b6020906153bf8382614720565b82604051938492833781016004815203019020906153f66153de61478c565b60028401546001600160a01b03918216911614613e30565b61540660ff600484015416613e8c565b6001820161542a60405160208161541d8186614061565b6003815203019020614e26565b156154585760206154419160405192838092614061565b6003815203019020545f1981019081116116a25790565b60405162461bcd60e51b815260206004820152601060248201526f4e6f2070656e64696e67207465726d7360801b6044820152606490fd5b6008015480151590816154a1575090565b905042101590565b9060409182519082818337818381016004815260209384910301902093805183816154d78160018a01614061565b60028152030190208151858482378481878101600981520301902054958251868582378581888101600c815203019020600181019081546155fb575b505060ff600187949361553e60029461552c308d6159e0565b838060a01b039586910154168b6159e0565b61554e846006830154168b6159e0565b0154161561556b575b505193849283378101600881520301902055565b815191925061557982613d58565b600182528436818401378661558d83614648565b525f80516020615dfd8339815191525416803b1561082b576155cf5f929183928551948580948193637d6e912360e11b83528b6004840152602483019061537f565b03925af180156155f1579085929115615557576155eb90613cf3565b5f615557565b82513d5f823e3d90fd5b8361553e6156926002959b61568c8961568c60ff988f9c9b8f998f8f909b8c828f60019f96600191615675926156348561566d9b614958565b920154161561569e5760010154955b8a51838582378581858101600e81520301902062278d0042045f52855261566d878c5f2054615bce565b905490615c52565b985193849283378101600d81520301902054615bce565b90615cd6565b9a945050939450615513565b600201546156b4906001600160401b0316615788565b95615643565b5f80516020615ddd83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156135e4575f9161570d575090565b90506020813d602011615734575b8161572860209383613d73565b8101031261082b575190565b3d915061571b565b5f602060018060a01b035f80516020615ddd8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af19081156135e4575f9161570d575090565b5f80516020615ddd83398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af19081156135e4575f9161570d575090565b5f80516020615ddd83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156135e4575f9161570d575090565b5f80516020615ddd8339815191525460405163045fc19560e11b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615885906084830190613c00565b6005606483015203925af19081156135e4575f916158f9575b5080925f80516020615dfd8339815191525416803b1561082b57604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af180156135e4576158f05750565b613fff90613cf3565b90506020813d602011615923575b8161591460209383613d73565b8101031261082b57515f61589e565b3d9150615907565b5f80516020615ddd8339815191525460405163045fc19560e11b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f908290615983906084830190613c00565b6004606483015203925af19081156135e4575f916158f9575080925f80516020615dfd8339815191525416803b1561082b57604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481016158df565b5f80516020615dfd833981519152546001600160a01b031691823b1561082b57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481016158df565b307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161480615b35575b15615a8f577f000000000000000000000000000000000000000000000000000000000000000090565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f000000000000000000000000000000000000000000000000000000000000000060408201527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260a0815260c081018181106001600160401b0382111761040a5760405251902090565b507f00000000000000000000000000000000000000000000000000000000000000004614615a66565b8151919060418303615b8e57615b879250602082015190606060408401519301515f1a90615d5a565b9192909190565b50505f9160029190565b60ff811690601f8211615bbc5760405191615bb283613d58565b8252602082015290565b604051632cd44ac360e21b8152600490fd5b908115615c42575b8015615c30575b602090606460018060a01b035f80516020615ddd8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156135e4575f9161570d575090565b506020615c3b6156ba565b9050615bdd565b9050615c4c6156ba565b90615bd6565b908115615cc6575b8015615cb4575b602090606460018060a01b035f80516020615ddd8339815191525416935f6040519586948593631d44e90160e21b8552600485015260248401528160448401525af19081156135e4575f9161570d575090565b506020615cbf6156ba565b9050615c61565b9050615cd06156ba565b90615c5a565b908115615d4a575b8015615d38575b602090606460018060a01b035f80516020615ddd8339815191525416935f604051958694859363d99882d560e01b8552600485015260248401528160448401525af19081156135e4575f9161570d575090565b506020615d4361573c565b9050615ce5565b9050615d5461573c565b90615cde565b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411615dd1579160209360809260ff5f9560405194855216868401526040830152606082015282805260015afa156135e4575f516001600160a01b03811615615dc757905f905f90565b505f906001905f90565b5050505f916003919056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497009b779b17422d0df92223018b32b4d1fa46e071723d6817e2486d003becc55f00a164736f6c6343000818000a";
+
+type AutoPaySystemConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AutoPaySystemConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AutoPaySystem__factory extends ContractFactory {
+  constructor(...args: AutoPaySystemConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    forwarder: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(forwarder, overrides || {});
+  }
+  override deploy(
+    forwarder: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(forwarder, overrides || {}) as Promise<
+      AutoPaySystem & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): AutoPaySystem__factory {
+    return super.connect(runner) as AutoPaySystem__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AutoPaySystemInterface {
+    return new Interface(_abi) as AutoPaySystemInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AutoPaySystem {
+    return new Contract(address, _abi, runner) as unknown as AutoPaySystem;
+  }
+}
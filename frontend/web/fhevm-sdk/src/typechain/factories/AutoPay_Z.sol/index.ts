@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { AutoPaySystem__factory } from "./AutoPaySystem__factory.js";
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as autoPayZSol from "./AutoPay_Z.sol/index.js";
+export { AutoPayForwarder__factory } from "./AutoPayForwarder__factory.js";
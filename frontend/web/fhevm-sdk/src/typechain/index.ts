@@ -0,0 +1,10 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as autoPayZSol from "./AutoPay_Z.sol";
+export type { autoPayZSol };
+export type { AutoPayForwarder } from "./AutoPayForwarder.js";
+export * as factories from "./factories/index.js";
+export type { AutoPaySystem } from "./AutoPay_Z.sol/AutoPaySystem.js";
+export { AutoPaySystem__factory } from "./factories/AutoPay_Z.sol/AutoPaySystem__factory.js";
+export { AutoPayForwarder__factory } from "./factories/AutoPayForwarder__factory.js";
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { batchDecryptValues } from "../../fhevm-sdk/src";
+import type { IndexedPayment, SpendKey } from "../../fhevm-sdk/src";
+import { getAutoPayIndexer, getAutoPayReadOnly } from "./useContract";
+import { ZERO_ADDRESS, errorMessage } from "./format";
+import { useTransactions } from "./TransactionContext";
+
+interface AnalyticsProps {
+  address: string;
+}
+
+interface TokenTotal {
+  paymentToken: string;
+  sent: bigint;
+  received: bigint;
+}
+
+interface SpendBar {
+  label: string;
+  amount: number;
+}
+
+interface TokenSpend {
+  paymentToken: string;
+  total: number;
+  byPeriod: SpendBar[];
+  byRecipient: SpendBar[];
+}
+
+// Only public payments have a clear amount; confidential ones are counted but not summed
+function totalsByToken(sent: IndexedPayment[], received: IndexedPayment[]): TokenTotal[] {
+  const totals = new Map<string, TokenTotal>();
+  const add = (payment: IndexedPayment, key: 'sent' | 'received') => {
+    if (payment.amount === null) return;
+    const total = totals.get(payment.paymentToken) ?? { paymentToken: payment.paymentToken, sent: 0n, received: 0n };
+    total[key] += payment.amount;
+    totals.set(payment.paymentToken, total);
+  };
+  sent.forEach(payment => add(payment, 'sent'));
+  received.forEach(payment => add(payment, 'received'));
+  return [...totals.values()];
+}
+
+const tokenLabel = (paymentToken: string) =>
+  paymentToken === ZERO_ADDRESS ? 'ETH (WEI)' : `${paymentToken.slice(0, 12)}...`;
+
+const SpendChart: React.FC<{ title: string; bars: SpendBar[] }> = ({ title, bars }) => {
+  const max = Math.max(...bars.map(bar => bar.amount), 1);
+  return (
+    <div className="spend-chart">
+      <h4>{title}</h4>
+      {bars.map(bar => (
+        <div key={bar.label} className="spend-row">
+          <span className="spend-label">{bar.label}</span>
+          <div className="spend-bar" style={{ width: `${(bar.amount / max) * 100}%` }} />
+          <strong>{bar.amount.toLocaleString()}</strong>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Analytics: React.FC<AnalyticsProps> = ({ address }) => {
+  const { notify } = useTransactions();
+  const [sent, setSent] = useState<IndexedPayment[]>([]);
+  const [received, setReceived] = useState<IndexedPayment[]>([]);
+  const [spend, setSpend] = useState<TokenSpend[] | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  useEffect(() => {
+    setSpend(null);
+    const loadPayments = async () => {
+      const indexer = await getAutoPayIndexer();
+      if (!indexer) return;
+      await indexer.sync();
+      setSent(indexer.getPayments({ subscriber: address }));
+      setReceived(indexer.getPayments({ recipient: address }));
+    };
+    loadPayments().catch(e => console.error('Failed to load payment analytics:', e));
+  }, [address]);
+
+  // The indexed payment events tell which periods and recipients have a total;
+  // the totals themselves are only ACL-granted to the subscriber
+  const decryptSpend = async () => {
+    setIsDecrypting(true);
+    try {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+
+      const spendPeriod = await autoPay.getSpendPeriod();
+      const tokens = [...new Set(sent.map(payment => payment.paymentToken))];
+      const keys: SpendKey[] = tokens.flatMap(paymentToken => {
+        const payments = sent.filter(payment => payment.paymentToken === paymentToken);
+        const periods = [...new Set(payments.map(payment => Math.floor(payment.timestamp / spendPeriod)))].sort((a, b) => a - b);
+        const recipients = [...new Set(payments.map(payment => ethers.getAddress(payment.recipient)))];
+        return [
+          { kind: 'total' as const, paymentToken },
+          ...periods.map(period => ({ kind: 'period' as const, paymentToken, period })),
+          ...recipients.map(recipient => ({ kind: 'recipient' as const, paymentToken, recipient })),
+        ];
+      });
+
+      const handles = await autoPay.getSpendHandles(address, keys);
+      const initialized = [...new Set(handles.filter(handle => handle !== ethers.ZeroHash))];
+      const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+      const values = initialized.length > 0 ? await batchDecryptValues(initialized, autoPay.getAddress(), signer) : {};
+      const amountOf = (i: number) => values[handles[i]] ?? 0;
+
+      setSpend(tokens.map(paymentToken => {
+        const summary: TokenSpend = { paymentToken, total: 0, byPeriod: [], byRecipient: [] };
+        keys.forEach((key, i) => {
+          if (key.paymentToken !== paymentToken) return;
+          if (key.kind === 'total') summary.total = amountOf(i);
+          if (key.kind === 'period') {
+            const start = new Date(key.period * spendPeriod * 1000);
+            summary.byPeriod.push({ label: `From ${start.toLocaleDateString()}`, amount: amountOf(i) });
+          }
+          if (key.kind === 'recipient') {
+            summary.byRecipient.push({ label: `${key.recipient.slice(0, 10)}...`, amount: amountOf(i) });
+          }
+        });
+        return summary;
+      }));
+      notify("success", "Spending decrypted");
+    } catch (e) {
+      console.error('Spend decryption failed:', e);
+      notify("error", errorMessage(e, "Decryption failed"));
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const confidentialCount = sent.filter(payment => payment.isConfidential).length;
+
+  return (
+    <>
+      <section className="stats-section">
+        <div className="stat-card">
+          <div className="stat-icon">📤</div>
+          <div className="stat-info">
+            <h3>{sent.length}</h3>
+            <p>Payments Sent</p>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-icon">📥</div>
+          <div className="stat-info">
+            <h3>{received.length}</h3>
+            <p>Payments Received</p>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-icon">🔒</div>
+          <div className="stat-info">
+            <h3>{confidentialCount}</h3>
+            <p>Confidential Payments Sent</p>
+          </div>
+        </div>
+      </section>
+
+      <section className="detail-panel">
+        <div className="modal-header">
+          <h2>My Encrypted Spending</h2>
+        </div>
+        <div className="modal-body">
+          {spend === null ? (
+            <div className="verification-section">
+              <button
+                onClick={decryptSpend}
+                disabled={isDecrypting || sent.length === 0}
+                className="verify-btn"
+              >
+                {isDecrypting ? 'Decrypting...' : 'Decrypt My Spending'}
+              </button>
+              <p className="verify-hint">
+                {sent.length === 0 ?
+                  'No payments sent yet' :
+                  'Running totals are kept encrypted on-chain and only you can decrypt them, confidential payments included'
+                }
+              </p>
+            </div>
+          ) : spend.map(summary => (
+            <div key={summary.paymentToken} className="detail-section">
+              <div className="detail-item">
+                <span>Total in {tokenLabel(summary.paymentToken)}</span>
+                <strong>{summary.total.toLocaleString()}</strong>
+              </div>
+              <SpendChart title="Per month (30-day periods)" bars={summary.byPeriod} />
+              <SpendChart title="Per recipient" bars={summary.byRecipient} />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="detail-panel">
+        <div className="modal-header">
+          <h2>Public Volume</h2>
+        </div>
+        <div className="modal-body">
+          {totalsByToken(sent, received).map(total => (
+            <div key={total.paymentToken} className="detail-item">
+              <span>{tokenLabel(total.paymentToken)}</span>
+              <strong>Sent {total.sent.toString()} · Received {total.received.toString()}</strong>
+            </div>
+          ))}
+          <p className="verify-hint">Confidential payment amounts are never revealed and are not included</p>
+        </div>
+      </section>
+    </>
+  );
+};
+
+export default Analytics;
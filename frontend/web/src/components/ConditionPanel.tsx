@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { getAutoPayReadOnly, getAutoPayWithSigner, normAddr } from "./useContract";
+import { errorMessage } from "./format";
+import { useTransactions } from "./TransactionContext";
+
+interface ConditionRow {
+  subscriptionId: string;
+  pending: boolean;
+  met?: boolean;
+}
+
+interface ConditionPanelProps {
+  ruleId: string;
+  address: string;
+}
+
+const ConditionPanel: React.FC<ConditionPanelProps> = ({ ruleId, address }) => {
+  const { track, notify } = useTransactions();
+  const [rows, setRows] = useState<ConditionRow[]>([]);
+  const [metrics, setMetrics] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  const loadConditions = async () => {
+    const autoPay = await getAutoPayReadOnly();
+    if (!autoPay) return;
+
+    const subscriptionIds = await autoPay.getRuleSubscriptions(ruleId);
+    const mine: ConditionRow[] = [];
+    for (const subscriptionId of subscriptionIds) {
+      const subscription = await autoPay.getSubscription(subscriptionId);
+      if (normAddr(subscription.subscriber) !== normAddr(address)) continue;
+      const handle = await autoPay.getConditionHandle(subscriptionId);
+      mine.push({ subscriptionId, pending: handle !== ethers.ZeroHash });
+    }
+    setRows(mine);
+  };
+
+  useEffect(() => {
+    loadConditions().catch(e => console.error('Failed to load payment conditions:', e));
+  }, [ruleId, address]);
+
+  const submitMetric = async (subscriptionId: string) => {
+    const raw = metrics[subscriptionId];
+    if (!raw) return;
+
+    setBusy(true);
+    const submitted = await track("Submitting encrypted metric", autoPay =>
+      autoPay.submitEncryptedMetric(address, subscriptionId, parseInt(raw) || 0)
+    );
+    setBusy(false);
+    if (!submitted) return;
+
+    setMetrics(prev => ({ ...prev, [subscriptionId]: "" }));
+    // A fresh metric replaces any earlier outcome
+    setRows(prev => prev.map(r => r.subscriptionId === subscriptionId ? { subscriptionId, pending: true } : r));
+  };
+
+  // Only the boolean outcome is decrypted, never the metric or the threshold
+  const checkOutcome = async (subscriptionId: string) => {
+    setBusy(true);
+    try {
+      const autoPay = await getAutoPayWithSigner();
+      const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+      const met = await autoPay.getConditionOutcome(subscriptionId, signer);
+      setRows(prev => prev.map(r => r.subscriptionId === subscriptionId ? { ...r, met: met ?? undefined } : r));
+    } catch (e) {
+      notify("error", errorMessage(e, "Outcome decryption failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="verification-section">
+      <h4>Payment Condition</h4>
+      {rows.map(row => (
+        <div key={row.subscriptionId} className="form-group">
+          <label>
+            {row.subscriptionId}: {!row.pending ? 'No metric submitted' :
+              row.met === undefined ? '🔒 Evaluated' : row.met ? '✅ Condition met' : '❌ Condition not met'}
+          </label>
+          <input
+            type="number"
+            value={metrics[row.subscriptionId] || ""}
+            onChange={(e) => setMetrics({ ...metrics, [row.subscriptionId]: e.target.value })}
+            placeholder="Metric value"
+            min="0"
+          />
+          <div className="form-row">
+            <button className="create-btn" disabled={busy} onClick={() => submitMetric(row.subscriptionId)}>
+              Submit Encrypted Metric
+            </button>
+            {row.pending && (
+              <button className="verify-btn" disabled={busy} onClick={() => checkOutcome(row.subscriptionId)}>
+                Check Outcome
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+      <p className="verify-hint">
+        Your metric is compared to the encrypted threshold and your spending limits on-chain; only the yes/no outcome can be decrypted
+      </p>
+    </div>
+  );
+};
+
+export default ConditionPanel;
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { decryptValue } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly } from "./useContract";
+import { errorMessage } from "./format";
+import { useTransactions } from "./TransactionContext";
+
+const OPERATOR_DURATION = 365 * 24 * 60 * 60;
+
+interface ConfidentialBalancePanelProps {
+  ruleId: string;
+  address: string;
+}
+
+const ConfidentialBalancePanel: React.FC<ConfidentialBalancePanelProps> = ({ ruleId, address }) => {
+  const { track, notify } = useTransactions();
+  const [isOperator, setIsOperator] = useState(false);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const loadOperator = async () => {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+      setIsOperator(await autoPay.isConfidentialOperator(ruleId, address));
+    };
+    loadOperator().catch(e => console.error('Failed to load operator status:', e));
+  }, [ruleId, address]);
+
+  const authorize = async () => {
+    setBusy(true);
+    const authorized = await track("Authorizing AutoPay on the confidential token", autoPay =>
+      autoPay.setConfidentialOperator(ruleId, Math.floor(Date.now() / 1000) + OPERATOR_DURATION)
+    );
+    if (authorized) setIsOperator(true);
+    setBusy(false);
+  };
+
+  // Only the balance owner holds the ACL grant, so this goes through EIP-712 user decryption
+  const decryptBalance = async () => {
+    setBusy(true);
+    try {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+      const { handle, tokenAddress } = await autoPay.getConfidentialBalanceHandle(ruleId, address);
+      if (handle === ethers.ZeroHash) {
+        setBalance(0);
+        return;
+      }
+      const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+      setBalance(await decryptValue(handle, tokenAddress, signer));
+    } catch (e) {
+      notify("error", errorMessage(e, "Balance decryption failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="verification-section">
+      <h4>Confidential Balance</h4>
+      <div className="detail-item">
+        <span>Your balance</span>
+        <strong>{balance === null ? '🔒 Encrypted' : balance}</strong>
+      </div>
+      <button onClick={decryptBalance} disabled={busy} className="verify-btn">
+        {busy ? 'Working...' : 'Decrypt My Balance'}
+      </button>
+      {!isOperator && (
+        <button onClick={authorize} disabled={busy} className="create-btn">
+          Authorize AutoPay
+        </button>
+      )}
+      <p className="verify-hint">
+        Payment amount and balances stay encrypted; only you can decrypt your balance
+      </p>
+    </div>
+  );
+};
+
+export default ConfidentialBalancePanel;
@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { ethers } from "ethers";
+import { checkSubscriptionConsent, signSubscriptionConsent } from "../../fhevm-sdk/src";
+import type { PaymentRule, SubscriptionConsent, SubscriptionConsentRequest } from "../../fhevm-sdk/src";
+import { contractAddress, getAutoPayReadOnly, getNetworkProvider, normAddr } from "./useContract";
+import { useTransactions } from "./TransactionContext";
+import { SECONDS_PER_DAY, consentPath, errorMessage, formatAmount, subscriptionPath } from "./format";
+
+interface ConsentProps {
+  address: string;
+}
+
+/**
+ * A merchant's consent request, opened by the customer to sign, or the signed consent
+ * the customer sent back, opened by the merchant to create the subscription
+ */
+const Consent: React.FC<ConsentProps> = ({ address }) => {
+  const [params] = useSearchParams();
+  const navigate = useNavigate();
+  const { track, notify } = useTransactions();
+  const [rule, setRule] = useState<PaymentRule | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [signedLink, setSignedLink] = useState<string>();
+  const [problem, setProblem] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const request: SubscriptionConsentRequest = {
+    ruleId: params.get("rule") ?? "",
+    subscriptionId: params.get("sub") ?? "",
+    deadline: Number(params.get("deadline")),
+  };
+  const signature = params.get("sig");
+  const consent: SubscriptionConsent | null = signature ? {
+    ...request,
+    subscriber: params.get("subscriber") ?? "",
+    nonce: BigInt(params.get("nonce") ?? 0),
+    signature,
+  } : null;
+
+  const loadRule = async () => {
+    const autoPay = await getAutoPayReadOnly();
+    if (!autoPay) return;
+    try {
+      setRule(await autoPay.getPaymentRule(request.ruleId));
+    } catch (e) {
+      if (!ethers.isError(e, 'CALL_EXCEPTION')) throw e;
+      setNotFound(true);
+    }
+    if (consent) {
+      setProblem(await checkSubscriptionConsent(consent, contractAddress, await getNetworkProvider()));
+    }
+  };
+
+  useEffect(() => {
+    setRule(null);
+    setNotFound(false);
+    setSignedLink(undefined);
+    setProblem(null);
+    loadRule().catch(e => console.error('Failed to load consent request:', e));
+  }, [params]);
+
+  const sign = async () => {
+    setBusy(true);
+    try {
+      const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+      const signed = await signSubscriptionConsent(signer, contractAddress, request);
+      setSignedLink(`${window.location.origin}${consentPath(request, signed)}`);
+      notify("success", "Consent signed");
+    } catch (e) {
+      notify("error", errorMessage(e, "Signing failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = async () => {
+    if (!consent) return;
+    setBusy(true);
+    const subscribed = await track("Subscribing with consent", autoPay => autoPay.createSubscriptionWithConsent(consent));
+    setBusy(false);
+    if (subscribed) navigate(subscriptionPath(consent.subscriptionId));
+  };
+
+  const copySignedLink = async () => {
+    if (!signedLink) return;
+    await navigator.clipboard.writeText(signedLink);
+    notify("success", "Link copied");
+  };
+
+  if (notFound || !request.ruleId || !request.subscriptionId || !request.deadline) {
+    return (
+      <div className="empty-state">
+        <div className="empty-icon">🔍</div>
+        <h3>This consent link is invalid</h3>
+        <button onClick={() => navigate("/")} className="create-btn">Back to Dashboard</button>
+      </div>
+    );
+  }
+
+  if (!rule) {
+    return (
+      <section className="payments-section">
+        <div className="encryption-animation"></div>
+      </section>
+    );
+  }
+
+  const expired = request.deadline <= Date.now() / 1000;
+
+  return (
+    <section className="detail-panel">
+      <div className="modal-header">
+        <h2>{consent ? 'Signed Subscription Consent' : 'Subscription Consent Request'}</h2>
+        <button onClick={() => navigate(-1)} className="close-btn">×</button>
+      </div>
+
+      <div className="modal-body">
+        <div className="detail-section">
+          <h3>{rule.ruleId}</h3>
+          <p>{rule.description}</p>
+        </div>
+
+        <div className="detail-grid">
+          <div className="detail-item">
+            <span>Subscription</span>
+            <strong>{request.subscriptionId}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Amount</span>
+            <strong>{formatAmount(rule)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Frequency</span>
+            <strong>Every {rule.paymentInterval / SECONDS_PER_DAY} days</strong>
+          </div>
+          <div className="detail-item">
+            <span>Merchant</span>
+            <strong>{rule.creator.slice(0, 12)}...</strong>
+          </div>
+          <div className="detail-item">
+            <span>Valid Until</span>
+            <strong>{new Date(request.deadline * 1000).toLocaleString()}</strong>
+          </div>
+          {consent && (
+            <div className="detail-item">
+              <span>Subscriber</span>
+              <strong>{consent.subscriber.slice(0, 12)}...</strong>
+            </div>
+          )}
+        </div>
+
+        {consent ? (
+          <div className="verification-section">
+            <button onClick={submit} disabled={busy || problem !== null || !rule.isActive} className="create-btn">
+              Create Subscription
+            </button>
+            <p className="verify-hint">
+              {problem ?? (rule.isActive
+                ? `Enrolls ${normAddr(consent.subscriber) === normAddr(address) ? 'you' : 'the subscriber'}; you pay the gas`
+                : 'This rule is disabled')}
+            </p>
+          </div>
+        ) : signedLink ? (
+          <div className="verification-section">
+            <button onClick={copySignedLink} className="create-btn">Copy Signed Link</button>
+            <p className="verify-hint">Send this link back to the merchant so they can create the subscription</p>
+          </div>
+        ) : (
+          <div className="verification-section">
+            <button onClick={sign} disabled={busy || expired || !rule.isActive} className="verify-btn">
+              {busy ? 'Signing...' : 'Sign Consent'}
+            </button>
+            <p className="verify-hint">
+              {expired ? 'This request has expired' : 'Signing sends nothing on-chain; the merchant submits your consent'}
+            </p>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default Consent;
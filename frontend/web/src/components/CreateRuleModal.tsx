@@ -0,0 +1,195 @@
+import React, { useState } from "react";
+import type { PaymentRuleWithStats } from "../../fhevm-sdk/src";
+import { SECONDS_PER_DAY, ZERO_ADDRESS } from "./format";
+import { useTransactions } from "./TransactionContext";
+
+interface CreateRuleModalProps {
+  address: string;
+  onClose: () => void;
+  /** Called with the rule as it now reads on-chain, so the caller can show it without refetching */
+  onCreated: (rule: PaymentRuleWithStats) => void;
+}
+
+const EMPTY_FORM = {
+  recipient: "",
+  paymentToken: "",
+  confidential: false,
+  amount: "",
+  frequency: "7",
+  threshold: "1",
+  description: ""
+};
+
+const CreateRuleModal: React.FC<CreateRuleModalProps> = ({ address, onClose, onCreated }) => {
+  const { track } = useTransactions();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+
+  const createRule = async () => {
+    const ruleId = `rule-${Date.now()}`;
+    const amount = BigInt(form.amount || "0");
+    const threshold = parseInt(form.threshold) || 0;
+    const paymentInterval = (parseInt(form.frequency) || 1) * SECONDS_PER_DAY;
+    const paymentToken = form.paymentToken || ZERO_ADDRESS;
+
+    setCreating(true);
+    const created = await track("Creating payment rule", autoPay => form.confidential
+      ? autoPay.createConfidentialPaymentRule(address, {
+          ruleId,
+          amount,
+          threshold,
+          paymentInterval,
+          recipient: form.recipient,
+          paymentToken,
+          description: form.description
+        })
+      : autoPay.createPaymentRule(address, {
+          ruleId,
+          threshold,
+          amount,
+          paymentInterval,
+          recipient: form.recipient,
+          paymentToken,
+          description: form.description
+        })
+    );
+    setCreating(false);
+    if (!created) return;
+
+    onCreated({
+      ruleId,
+      amount: form.confidential ? 0n : amount,
+      paymentInterval,
+      recipient: form.recipient,
+      paymentToken,
+      isConfidential: form.confidential,
+      description: form.description,
+      creator: address,
+      timestamp: Math.floor(Date.now() / 1000),
+      isActive: true,
+      subscriptionCount: 0
+    });
+    setForm(EMPTY_FORM);
+    onClose();
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal">
+        <div className="modal-header">
+          <h2>Create AutoPay Condition</h2>
+          <button onClick={onClose} className="close-btn">×</button>
+        </div>
+        
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <div className="notice-icon">🔐</div>
+            <div>
+              <strong>FHE Encrypted Condition</strong>
+              <p>The trigger threshold is encrypted with Zama FHE and compared to encrypted metrics on-chain</p>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Recipient Address</label>
+            <input 
+              type="text" 
+              value={form.recipient}
+              onChange={(e) => setForm({...form, recipient: e.target.value})}
+              placeholder="0x..."
+            />
+          </div>
+
+          <div className="form-group">
+            <label>Payment Token</label>
+            <input 
+              type="text" 
+              value={form.paymentToken}
+              onChange={(e) => setForm({...form, paymentToken: e.target.value})}
+              placeholder={form.confidential ? "ERC-7984 confidential token address" : "ERC-20 address (leave empty for ETH escrow)"}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="filter-toggle">
+              <input 
+                type="checkbox" 
+                checked={form.confidential}
+                onChange={(e) => setForm({...form, confidential: e.target.checked})}
+              />
+              Confidential payment (amount and balances never revealed)
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>{form.confidential ? 'Amount (FHE Encrypted)' : 'Amount'}</label>
+            <input 
+              type="number" 
+              value={form.amount}
+              onChange={(e) => setForm({...form, amount: e.target.value})}
+              placeholder={form.paymentToken ? "Enter amount in token units" : "Enter amount in wei"}
+              min="0"
+            />
+            <span className="input-hint">
+              {form.confidential ? 'Integer only - will be FHE encrypted' : 'Integer only - paid out publicly'}
+            </span>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label>Frequency (days)</label>
+              <select 
+                value={form.frequency}
+                onChange={(e) => setForm({...form, frequency: e.target.value})}
+              >
+                <option value="1">Daily</option>
+                <option value="7">Weekly</option>
+                <option value="30">Monthly</option>
+                <option value="90">Quarterly</option>
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label>Threshold (FHE Encrypted)</label>
+              <input 
+                type="number" 
+                value={form.threshold}
+                onChange={(e) => setForm({...form, threshold: e.target.value})}
+                placeholder="Trigger threshold"
+                min="0"
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Description</label>
+            <textarea 
+              value={form.description}
+              onChange={(e) => setForm({...form, description: e.target.value})}
+              placeholder="Describe this payment condition..."
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <div className="modal-footer">
+          <button 
+            onClick={onClose} 
+            className="cancel-btn"
+          >
+            Cancel
+          </button>
+          <button 
+            onClick={createRule}
+            disabled={creating || !form.recipient || !form.amount || (form.confidential && !form.paymentToken)}
+            className="create-btn"
+          >
+            {creating ? 'Creating...' : 'Create AutoPay'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CreateRuleModal;
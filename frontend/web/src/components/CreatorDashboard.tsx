@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { PaymentRuleWithStats } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly } from "./useContract";
+import { SECONDS_PER_DAY, rulePath } from "./format";
+
+interface CreatorDashboardProps {
+  address: string;
+}
+
+const RULES_PAGE_SIZE = 200;
+
+const CreatorDashboard: React.FC<CreatorDashboardProps> = ({ address }) => {
+  const navigate = useNavigate();
+  const [rules, setRules] = useState<PaymentRuleWithStats[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadRules = async () => {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+      setRules(await autoPay.getAllPaymentRules(RULES_PAGE_SIZE, { creator: address }));
+    };
+
+    setLoading(true);
+    loadRules()
+      .catch(e => console.error('Failed to load rules:', e))
+      .finally(() => setLoading(false));
+  }, [address]);
+
+  if (loading) {
+    return (
+      <section className="payments-section">
+        <div className="encryption-animation"></div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="payments-section">
+      <h2>My Rules</h2>
+      <div className="payments-grid">
+        {rules.map(rule => (
+          <div
+            key={rule.ruleId}
+            className={`payment-card ${rule.isActive ? 'verified' : ''}`}
+            onClick={() => navigate(rulePath(rule.ruleId))}
+          >
+            <div className="payment-header">
+              <h3>{rule.ruleId}</h3>
+              <span className={`status-badge ${rule.isActive ? 'verified' : 'pending'}`}>
+                {rule.isActive ? '⚡ Active' : '⏸ Disabled'}
+              </span>
+            </div>
+            <p className="payment-desc">{rule.description}</p>
+            <div className="payment-details">
+              <div className="detail-item">
+                <span>Amount:</span>
+                <strong>{rule.isConfidential ? '🔒 Confidential' : rule.amount.toString()}</strong>
+              </div>
+              <div className="detail-item">
+                <span>Frequency:</span>
+                <strong>Every {rule.paymentInterval / SECONDS_PER_DAY} days</strong>
+              </div>
+              <div className="detail-item">
+                <span>Subscribers:</span>
+                <strong>{rule.subscriptionCount}</strong>
+              </div>
+            </div>
+            <div className="payment-footer">
+              <span className="creator">→ {rule.recipient.slice(0, 8)}...</span>
+              <span className="date">{new Date(rule.timestamp * 1000).toLocaleDateString()}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {rules.length === 0 && (
+        <div className="empty-state">
+          <div className="empty-icon">📋</div>
+          <h3>You have not created any rules</h3>
+          <p>Create one from the dashboard with "+ New AutoPay"</p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default CreatorDashboard;
@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { PaymentRuleWithStats } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly, normAddr } from "./useContract";
+import { SECONDS_PER_DAY, rulePath } from "./format";
+import CreateRuleModal from "./CreateRuleModal";
+
+interface DashboardProps {
+  address: string;
+}
+
+const RULES_PAGE_SIZE = 200;
+
+const Dashboard: React.FC<DashboardProps> = ({ address }) => {
+  const navigate = useNavigate();
+  const [rules, setRules] = useState<PaymentRuleWithStats[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [filterActive, setFilterActive] = useState(false);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+
+  useEffect(() => {
+    const loadData = async () => {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+      // Two RPC calls per page: the ids, then one multicall for the details
+      setRules(await autoPay.getAllPaymentRules(RULES_PAGE_SIZE));
+    };
+
+    loadData().catch(e => console.error('Load data error:', e));
+  }, [address]);
+
+  const stats = {
+    total: rules.length,
+    active: rules.filter(r => r.isActive).length,
+    mine: rules.filter(r => normAddr(r.creator) === normAddr(address)).length
+  };
+
+  const filteredRules = rules.filter(rule => {
+    const matchesSearch = rule.ruleId.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         rule.description.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesFilter = !filterActive || rule.isActive;
+    return matchesSearch && matchesFilter;
+  });
+
+  return (
+    <>
+      <section className="stats-section">
+        <div className="stat-card">
+          <div className="stat-icon">💳</div>
+          <div className="stat-info">
+            <h3>{stats.total}</h3>
+            <p>Total Payments</p>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-icon">⚡</div>
+          <div className="stat-info">
+            <h3>{stats.active}</h3>
+            <p>Active</p>
+          </div>
+        </div>
+        <div className="stat-card">
+          <div className="stat-icon">👤</div>
+          <div className="stat-info">
+            <h3>{stats.mine}</h3>
+            <p>Created by Me</p>
+          </div>
+        </div>
+      </section>
+
+      <section className="controls-section">
+        <div className="search-filters">
+          <div className="search-box">
+            <input
+              type="text"
+              placeholder="Search payments..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+            />
+          </div>
+          <div className="filters">
+            <label className="filter-toggle">
+              <input
+                type="checkbox"
+                checked={filterActive}
+                onChange={(e) => setFilterActive(e.target.checked)}
+              />
+              Active Only
+            </label>
+          </div>
+        </div>
+        <button onClick={() => setShowCreateModal(true)} className="create-payment-btn">
+          + New AutoPay
+        </button>
+      </section>
+
+      <section className="payments-section">
+        <h2>Payment Conditions</h2>
+        <div className="payments-grid">
+          {filteredRules.map((rule) => (
+            <div
+              key={rule.ruleId}
+              className={`payment-card ${rule.isActive ? 'verified' : ''}`}
+              onClick={() => navigate(rulePath(rule.ruleId))}
+            >
+              <div className="payment-header">
+                <h3>{rule.ruleId}</h3>
+                <span className={`status-badge ${rule.isActive ? 'verified' : 'pending'}`}>
+                  {rule.isActive ? '⚡ Active' : '⏸ Disabled'}
+                </span>
+              </div>
+              <p className="payment-desc">{rule.description}</p>
+              <div className="payment-details">
+                <div className="detail-item">
+                  <span>Amount:</span>
+                  <strong>
+                    {rule.isConfidential ? '🔒 Confidential' : rule.amount.toString()}
+                  </strong>
+                </div>
+                <div className="detail-item">
+                  <span>Frequency:</span>
+                  <strong>Every {rule.paymentInterval / SECONDS_PER_DAY} days</strong>
+                </div>
+                <div className="detail-item">
+                  <span>Subscribers:</span>
+                  <strong>{rule.subscriptionCount}</strong>
+                </div>
+              </div>
+              <div className="payment-footer">
+                <span className="creator">{rule.creator.slice(0, 8)}...</span>
+                <span className="date">{new Date(rule.timestamp * 1000).toLocaleDateString()}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {filteredRules.length === 0 && (
+          <div className="empty-state">
+            <div className="empty-icon">💸</div>
+            <h3>No payment conditions found</h3>
+            <p>Create your first encrypted auto-payment condition</p>
+            <button onClick={() => setShowCreateModal(true)} className="create-btn">
+              Create Payment Condition
+            </button>
+          </div>
+        )}
+      </section>
+
+      {showCreateModal && (
+        <CreateRuleModal
+          address={address}
+          onClose={() => setShowCreateModal(false)}
+          onCreated={rule => setRules(prev => [...prev, rule])}
+        />
+      )}
+    </>
+  );
+};
+
+export default Dashboard;
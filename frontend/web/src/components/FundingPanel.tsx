@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import type { AutoPayClient } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly, normAddr } from "./useContract";
+import { useTransactions } from "./TransactionContext";
+
+interface FundingRow {
+  subscriptionId: string;
+  balance: bigint;
+}
+
+interface FundingPanelProps {
+  ruleId: string;
+  paymentToken: string;
+  address: string;
+}
+
+const FundingPanel: React.FC<FundingPanelProps> = ({ ruleId, paymentToken, address }) => {
+  const { track } = useTransactions();
+  const [rows, setRows] = useState<FundingRow[]>([]);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const isEth = paymentToken === ethers.ZeroAddress;
+
+  const loadBalances = async () => {
+    const autoPay = await getAutoPayReadOnly();
+    if (!autoPay) return;
+
+    const subscriptionIds = await autoPay.getRuleSubscriptions(ruleId);
+    const mine: FundingRow[] = [];
+    for (const subscriptionId of subscriptionIds) {
+      const subscription = await autoPay.getSubscription(subscriptionId);
+      if (normAddr(subscription.subscriber) !== normAddr(address)) continue;
+      const balance = isEth
+        ? await autoPay.getEscrowBalance(subscriptionId)
+        : await autoPay.getTokenAllowance(ruleId, address);
+      mine.push({ subscriptionId, balance });
+    }
+    setRows(mine);
+  };
+
+  useEffect(() => {
+    loadBalances().catch(e => console.error('Failed to load escrow balances:', e));
+  }, [ruleId, address]);
+
+  const run = async (
+    label: string,
+    action: (autoPay: AutoPayClient, amount: bigint) => Promise<unknown>,
+    balanceAfter: (balance: bigint, amount: bigint) => bigint,
+    subscriptionId: string
+  ) => {
+    const raw = amounts[subscriptionId];
+    if (!raw) return;
+    const amount = isEth ? ethers.parseEther(raw) : BigInt(raw);
+
+    setBusy(true);
+    const confirmed = await track(label, autoPay => action(autoPay, amount));
+    setBusy(false);
+    if (!confirmed) return;
+
+    setAmounts(prev => ({ ...prev, [subscriptionId]: "" }));
+    setRows(prev => prev.map(r => r.subscriptionId === subscriptionId ? { ...r, balance: balanceAfter(r.balance, amount) } : r));
+  };
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="verification-section">
+      <h4>{isEth ? 'Escrow Balance' : 'Token Allowance'}</h4>
+      {rows.map(row => (
+        <div key={row.subscriptionId} className="form-group">
+          <label>
+            {row.subscriptionId}: {isEth ? `${ethers.formatEther(row.balance)} ETH` : row.balance.toString()}
+          </label>
+          <input
+            type="text"
+            value={amounts[row.subscriptionId] || ""}
+            onChange={(e) => setAmounts({ ...amounts, [row.subscriptionId]: e.target.value })}
+            placeholder={isEth ? "Amount in ETH" : "Allowance in token units"}
+          />
+          <div className="form-row">
+            {isEth ? (
+              <>
+                <button
+                  className="create-btn"
+                  disabled={busy}
+                  onClick={() => run("Deposit", (autoPay, amount) => autoPay.depositEscrow(row.subscriptionId, amount), (balance, amount) => balance + amount, row.subscriptionId)}
+                >
+                  Deposit
+                </button>
+                <button
+                  className="cancel-btn"
+                  disabled={busy || row.balance === 0n}
+                  onClick={() => run("Withdraw", (autoPay, amount) => autoPay.withdrawEscrow(row.subscriptionId, amount), (balance, amount) => balance - amount, row.subscriptionId)}
+                >
+                  Withdraw
+                </button>
+              </>
+            ) : (
+              <button
+                className="create-btn"
+                disabled={busy}
+                onClick={() => run("Approve", (autoPay, amount) => autoPay.approvePaymentToken(ruleId, amount), (_, amount) => amount, row.subscriptionId)}
+              >
+                Approve
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FundingPanel;
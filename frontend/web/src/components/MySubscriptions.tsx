@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { getNextDueTimestamp } from "../../fhevm-sdk/src";
+import type { AutoPayClient, PaymentRule, PaymentRuleWithStats, Subscription } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly, normAddr } from "./useContract";
+import { useTransactions } from "./TransactionContext";
+import { SECONDS_PER_DAY, formatAmount, formatLastPayment, formatNextDue, formatStatus, rulePath, subscriptionPath, subscriptionStatus } from "./format";
+
+interface SubscriptionRow {
+  subscription: Subscription;
+  rule: PaymentRule;
+  nextDue: number;
+}
+
+interface MySubscriptionsProps {
+  address: string;
+}
+
+const RULES_PAGE_SIZE = 200;
+
+const MySubscriptions: React.FC<MySubscriptionsProps> = ({ address }) => {
+  const navigate = useNavigate();
+  const { track } = useTransactions();
+  const [rules, setRules] = useState<PaymentRuleWithStats[]>([]);
+  const [rows, setRows] = useState<SubscriptionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const loadData = async () => {
+    const autoPay = await getAutoPayReadOnly();
+    if (!autoPay) return;
+
+    const [allRules, subscriptions] = await Promise.all([
+      autoPay.getAllPaymentRules(RULES_PAGE_SIZE),
+      autoPay.getSubscriberSubscriptions(address),
+    ]);
+
+    const rulesById = new Map<string, PaymentRule>(allRules.map(rule => [rule.ruleId, rule]));
+    setRules(allRules);
+    setRows(subscriptions.map(subscription => {
+      const rule = rulesById.get(subscription.ruleId)!;
+      return { subscription, rule, nextDue: getNextDueTimestamp(subscription, rule) };
+    }));
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadData()
+      .catch(e => console.error('Failed to load subscriptions:', e))
+      .finally(() => setLoading(false));
+  }, [address]);
+
+  // Shows the change right away and takes it back if the transaction fails
+  const run = async (label: string, action: (autoPay: AutoPayClient) => Promise<unknown>, apply: () => void, revert: () => void) => {
+    apply();
+    setBusy(true);
+    const confirmed = await track(label, action);
+    setBusy(false);
+    if (!confirmed) revert();
+  };
+
+  const subscribe = (rule: PaymentRule) => {
+    const subscription: Subscription = {
+      subscriptionId: `sub-${Date.now()}`,
+      ruleId: rule.ruleId,
+      subscriber: address,
+      lastPaymentTimestamp: 0,
+      isActive: true,
+      pausedUntil: 0,
+      paymentCount: 0,
+      maxPayments: 0,
+      endTimestamp: 0,
+    };
+    const row = { subscription, rule, nextDue: getNextDueTimestamp(subscription, rule) };
+    return run(
+      "Subscribing",
+      autoPay => autoPay.createSubscription(subscription.subscriptionId, rule.ruleId, address),
+      () => setRows(prev => [...prev, row]),
+      () => setRows(prev => prev.filter(r => r !== row))
+    );
+  };
+
+  const cancel = (subscriptionId: string) => {
+    const setActive = (isActive: boolean) => setRows(prev => prev.map(r =>
+      r.subscription.subscriptionId === subscriptionId ? { ...r, subscription: { ...r.subscription, isActive } } : r
+    ));
+    return run(
+      "Cancelling subscription",
+      autoPay => autoPay.disableSubscription(subscriptionId),
+      () => setActive(false),
+      () => setActive(true)
+    );
+  };
+
+  const subscribedRuleIds = new Set(rows.filter(row => row.subscription.isActive).map(row => row.rule.ruleId));
+  const availableRules = rules.filter(rule => rule.isActive && !subscribedRuleIds.has(rule.ruleId));
+
+  if (loading) {
+    return (
+      <section className="payments-section">
+        <div className="encryption-animation"></div>
+      </section>
+    );
+  }
+
+  return (
+    <>
+      <section className="payments-section">
+        <h2>My Subscriptions</h2>
+        <div className="payments-grid">
+          {rows.map(({ subscription, rule, nextDue }) => (
+            <div
+              key={subscription.subscriptionId}
+              className={`payment-card ${subscriptionStatus(subscription) === 'active' && rule.isActive ? 'verified' : ''}`}
+              onClick={() => navigate(subscriptionPath(subscription.subscriptionId))}
+            >
+              <div className="payment-header">
+                <h3>{subscription.subscriptionId}</h3>
+                <span className={`status-badge ${subscriptionStatus(subscription) === 'active' ? 'verified' : 'pending'}`}>
+                  {subscriptionStatus(subscription) === 'active' ? '⚡' : '⏸'} {formatStatus(subscription)}
+                </span>
+              </div>
+              <p className="payment-desc">{rule.description}</p>
+              <div className="payment-details">
+                <div className="detail-item">
+                  <span>Rule:</span>
+                  <strong>{rule.ruleId}</strong>
+                </div>
+                <div className="detail-item">
+                  <span>Amount:</span>
+                  <strong>{formatAmount(rule)}</strong>
+                </div>
+                <div className="detail-item">
+                  <span>Last Payment:</span>
+                  <strong>{formatLastPayment(subscription)}</strong>
+                </div>
+                <div className="detail-item">
+                  <span>Next Due:</span>
+                  <strong>{formatNextDue(subscription, rule, nextDue)}</strong>
+                </div>
+              </div>
+              {subscription.isActive && (
+                <div className="payment-footer">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      cancel(subscription.subscriptionId);
+                    }}
+                    disabled={busy}
+                    className="cancel-btn"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {rows.length === 0 && (
+          <div className="empty-state">
+            <div className="empty-icon">🧾</div>
+            <h3>No subscriptions yet</h3>
+            <p>Subscribe to one of the active payment rules below</p>
+          </div>
+        )}
+      </section>
+
+      <section className="payments-section">
+        <h2>Available Rules</h2>
+        <div className="payments-grid">
+          {availableRules.map(rule => (
+            <div key={rule.ruleId} className="payment-card" onClick={() => navigate(rulePath(rule.ruleId))}>
+              <div className="payment-header">
+                <h3>{rule.ruleId}</h3>
+                {normAddr(rule.creator) === normAddr(address) && (
+                  <span className="status-badge pending">Created by me</span>
+                )}
+              </div>
+              <p className="payment-desc">{rule.description}</p>
+              <div className="payment-details">
+                <div className="detail-item">
+                  <span>Amount:</span>
+                  <strong>{formatAmount(rule)}</strong>
+                </div>
+                <div className="detail-item">
+                  <span>Frequency:</span>
+                  <strong>Every {rule.paymentInterval / SECONDS_PER_DAY} days</strong>
+                </div>
+                <div className="detail-item">
+                  <span>Subscribers:</span>
+                  <strong>{rule.subscriptionCount}</strong>
+                </div>
+              </div>
+              <div className="payment-footer">
+                <span className="creator">{rule.creator.slice(0, 8)}...</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    subscribe(rule);
+                  }}
+                  disabled={busy}
+                  className="create-btn"
+                >
+                  Subscribe
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {availableRules.length === 0 && (
+          <div className="empty-state">
+            <div className="empty-icon">💸</div>
+            <h3>No active rules to subscribe to</h3>
+          </div>
+        )}
+      </section>
+    </>
+  );
+};
+
+export default MySubscriptions;
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { AutoPayIndexer, usePaymentHistory } from "../../fhevm-sdk/src";
+import type { PaymentHistoryFilter } from "../../fhevm-sdk/src";
+import { getAutoPayIndexer } from "./useContract";
+import { ZERO_ADDRESS, rulePath, subscriptionPath } from "./format";
+
+interface PaymentHistoryProps {
+  filter: PaymentHistoryFilter;
+  title?: string;
+}
+
+const PaymentHistory: React.FC<PaymentHistoryProps> = ({ filter, title = "Payment History" }) => {
+  const [indexer, setIndexer] = useState<AutoPayIndexer | null>(null);
+  const { payments, refresh, isSyncing, error } = usePaymentHistory(indexer, filter);
+
+  useEffect(() => {
+    getAutoPayIndexer()
+      .then(setIndexer)
+      .catch(e => console.error('Failed to create payment indexer:', e));
+  }, []);
+
+  return (
+    <div className="verification-section">
+      <h4>{title}</h4>
+      {error && <p className="verify-hint">{error.message}</p>}
+      {!error && payments.length === 0 && (
+        <p className="verify-hint">{isSyncing ? 'Loading payment events...' : 'No payments executed yet'}</p>
+      )}
+      {[...payments].reverse().map(payment => (
+        <div key={`${payment.transactionHash}-${payment.logIndex}`} className="detail-item">
+          <span>
+            {new Date(payment.timestamp * 1000).toLocaleString()} ·{' '}
+            {!filter.ruleId && <><Link to={rulePath(payment.ruleId)}>{payment.ruleId}</Link> · </>}
+            <Link to={subscriptionPath(payment.subscriptionId)}>{payment.subscriptionId}</Link>{' '}
+            ({payment.subscriber.slice(0, 8)}...)
+          </span>
+          <strong>
+            {payment.isConfidential ? '🔒 Encrypted amount' :
+              `${payment.amount} ${payment.paymentToken === ZERO_ADDRESS ? 'WEI' : 'token units'}`
+            }
+          </strong>
+        </div>
+      ))}
+      <button className="verify-btn" disabled={isSyncing || !indexer} onClick={refresh}>
+        {isSyncing ? 'Syncing...' : 'Refresh'}
+      </button>
+    </div>
+  );
+};
+
+export default PaymentHistory;
@@ -0,0 +1,20 @@
+import React from "react";
+import PaymentHistory from "./PaymentHistory";
+
+interface PaymentsProps {
+  address: string;
+}
+
+const Payments: React.FC<PaymentsProps> = ({ address }) => (
+  <section className="detail-panel">
+    <div className="modal-header">
+      <h2>Payments</h2>
+    </div>
+    <div className="modal-body">
+      <PaymentHistory title="Sent" filter={{ subscriber: address }} />
+      <PaymentHistory title="Received" filter={{ recipient: address }} />
+    </div>
+  </section>
+);
+
+export default Payments;
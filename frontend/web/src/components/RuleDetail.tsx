@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ethers } from "ethers";
+import { decryptValue } from "../../fhevm-sdk/src";
+import type { PaymentRule, PaymentRuleWithStats } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly, normAddr } from "./useContract";
+import { useTransactions } from "./TransactionContext";
+import { SECONDS_PER_DAY, ZERO_ADDRESS, consentPath, errorMessage, formatAmount, subscriptionPath } from "./format";
+import ConditionPanel from "./ConditionPanel";
+import ConfidentialBalancePanel from "./ConfidentialBalancePanel";
+import FundingPanel from "./FundingPanel";
+import PaymentHistory from "./PaymentHistory";
+import RuleManagementPanel from "./RuleManagementPanel";
+import RuleTermsPanel from "./RuleTermsPanel";
+
+// How long a customer has to sign a consent request
+const CONSENT_VALIDITY = 7 * SECONDS_PER_DAY;
+
+interface RuleDetailProps {
+  address: string;
+}
+
+const RuleDetail: React.FC<RuleDetailProps> = ({ address }) => {
+  const { ruleId = "" } = useParams();
+  const navigate = useNavigate();
+  const { track, notify } = useTransactions();
+  const [rule, setRule] = useState<PaymentRuleWithStats | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [decryptedThreshold, setDecryptedThreshold] = useState<number>();
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const loadRule = async () => {
+    const autoPay = await getAutoPayReadOnly();
+    if (!autoPay) return;
+    try {
+      const [details, subscriptions] = await Promise.all([
+        autoPay.getPaymentRule(ruleId),
+        autoPay.getRuleSubscriptionsPage(ruleId, 0, 0),
+      ]);
+      setRule({ ...details, subscriptionCount: subscriptions.total });
+    } catch (e) {
+      if (!ethers.isError(e, 'CALL_EXCEPTION')) throw e;
+      setNotFound(true);
+    }
+  };
+
+  useEffect(() => {
+    setRule(null);
+    setNotFound(false);
+    setDecryptedThreshold(undefined);
+    loadRule().catch(e => console.error('Failed to load rule:', e));
+  }, [ruleId]);
+
+  const isCreator = rule !== null && normAddr(rule.creator) === normAddr(address);
+
+  // The threshold is only ACL-granted to the rule creator, so this is an EIP-712 user decryption
+  const decryptThreshold = async () => {
+    setIsDecrypting(true);
+    try {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+
+      const handle = await autoPay.getEncryptedThreshold(ruleId);
+      const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+      setDecryptedThreshold(await decryptValue(handle, autoPay.getAddress(), signer));
+      notify("success", "Threshold decrypted");
+    } catch (e) {
+      notify("error", errorMessage(e, "Decryption failed"));
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const subscribe = async () => {
+    const subscriptionId = `sub-${Date.now()}`;
+    setBusy(true);
+    const subscribed = await track("Subscribing", autoPay => autoPay.createSubscription(subscriptionId, ruleId, address));
+    setBusy(false);
+    if (subscribed) navigate(subscriptionPath(subscriptionId));
+  };
+
+  const applyChange = (patch: Partial<PaymentRule>) => setRule(prev => prev && { ...prev, ...patch });
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    notify("success", "Link copied");
+  };
+
+  const copyConsentLink = async () => {
+    const path = consentPath({
+      ruleId,
+      subscriptionId: `sub-${Date.now()}`,
+      deadline: Math.floor(Date.now() / 1000) + CONSENT_VALIDITY,
+    });
+    await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+    notify("success", "Consent request link copied");
+  };
+
+  if (notFound) {
+    return (
+      <div className="empty-state">
+        <div className="empty-icon">🔍</div>
+        <h3>Rule "{ruleId}" not found</h3>
+        <button onClick={() => navigate("/")} className="create-btn">Back to Dashboard</button>
+      </div>
+    );
+  }
+
+  if (!rule) {
+    return (
+      <section className="payments-section">
+        <div className="encryption-animation"></div>
+      </section>
+    );
+  }
+
+  return (
+    <section className="detail-panel">
+      <div className="modal-header">
+        <h2>Payment Details</h2>
+        <div className="header-right">
+          {isCreator && rule.isActive && (
+            <button onClick={copyConsentLink} className="status-btn">Request Consent</button>
+          )}
+          <button onClick={copyLink} className="status-btn">Copy Link</button>
+          <button onClick={() => navigate(-1)} className="close-btn">×</button>
+        </div>
+      </div>
+
+      <div className="modal-body">
+        <div className="detail-section">
+          <h3>{rule.ruleId}</h3>
+          <p>{rule.description}</p>
+        </div>
+
+        <div className="detail-grid">
+          <div className="detail-item">
+            <span>Status</span>
+            <strong className={rule.isActive ? 'verified' : 'encrypted'}>
+              {rule.isActive ? 'Active' : 'Disabled'}
+            </strong>
+          </div>
+          <div className="detail-item">
+            <span>Amount</span>
+            <strong>{formatAmount(rule)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Threshold</span>
+            <strong>
+              {decryptedThreshold !== undefined ? `${decryptedThreshold} (decrypted)` : '🔒 Encrypted'}
+            </strong>
+          </div>
+          <div className="detail-item">
+            <span>Frequency</span>
+            <strong>Every {rule.paymentInterval / SECONDS_PER_DAY} days</strong>
+          </div>
+          <div className="detail-item">
+            <span>Recipient</span>
+            <strong>{rule.recipient.slice(0, 12)}...</strong>
+          </div>
+          <div className="detail-item">
+            <span>Paid In</span>
+            <strong>
+              {rule.paymentToken === ZERO_ADDRESS ? 'ETH (escrow)' : `${rule.paymentToken.slice(0, 12)}...`}
+              {rule.isConfidential && ' (ERC-7984)'}
+            </strong>
+          </div>
+          <div className="detail-item">
+            <span>Creator</span>
+            <strong>{rule.creator.slice(0, 12)}...</strong>
+          </div>
+          <div className="detail-item">
+            <span>Subscribers</span>
+            <strong>{rule.subscriptionCount}</strong>
+          </div>
+        </div>
+
+        {decryptedThreshold === undefined && isCreator && (
+          <div className="verification-section">
+            <button
+              onClick={decryptThreshold}
+              disabled={isDecrypting}
+              className="verify-btn"
+            >
+              {isDecrypting ? 'Decrypting...' : 'Decrypt Threshold'}
+            </button>
+            <p className="verify-hint">
+              Only you, the rule creator, can decrypt the threshold
+            </p>
+          </div>
+        )}
+
+        {rule.isActive && (
+          <div className="verification-section">
+            <button onClick={subscribe} disabled={busy} className="create-btn">
+              Subscribe
+            </button>
+          </div>
+        )}
+
+        <ConditionPanel ruleId={rule.ruleId} address={address} />
+
+        {rule.isConfidential ? (
+          <ConfidentialBalancePanel ruleId={rule.ruleId} address={address} />
+        ) : (
+          <FundingPanel
+            ruleId={rule.ruleId}
+            paymentToken={rule.paymentToken}
+            address={address}
+          />
+        )}
+
+        <PaymentHistory filter={{ ruleId: rule.ruleId }} />
+
+        {isCreator && (
+          <>
+            <RuleTermsPanel rule={rule} address={address} />
+            <RuleManagementPanel rule={rule} address={address} onChange={applyChange} />
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default RuleDetail;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import type { AutoPayClient, PaymentRule, Subscription } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly, normAddr } from "./useContract";
+import { useTransactions } from "./TransactionContext";
+import { formatLastPayment, subscriptionPath } from "./format";
+
+interface RuleManagementPanelProps {
+  rule: PaymentRule;
+  address: string;
+  /** Applies a change to the displayed rule; called again with the old values if the transaction fails */
+  onChange: (patch: Partial<PaymentRule>) => void;
+}
+
+const RuleManagementPanel: React.FC<RuleManagementPanelProps> = ({ rule, address, onChange }) => {
+  const { track, notify } = useTransactions();
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [edit, setEdit] = useState({ description: rule.description, recipient: rule.recipient });
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setEdit({ description: rule.description, recipient: rule.recipient });
+  }, [rule.description, rule.recipient]);
+
+  useEffect(() => {
+    const loadSubscriptions = async () => {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+      const ids = await autoPay.getRuleSubscriptions(rule.ruleId);
+      setSubscriptions(await autoPay.getSubscriptions(ids));
+    };
+    loadSubscriptions().catch(e => console.error('Failed to load subscriptions:', e));
+  }, [rule.ruleId]);
+
+  // Shows the change right away and restores the previous values if the transaction fails
+  const run = async <K extends keyof PaymentRule>(
+    label: string,
+    patch: Pick<PaymentRule, K>,
+    action: (autoPay: AutoPayClient) => Promise<unknown>
+  ) => {
+    // The contract enforces this too; checking first spares the wallet prompt for a doomed transaction
+    if (normAddr(rule.creator) !== normAddr(address)) {
+      notify("error", "Only the rule creator can change it");
+      return;
+    }
+
+    const previous = Object.fromEntries(Object.keys(patch).map(key => [key, rule[key as K]])) as Pick<PaymentRule, K>;
+    onChange(patch);
+    setBusy(true);
+    const confirmed = await track(label, action);
+    setBusy(false);
+    if (!confirmed) onChange(previous);
+  };
+
+  const toggleActive = () => run(
+    rule.isActive ? "Disabling rule" : "Reactivating rule",
+    { isActive: !rule.isActive },
+    autoPay => rule.isActive ? autoPay.disableRule(rule.ruleId) : autoPay.enableRule(rule.ruleId)
+  );
+
+  const saveDescription = () => run(
+    "Updating description",
+    { description: edit.description },
+    autoPay => autoPay.updateRuleDescription(rule.ruleId, edit.description)
+  );
+
+  const saveRecipient = () => run(
+    "Updating recipient",
+    { recipient: edit.recipient },
+    autoPay => autoPay.updateRuleRecipient(rule.ruleId, edit.recipient)
+  );
+
+  return (
+    <>
+      <div className="verification-section">
+        <h4>Status: {rule.isActive ? 'Active' : 'Disabled'}</h4>
+        <button
+          onClick={toggleActive}
+          disabled={busy}
+          className={rule.isActive ? 'cancel-btn' : 'create-btn'}
+        >
+          {rule.isActive ? 'Disable Rule' : 'Reactivate Rule'}
+        </button>
+        <p className="verify-hint">
+          {rule.isActive ?
+            'Disabled rules accept no new subscriptions, metrics or payments' :
+            'Existing subscriptions resume once the rule is active again'
+          }
+        </p>
+      </div>
+
+      <div className="verification-section">
+        <div className="form-group">
+          <label>Description</label>
+          <textarea
+            value={edit.description}
+            onChange={(e) => setEdit({ ...edit, description: e.target.value })}
+            rows={3}
+          />
+        </div>
+        <button
+          onClick={saveDescription}
+          disabled={busy || edit.description === rule.description}
+          className="verify-btn"
+        >
+          Save Description
+        </button>
+      </div>
+
+      <div className="verification-section">
+        <div className="form-group">
+          <label>Recipient Address</label>
+          <input
+            type="text"
+            value={edit.recipient}
+            onChange={(e) => setEdit({ ...edit, recipient: e.target.value })}
+            placeholder="0x..."
+          />
+        </div>
+        <button
+          onClick={saveRecipient}
+          disabled={busy || !ethers.isAddress(edit.recipient) || normAddr(edit.recipient) === normAddr(rule.recipient)}
+          className="verify-btn"
+        >
+          Save Recipient
+        </button>
+        <p className="verify-hint">Applies to every payment executed from now on</p>
+      </div>
+
+      <div className="verification-section">
+        <h4>Subscribers ({subscriptions.length})</h4>
+        {subscriptions.length === 0 && <p className="verify-hint">No subscriptions yet</p>}
+        {subscriptions.map(subscription => (
+          <div key={subscription.subscriptionId} className="detail-item">
+            <span>
+              <Link to={subscriptionPath(subscription.subscriptionId)}>{subscription.subscriptionId}</Link>
+              {' · '}{subscription.subscriber.slice(0, 10)}...
+              {!subscription.isActive && ' (cancelled)'}
+            </span>
+            <strong>Last paid: {formatLastPayment(subscription)}</strong>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+};
+
+export default RuleManagementPanel;
@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from "react";
+import type { PaymentRule, RuleTerms } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly } from "./useContract";
+import { useTransactions } from "./TransactionContext";
+import { SECONDS_PER_DAY, formatTermsAmount } from "./format";
+
+interface RuleTermsPanelProps {
+  rule: PaymentRule;
+  address: string;
+}
+
+/**
+ * The creator's view of a rule's terms versions, with a form to propose new ones
+ */
+const RuleTermsPanel: React.FC<RuleTermsPanelProps> = ({ rule, address }) => {
+  const { track } = useTransactions();
+  const [history, setHistory] = useState<RuleTerms[]>([]);
+  const [noticePeriod, setNoticePeriod] = useState(0);
+  const [terms, setTerms] = useState({ threshold: "", amount: "" });
+  const [busy, setBusy] = useState(false);
+
+  const loadHistory = async () => {
+    const autoPay = await getAutoPayReadOnly();
+    if (!autoPay) return;
+    const [versions, notice] = await Promise.all([
+      autoPay.getRuleTermsHistory(rule.ruleId),
+      autoPay.getTermsNoticePeriod(),
+    ]);
+    setHistory(versions);
+    setNoticePeriod(notice);
+  };
+
+  useEffect(() => {
+    loadHistory().catch(e => console.error('Failed to load rule terms:', e));
+  }, [rule.ruleId]);
+
+  const now = Date.now() / 1000;
+  const pending = history.find(version => version.effectiveAt > now);
+
+  const propose = async () => {
+    setBusy(true);
+    const proposed = await track("Proposing new terms", autoPay => autoPay.proposeRuleTerms(address, rule.ruleId, {
+      threshold: parseInt(terms.threshold),
+      amount: BigInt(terms.amount),
+    }));
+    setBusy(false);
+    if (!proposed) return;
+
+    setTerms({ threshold: "", amount: "" });
+    loadHistory().catch(e => console.error('Failed to load rule terms:', e));
+  };
+
+  return (
+    <div className="verification-section">
+      <h4>Terms</h4>
+      {[...history].reverse().map(version => (
+        <div key={version.version} className="detail-item">
+          <span>
+            Version {version.version}
+            {version === pending ? ' (pending)' : ''}
+          </span>
+          <strong>
+            {formatTermsAmount(rule, rule.isConfidential ? undefined : version.amount)}
+            {' · '}{version.effectiveAt > now ? 'from' : 'since'} {new Date(version.effectiveAt * 1000).toLocaleString()}
+          </strong>
+        </div>
+      ))}
+      {!pending && (
+        <div className="form-group">
+          <div className="form-row">
+            <input
+              type="number"
+              value={terms.threshold}
+              onChange={(e) => setTerms({ ...terms, threshold: e.target.value })}
+              placeholder="New threshold"
+              min="0"
+            />
+            <input
+              type="number"
+              value={terms.amount}
+              onChange={(e) => setTerms({ ...terms, amount: e.target.value })}
+              placeholder={rule.isConfidential ? 'New amount (encrypted)' : 'New amount'}
+              min="0"
+            />
+          </div>
+          <button
+            className="create-btn"
+            disabled={busy || !terms.threshold || !terms.amount}
+            onClick={propose}
+          >
+            Propose Terms
+          </button>
+        </div>
+      )}
+      <p className="verify-hint">
+        {pending
+          ? 'Subscribers can accept the pending terms early or decline them and leave when they take effect'
+          : `New terms apply to existing subscribers after ${noticePeriod / SECONDS_PER_DAY} days' notice, or sooner if they accept`}
+      </p>
+    </div>
+  );
+};
+
+export default RuleTermsPanel;
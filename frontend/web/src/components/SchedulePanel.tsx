@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import type { Subscription } from "../../fhevm-sdk/src";
+import { useTransactions } from "./TransactionContext";
+import { formatEnd, subscriptionStatus } from "./format";
+
+interface SchedulePanelProps {
+  subscription: Subscription;
+  onUpdate: (changes: Partial<Subscription>) => void;
+}
+
+// <input type="datetime-local"> values are local time; blank means none
+const toTimestamp = (value: string) => value ? Math.floor(new Date(value).getTime() / 1000) : 0;
+
+const SchedulePanel: React.FC<SchedulePanelProps> = ({ subscription, onUpdate }) => {
+  const { track } = useTransactions();
+  const [resumeAt, setResumeAt] = useState("");
+  const [end, setEnd] = useState({ maxPayments: "", endDate: "" });
+  const [busy, setBusy] = useState(false);
+  const { subscriptionId } = subscription;
+  const paused = subscriptionStatus(subscription) === 'paused';
+
+  const pause = async () => {
+    const resumeTimestamp = toTimestamp(resumeAt);
+    setBusy(true);
+    const confirmed = await track("Pausing subscription", autoPay => autoPay.pauseSubscription(subscriptionId, resumeTimestamp));
+    setBusy(false);
+    if (!confirmed) return;
+
+    setResumeAt("");
+    onUpdate({ pausedUntil: resumeTimestamp || Infinity });
+  };
+
+  const resume = async () => {
+    setBusy(true);
+    const confirmed = await track("Resuming subscription", autoPay => autoPay.resumeSubscription(subscriptionId));
+    setBusy(false);
+    if (confirmed) onUpdate({ pausedUntil: 0 });
+  };
+
+  const saveEnd = async () => {
+    const bounds = { maxPayments: parseInt(end.maxPayments) || 0, endTimestamp: toTimestamp(end.endDate) };
+    setBusy(true);
+    const confirmed = await track("Setting end date", autoPay => autoPay.setSubscriptionEnd(subscriptionId, bounds));
+    setBusy(false);
+    if (!confirmed) return;
+
+    setEnd({ maxPayments: "", endDate: "" });
+    onUpdate(bounds);
+  };
+
+  return (
+    <div className="verification-section">
+      <h4>Schedule</h4>
+      <div className="form-group">
+        <label>{paused ? 'Payments are on hold' : 'Pause payments'}</label>
+        {paused ? (
+          <button className="create-btn" disabled={busy} onClick={resume}>
+            Resume Now
+          </button>
+        ) : (
+          <div className="form-row">
+            <input
+              type="datetime-local"
+              value={resumeAt}
+              onChange={(e) => setResumeAt(e.target.value)}
+              title="Resume automatically at"
+            />
+            <button className="cancel-btn" disabled={busy} onClick={pause}>
+              Pause
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="form-group">
+        <label>Ends: {formatEnd(subscription)} ({subscription.paymentCount} paid so far)</label>
+        <div className="form-row">
+          <input
+            type="number"
+            value={end.maxPayments}
+            onChange={(e) => setEnd({ ...end, maxPayments: e.target.value })}
+            placeholder="Max payments"
+            min={subscription.paymentCount + 1}
+          />
+          <input
+            type="datetime-local"
+            value={end.endDate}
+            onChange={(e) => setEnd({ ...end, endDate: e.target.value })}
+            title="End date"
+          />
+        </div>
+        <button className="create-btn" disabled={busy} onClick={saveEnd}>
+          Set End
+        </button>
+      </div>
+      <p className="verify-hint">
+        Leave the resume date blank to pause until you resume; missed periods are not paid later. A blank end field removes that limit
+      </p>
+    </div>
+  );
+};
+
+export default SchedulePanel;
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { UNLIMITED_SPEND } from "../../fhevm-sdk/src";
+import type { PaymentRule, SpendingBudget } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly } from "./useContract";
+import { SECONDS_PER_DAY, errorMessage } from "./format";
+import { useTransactions } from "./TransactionContext";
+
+interface SpendingLimitsPanelProps {
+  subscriptionId: string;
+  rule: PaymentRule;
+  address: string;
+}
+
+const formatLimit = (value: bigint) => value === UNLIMITED_SPEND ? 'Unlimited' : value.toString();
+
+const SpendingLimitsPanel: React.FC<SpendingLimitsPanelProps> = ({ subscriptionId, rule, address }) => {
+  const { track, notify } = useTransactions();
+  const [hasLimits, setHasLimits] = useState(false);
+  const [budget, setBudget] = useState<SpendingBudget | null>(null);
+  const [spendPeriod, setSpendPeriod] = useState(0);
+  const [limits, setLimits] = useState({ periodCap: "", budget: "" });
+  const [busy, setBusy] = useState(false);
+  const unit = rule.paymentToken === ethers.ZeroAddress ? 'WEI' : 'token units';
+
+  useEffect(() => {
+    const loadLimits = async () => {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+      setHasLimits(await autoPay.hasSpendingLimits(subscriptionId));
+      setSpendPeriod(await autoPay.getSpendPeriod());
+    };
+    setBudget(null);
+    loadLimits().catch(e => console.error('Failed to load spending limits:', e));
+  }, [subscriptionId]);
+
+  const save = async () => {
+    // A blank field leaves that limit unlimited
+    const periodCap = limits.periodCap ? BigInt(limits.periodCap) : undefined;
+    const total = limits.budget ? BigInt(limits.budget) : undefined;
+
+    setBusy(true);
+    const saved = await track("Setting spending limits", autoPay =>
+      autoPay.setSpendingLimits(address, subscriptionId, { periodCap, budget: total })
+    );
+    setBusy(false);
+    if (!saved) return;
+
+    setLimits({ periodCap: "", budget: "" });
+    setHasLimits(true);
+    // The decrypted figures describe the old limits
+    setBudget(null);
+  };
+
+  // Limits and spend are only decryptable by the subscriber, through EIP-712 user decryption
+  const decryptBudget = async () => {
+    setBusy(true);
+    try {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+      const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+      setBudget(await autoPay.getSpendingBudget(subscriptionId, signer));
+    } catch (e) {
+      notify("error", errorMessage(e, "Budget decryption failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const periodDays = spendPeriod / SECONDS_PER_DAY;
+
+  return (
+    <div className="verification-section">
+      <h4>Spending Limits</h4>
+      {hasLimits && (
+        <div className="detail-grid">
+          <div className="detail-item">
+            <span>Cap per {periodDays} days</span>
+            <strong>{budget ? formatLimit(budget.periodCap) : '🔒 Encrypted'}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Left this period</span>
+            <strong>{budget ? formatLimit(budget.remainingThisPeriod) : '🔒 Encrypted'}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Total budget</span>
+            <strong>{budget ? formatLimit(budget.budget) : '🔒 Encrypted'}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Budget left</span>
+            <strong>{budget ? formatLimit(budget.remaining) : '🔒 Encrypted'}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Spent so far</span>
+            <strong>{budget ? budget.spent.toString() : '🔒 Encrypted'}</strong>
+          </div>
+        </div>
+      )}
+      <div className="form-group">
+        <div className="form-row">
+          <input
+            type="number"
+            value={limits.periodCap}
+            onChange={(e) => setLimits({ ...limits, periodCap: e.target.value })}
+            placeholder={`Cap per ${periodDays} days (${unit})`}
+            min="0"
+          />
+          <input
+            type="number"
+            value={limits.budget}
+            onChange={(e) => setLimits({ ...limits, budget: e.target.value })}
+            placeholder={`Total budget (${unit})`}
+            min="0"
+          />
+        </div>
+        <div className="form-row">
+          <button className="create-btn" disabled={busy} onClick={save}>
+            {hasLimits ? 'Update Limits' : 'Set Limits'}
+          </button>
+          {hasLimits && (
+            <button className="verify-btn" disabled={busy} onClick={decryptBudget}>
+              {busy ? 'Working...' : 'Decrypt Budget'}
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="verify-hint">
+        Limits are encrypted; a payment that would exceed one fails its condition without revealing which. Leave a field blank for no limit
+      </p>
+    </div>
+  );
+};
+
+export default SpendingLimitsPanel;
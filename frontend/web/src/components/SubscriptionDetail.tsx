@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ethers } from "ethers";
+import { getNextDueTimestamp } from "../../fhevm-sdk/src";
+import type { PaymentRule, Subscription } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly, normAddr } from "./useContract";
+import { useTransactions } from "./TransactionContext";
+import { formatAmount, formatEnd, formatLastPayment, formatNextDue, formatStatus, rulePath, subscriptionStatus } from "./format";
+import ConditionPanel from "./ConditionPanel";
+import ConfidentialBalancePanel from "./ConfidentialBalancePanel";
+import FundingPanel from "./FundingPanel";
+import PaymentHistory from "./PaymentHistory";
+import SchedulePanel from "./SchedulePanel";
+import SpendingLimitsPanel from "./SpendingLimitsPanel";
+import TermsChangePanel from "./TermsChangePanel";
+
+interface SubscriptionDetailProps {
+  address: string;
+}
+
+const SubscriptionDetail: React.FC<SubscriptionDetailProps> = ({ address }) => {
+  const { subscriptionId = "" } = useParams();
+  const navigate = useNavigate();
+  const { track } = useTransactions();
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [rule, setRule] = useState<PaymentRule | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const loadSubscription = async () => {
+    const autoPay = await getAutoPayReadOnly();
+    if (!autoPay) return;
+    try {
+      const details = await autoPay.getSubscription(subscriptionId);
+      setRule(await autoPay.getPaymentRule(details.ruleId));
+      setSubscription(details);
+    } catch (e) {
+      if (!ethers.isError(e, 'CALL_EXCEPTION')) throw e;
+      setNotFound(true);
+    }
+  };
+
+  useEffect(() => {
+    setSubscription(null);
+    setNotFound(false);
+    loadSubscription().catch(e => console.error('Failed to load subscription:', e));
+  }, [subscriptionId]);
+
+  const cancel = async () => {
+    const setActive = (isActive: boolean) => setSubscription(prev => prev && { ...prev, isActive });
+    setActive(false);
+    setBusy(true);
+    const cancelled = await track("Cancelling subscription", autoPay => autoPay.disableSubscription(subscriptionId));
+    setBusy(false);
+    if (!cancelled) setActive(true);
+  };
+
+  const applyChange = (changes: Partial<Subscription>) => setSubscription(prev => prev && { ...prev, ...changes });
+
+  if (notFound) {
+    return (
+      <div className="empty-state">
+        <div className="empty-icon">🔍</div>
+        <h3>Subscription "{subscriptionId}" not found</h3>
+        <button onClick={() => navigate("/subscriptions")} className="create-btn">Back to My Subscriptions</button>
+      </div>
+    );
+  }
+
+  if (!subscription || !rule) {
+    return (
+      <section className="payments-section">
+        <div className="encryption-animation"></div>
+      </section>
+    );
+  }
+
+  const isSubscriber = normAddr(subscription.subscriber) === normAddr(address);
+
+  return (
+    <section className="detail-panel">
+      <div className="modal-header">
+        <h2>Subscription Details</h2>
+        <button onClick={() => navigate(-1)} className="close-btn">×</button>
+      </div>
+
+      <div className="modal-body">
+        <div className="detail-section">
+          <h3>{subscription.subscriptionId}</h3>
+          <p>{rule.description}</p>
+        </div>
+
+        <div className="detail-grid">
+          <div className="detail-item">
+            <span>Status</span>
+            <strong className={subscriptionStatus(subscription) === 'active' ? 'verified' : 'encrypted'}>
+              {formatStatus(subscription)}
+            </strong>
+          </div>
+          <div className="detail-item">
+            <span>Rule</span>
+            <strong><Link to={rulePath(rule.ruleId)}>{rule.ruleId}</Link></strong>
+          </div>
+          <div className="detail-item">
+            <span>Amount</span>
+            <strong>{formatAmount(rule)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Subscriber</span>
+            <strong>{subscription.subscriber.slice(0, 12)}...</strong>
+          </div>
+          <div className="detail-item">
+            <span>Last Payment</span>
+            <strong>{formatLastPayment(subscription)}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Next Due</span>
+            <strong>{formatNextDue(subscription, rule, getNextDueTimestamp(subscription, rule))}</strong>
+          </div>
+          <div className="detail-item">
+            <span>Ends</span>
+            <strong>{formatEnd(subscription)}</strong>
+          </div>
+        </div>
+
+        {isSubscriber && (
+          <>
+            <ConditionPanel ruleId={rule.ruleId} address={address} />
+            <SpendingLimitsPanel subscriptionId={subscription.subscriptionId} rule={rule} address={address} />
+            {rule.isConfidential ? (
+              <ConfidentialBalancePanel ruleId={rule.ruleId} address={address} />
+            ) : (
+              <FundingPanel
+                ruleId={rule.ruleId}
+                paymentToken={rule.paymentToken}
+                address={address}
+              />
+            )}
+          </>
+        )}
+
+        <PaymentHistory filter={{ subscriptionId: subscription.subscriptionId }} />
+
+        {isSubscriber && subscription.isActive && (
+          <>
+            <TermsChangePanel subscription={subscription} rule={rule} onUpdate={applyChange} />
+            <SchedulePanel subscription={subscription} onUpdate={applyChange} />
+          </>
+        )}
+
+        {isSubscriber && subscription.isActive && (
+          <div className="verification-section">
+            <button onClick={cancel} disabled={busy} className="cancel-btn">
+              Cancel Subscription
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default SubscriptionDetail;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { batchDecryptBigInts } from "../../fhevm-sdk/src";
+import type { PaymentRule, RuleTerms, Subscription, SubscriptionTermsPreview } from "../../fhevm-sdk/src";
+import { getAutoPayReadOnly } from "./useContract";
+import { useTransactions } from "./TransactionContext";
+import { errorMessage, formatTermsAmount } from "./format";
+
+interface TermsChangePanelProps {
+  subscription: Subscription;
+  rule: PaymentRule;
+  onUpdate: (changes: Partial<Subscription>) => void;
+}
+
+/**
+ * Shown to the subscriber while the rule has a terms change in its notice period
+ */
+const TermsChangePanel: React.FC<TermsChangePanelProps> = ({ subscription, rule, onUpdate }) => {
+  const { track, notify } = useTransactions();
+  const [preview, setPreview] = useState<SubscriptionTermsPreview | null>(null);
+  const [amounts, setAmounts] = useState<Record<string, bigint>>({});
+  const [busy, setBusy] = useState(false);
+  const { subscriptionId } = subscription;
+
+  const loadPreview = async () => {
+    const autoPay = await getAutoPayReadOnly();
+    if (!autoPay) return;
+    setPreview(await autoPay.previewSubscriptionTerms(subscriptionId));
+  };
+
+  useEffect(() => {
+    setAmounts({});
+    loadPreview().catch(e => console.error('Failed to load terms preview:', e));
+  }, [subscriptionId]);
+
+  if (!preview?.pending) return null;
+  const { current, pending, accepted, declined } = preview;
+
+  // Confidential amounts are ACL-granted to subscribers, so this is an EIP-712 user decryption
+  const decryptAmounts = async () => {
+    setBusy(true);
+    try {
+      const autoPay = await getAutoPayReadOnly();
+      if (!autoPay) return;
+      const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+      const handles = [current.encryptedAmount, pending.encryptedAmount];
+      setAmounts(await batchDecryptBigInts(handles, autoPay.getAddress(), signer));
+    } catch (e) {
+      notify("error", errorMessage(e, "Decryption failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const accept = async () => {
+    setBusy(true);
+    const confirmed = await track("Accepting new terms", autoPay => autoPay.acceptRuleTerms(subscriptionId));
+    setBusy(false);
+    if (confirmed) setPreview({ ...preview, accepted: true });
+  };
+
+  const decline = async () => {
+    setBusy(true);
+    const confirmed = await track("Declining new terms", autoPay => autoPay.declineRuleTerms(subscriptionId));
+    setBusy(false);
+    if (!confirmed) return;
+
+    loadPreview().catch(e => console.error('Failed to load terms preview:', e));
+    if (subscription.endTimestamp === 0 || subscription.endTimestamp > pending.effectiveAt) {
+      onUpdate({ endTimestamp: pending.effectiveAt });
+    }
+  };
+
+  const amountOf = (terms: RuleTerms) =>
+    formatTermsAmount(rule, rule.isConfidential ? amounts[terms.encryptedAmount] : terms.amount);
+  const hidden = rule.isConfidential && Object.keys(amounts).length === 0;
+
+  return (
+    <div className="verification-section">
+      <h4>New Terms</h4>
+      <div className="detail-grid">
+        {!accepted && (
+          <div className="detail-item">
+            <span>Current amount</span>
+            <strong>{amountOf(current)}</strong>
+          </div>
+        )}
+        <div className="detail-item">
+          <span>New amount</span>
+          <strong>{amountOf(pending)}</strong>
+        </div>
+        <div className="detail-item">
+          <span>Takes effect</span>
+          <strong>{accepted ? 'Accepted' : new Date(pending.effectiveAt * 1000).toLocaleString()}</strong>
+        </div>
+      </div>
+      <div className="form-row">
+        {hidden && (
+          <button className="verify-btn" disabled={busy} onClick={decryptAmounts}>
+            {busy ? 'Working...' : 'Decrypt Amounts'}
+          </button>
+        )}
+        {!accepted && !declined && (
+          <button className="create-btn" disabled={busy} onClick={accept}>
+            Accept Now
+          </button>
+        )}
+        {!declined && (
+          <button className="cancel-btn" disabled={busy} onClick={decline}>
+            Decline
+          </button>
+        )}
+      </div>
+      <p className="verify-hint">
+        {declined
+          ? 'You declined the new terms: your current terms apply until they take effect and the subscription ends then'
+          : 'The threshold may change too. Declining keeps your current terms until the new ones take effect and ends the subscription then'}
+      </p>
+    </div>
+  );
+};
+
+export default TermsChangePanel;
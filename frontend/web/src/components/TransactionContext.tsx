@@ -0,0 +1,125 @@
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from "react";
+import { decodeRevertReason } from "../../fhevm-sdk/src";
+import type { AutoPayClient, TransactionStage } from "../../fhevm-sdk/src";
+import { getAutoPayWithSigner, network } from "./useContract";
+
+export type ToastStatus = "pending" | "success" | "error";
+
+interface Toast {
+  id: number;
+  label: string;
+  /** Set for tracked transactions; plain notices only have a status */
+  stage?: TransactionStage;
+  status?: ToastStatus;
+  hash?: string;
+  error?: string;
+}
+
+interface TransactionContextValue {
+  /**
+   * Run `action` with a signer-backed client whose writes show up as one queued toast.
+   * Resolves true once everything is mined, false if anything failed (the toast has the reason)
+   */
+  track: (label: string, action: (autoPay: AutoPayClient) => Promise<unknown>) => Promise<boolean>;
+  notify: (status: ToastStatus, message: string) => void;
+}
+
+const NOTICE_DURATION = 3000;
+const ERROR_DURATION = 8000;
+
+const STAGE_TEXT: Record<TransactionStage, string> = {
+  encrypting: "Encrypting inputs...",
+  signing: "Confirm in your wallet...",
+  pending: "Waiting for confirmation...",
+  mined: "Confirmed",
+  failed: "Failed",
+  replaced: "Replaced by a sped-up transaction",
+};
+
+const statusOf = (toast: Toast): ToastStatus => {
+  if (toast.status) return toast.status;
+  if (toast.error || toast.stage === "failed") return "error";
+  return toast.stage === "mined" || toast.stage === "replaced" ? "success" : "pending";
+};
+
+const TransactionContext = createContext<TransactionContextValue | null>(null);
+
+export const TransactionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+
+  // Functional updates only: timers and observers fire long after the render that created them
+  const update = useCallback((id: number, patch: (toast: Toast) => Partial<Toast>) => {
+    setToasts(prev => prev.map(toast => toast.id === id ? { ...toast, ...patch(toast) } : toast));
+  }, []);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const notify = useCallback((status: ToastStatus, message: string) => {
+    const id = ++nextId.current;
+    setToasts(prev => [...prev, { id, label: message, status }]);
+    setTimeout(() => dismiss(id), status === "error" ? ERROR_DURATION : NOTICE_DURATION);
+  }, [dismiss]);
+
+  const track = useCallback(async (label: string, action: (autoPay: AutoPayClient) => Promise<unknown>) => {
+    const id = ++nextId.current;
+    setToasts(prev => [...prev, { id, label, stage: "signing" }]);
+    try {
+      const autoPay = await getAutoPayWithSigner(({ stage, hash, replacementHash, error }) =>
+        update(id, () => ({ stage, hash: replacementHash ?? hash, error }))
+      );
+      await action(autoPay);
+      setTimeout(() => dismiss(id), NOTICE_DURATION);
+      return true;
+    } catch (e) {
+      // Failures before any transaction was sent (no wallet, encryption) never reach the observer
+      update(id, toast => ({ stage: "failed", error: toast.error ?? decodeRevertReason(e) }));
+      setTimeout(() => dismiss(id), ERROR_DURATION);
+      return false;
+    }
+  }, [update, dismiss]);
+
+  const value = useMemo(() => ({ track, notify }), [track, notify]);
+
+  return (
+    <TransactionContext.Provider value={value}>
+      {children}
+      <div className="toast-stack">
+        {toasts.map(toast => {
+          const status = statusOf(toast);
+          return (
+            <div key={toast.id} className={`transaction-toast ${status}`}>
+              <div className="toast-icon">
+                {status === "pending" && "⏳"}
+                {status === "success" && "✅"}
+                {status === "error" && "❌"}
+              </div>
+              <div className="toast-body">
+                <strong>{toast.label}</strong>
+                {toast.stage && <span>{toast.error ?? STAGE_TEXT[toast.stage]}</span>}
+                {toast.hash && (network.blockExplorerUrl ? (
+                  <a href={`${network.blockExplorerUrl}/tx/${toast.hash}`} target="_blank" rel="noreferrer">
+                    View transaction
+                  </a>
+                ) : (
+                  <span className="toast-hash">{toast.hash.slice(0, 18)}...</span>
+                ))}
+              </div>
+              <button onClick={() => dismiss(toast.id)} className="close-btn">×</button>
+            </div>
+          );
+        })}
+      </div>
+    </TransactionContext.Provider>
+  );
+};
+
+export function useTransactions(): TransactionContextValue {
+  const context = useContext(TransactionContext);
+  if (!context) {
+    throw new Error("useTransactions must be used inside a TransactionProvider");
+  }
+  return context;
+}
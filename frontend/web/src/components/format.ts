@@ -0,0 +1,72 @@
+import { FhevmError, getSubscriptionStatus } from "../../fhevm-sdk/src";
+import type { PaymentRule, Subscription, SubscriptionConsent, SubscriptionConsentRequest, SubscriptionStatus } from "../../fhevm-sdk/src";
+
+export const SECONDS_PER_DAY = 24 * 60 * 60;
+export const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Typed SDK errors (rejection, relayer outage, revert reason, wrong network) are worded for users
+export function errorMessage(e: unknown, fallback: string) {
+  return e instanceof FhevmError && e.code !== 'UNKNOWN' ? e.message : fallback;
+}
+
+export function formatAmount(rule: PaymentRule) {
+  return formatTermsAmount(rule, rule.isConfidential ? undefined : rule.amount);
+}
+
+// An amount of one of the rule's terms versions; confidential ones only once decrypted
+export function formatTermsAmount(rule: PaymentRule, amount?: bigint) {
+  if (amount === undefined) return '🔒 Confidential';
+  return `${amount} ${rule.paymentToken === ZERO_ADDRESS ? 'WEI' : 'token units'}`;
+}
+
+export function formatLastPayment(subscription: Subscription) {
+  if (subscription.lastPaymentTimestamp === 0) return 'Never';
+  return new Date(subscription.lastPaymentTimestamp * 1000).toLocaleString();
+}
+
+const STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  ended: 'Ended',
+  cancelled: 'Cancelled',
+};
+
+export const subscriptionStatus = (subscription: Subscription) =>
+  getSubscriptionStatus(subscription, Math.floor(Date.now() / 1000));
+
+export const formatStatus = (subscription: Subscription) => STATUS_LABELS[subscriptionStatus(subscription)];
+
+export function formatNextDue(subscription: Subscription, rule: PaymentRule, nextDue: number) {
+  const status = subscriptionStatus(subscription);
+  if (status === 'paused') {
+    return subscription.pausedUntil === Infinity
+      ? 'Paused'
+      : `Paused until ${new Date(subscription.pausedUntil * 1000).toLocaleString()}`;
+  }
+  if (status !== 'active') return STATUS_LABELS[status];
+  if (!rule.isActive) return 'Rule disabled';
+  if (nextDue <= Date.now() / 1000) return 'Due now';
+  return new Date(nextDue * 1000).toLocaleString();
+}
+
+export function formatEnd(subscription: Subscription) {
+  const bounds = [];
+  if (subscription.maxPayments !== 0) bounds.push(`After ${subscription.maxPayments} payments`);
+  if (subscription.endTimestamp !== 0) bounds.push(new Date(subscription.endTimestamp * 1000).toLocaleString());
+  return bounds.length ? bounds.join(' or ') : 'Never';
+}
+
+// Rule and subscription ids are free-form strings chosen by their creators
+export const rulePath = (ruleId: string) => `/rules/${encodeURIComponent(ruleId)}`;
+export const subscriptionPath = (subscriptionId: string) => `/subscriptions/${encodeURIComponent(subscriptionId)}`;
+
+// Consent links carry the request, and once the customer signed it the consent, in the query string
+export const consentPath = (request: SubscriptionConsentRequest, consent?: SubscriptionConsent) => {
+  const params = new URLSearchParams({ rule: request.ruleId, sub: request.subscriptionId, deadline: String(request.deadline) });
+  if (consent) {
+    params.set("subscriber", consent.subscriber);
+    params.set("nonce", consent.nonce.toString());
+    params.set("sig", consent.signature);
+  }
+  return `/consent?${params}`;
+};
@@ -1,11 +1,22 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "../abi/UniversalFHEAdapter.json";
+import abiJson from "../abi/AutoPaySystem.json";
 import configJson from "../config.json";
+import { AutoPayClient, AutoPayIndexer, WrongNetworkError, createForwardRelayClient, findNetwork } from "../../fhevm-sdk/src";
+import type { TransactionObserver } from "../../fhevm-sdk/src";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
+// The network the app is deployed against, selected by deploy/deploy.ts
+const active = findNetwork(config.network);
+if (!active) {
+  throw new Error(`Unknown network "${config.network}" in config.json`);
+}
+export const networkKey = active.key;
+export const network = active.network;
+export const contractAddress = network.autoPayAddress ?? "";
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -18,21 +29,13 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+export const getNetworkProvider = async () => {
+  for (const url of network.rpcUrls) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
+        name: networkKey,
+        chainId: network.chainId
+      }, { staticNetwork: true });
       
       const blockNumber = await Promise.race([
         provider.getBlockNumber(),
@@ -51,10 +54,14 @@ const getTestnetProvider = async () => {
 
 export async function getContractReadOnly() {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    if (!contractAddress) {
+      console.error(`AutoPaySystem is not deployed on ${network.name}`);
+      return null;
+    }
+    const provider = await getNetworkProvider();
+    const contract = new ethers.Contract(contractAddress, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(contractAddress));
     if (code === "0x") {
       return null;
     }
@@ -75,14 +82,14 @@ export async function getContractWithSigner() {
   // const network = await provider.getNetwork();
   // console.log("network ID:", network.chainId);
 
-  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7') {
-    alert("Please switch to Sepolia test network");
+  if (window.ethereum && window.ethereum.chainId && Number(window.ethereum.chainId) !== network.chainId) {
+    throw new WrongNetworkError(network, Number(window.ethereum.chainId));
   }
 
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(contractAddress, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -90,6 +97,33 @@ export async function getContractWithSigner() {
   }
 }
 
+export async function getAutoPayReadOnly() {
+  const contract = await getContractReadOnly();
+  if (!contract || !contract.runner) return null;
+  return new AutoPayClient(contractAddress, contract.runner);
+}
+
+// Subscribing and unsubscribing are gasless where the network runs a forward relay
+const forwardRelay = network.forwardRelayUrl && network.forwarderAddress
+  ? createForwardRelayClient(network.forwardRelayUrl)
+  : undefined;
+
+export async function getAutoPayWithSigner(onTransaction?: TransactionObserver) {
+  const contract = await getContractWithSigner();
+  return new AutoPayClient(contractAddress, contract.runner!, { onTransaction, forwardRelay });
+}
+
+// One indexer per page, persisted in localStorage so reloads only fetch new blocks
+let indexer: AutoPayIndexer | null = null;
+
+export async function getAutoPayIndexer() {
+  if (indexer) return indexer;
+  const autoPay = await getAutoPayReadOnly();
+  if (!autoPay) return null;
+  indexer = new AutoPayIndexer(autoPay, { startBlock: network.autoPayDeployBlock ?? undefined });
+  return indexer;
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
@@ -5,15 +5,36 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { defineChain, type Chain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { getNetworks, type NetworkConfig } from '../fhevm-sdk/src';
+import { networkKey } from './components/useContract';
+import { TransactionProvider } from './components/TransactionContext';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const toChain = (network: NetworkConfig): Chain => defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: network.rpcUrls } },
+  blockExplorers: network.blockExplorerUrl
+    ? { default: { name: 'Explorer', url: network.blockExplorerUrl } }
+    : undefined,
+  testnet: true,
+});
+
+// The app's own network first so wallets default to it
+const networks = getNetworks();
+const chains = [
+  toChain(networks[networkKey]),
+  ...Object.keys(networks).filter(key => key !== networkKey).map(key => toChain(networks[key])),
+] as [Chain, ...Chain[]];
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains,
 });
 
 const queryClient = new QueryClient();
@@ -122,7 +143,9 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            <TransactionProvider>
+              <App />
+            </TransactionProvider>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
@@ -1,8 +1,20 @@
 import { defineConfig } from "vite";
+import type { Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 
+// The SDK imports JSON with `with { type: 'json' }` so Node.js can load it, but
+// esbuild 0.18 cannot parse import attributes; Vite resolves JSON without them
+const stripImportAttributes = (): Plugin => ({
+  name: "strip-import-attributes",
+  enforce: "pre",
+  transform(code, id) {
+    if (!/\.tsx?$/.test(id) || !code.includes(" with { type: ")) return null;
+    return { code: code.replace(/(from\s+['"][^'"]+\.json['"])\s+with\s+\{\s*type:\s*['"]json['"]\s*\}/g, "$1"), map: null };
+  }
+});
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [stripImportAttributes(), react()],
   define: {
     'process.env': process.env
   },
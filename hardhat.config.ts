@@ -2,18 +2,27 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import type { HttpNetworkUserConfig } from "hardhat/types";
+import registry from "./frontend/web/fhevm-sdk/src/networks.json";
+
+// One Hardhat network per entry of the shared network registry; the RPC URL can
+// be overridden with <KEY>_RPC_URL (e.g. SEPOLIA_RPC_URL)
+const registryNetworks: Record<string, HttpNetworkUserConfig> = {};
+for (const [key, network] of Object.entries(registry)) {
+  registryNetworks[key] = {
+    chainId: network.chainId,
+    url: process.env[`${key.toUpperCase()}_RPC_URL`] || network.rpcUrls[0],
+    ...(network.mock ? {} : { accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [] }),
+  };
+}
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
-      chainId: 31337,
-    },
-    sepolia: {
-      chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      chainId: registry.localhost.chainId,
     },
+    ...registryNetworks,
   },
   solidity: {
     version: "0.8.24",
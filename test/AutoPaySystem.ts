@@ -0,0 +1,1199 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AutoPayForwarder, AutoPaySystem, AutoPaySystem__factory, ConfidentialTokenMock } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  creator: HardhatEthersSigner;
+  subscriber: HardhatEthersSigner;
+  recipient: HardhatEthersSigner;
+  stranger: HardhatEthersSigner;
+};
+
+const RULE_ID = "rule-1";
+const SUBSCRIPTION_ID = "sub-1";
+const THRESHOLD = 100;
+const AMOUNT = ethers.parseEther("0.1");
+const INTERVAL = 3600;
+
+async function deployFixture() {
+  const forwarder = (await (await ethers.getContractFactory("AutoPayForwarder")).deploy()) as AutoPayForwarder;
+  const factory = (await ethers.getContractFactory("AutoPaySystem")) as AutoPaySystem__factory;
+  const autoPay = (await factory.deploy(await forwarder.getAddress())) as AutoPaySystem;
+  const autoPayAddress = await autoPay.getAddress();
+
+  return { autoPay, autoPayAddress, forwarder };
+}
+
+describe("AutoPaySystem", function () {
+  let signers: Signers;
+  let autoPay: AutoPaySystem;
+  let autoPayAddress: string;
+  let forwarder: AutoPayForwarder;
+
+  async function createRule(ruleId = RULE_ID, threshold = THRESHOLD, creator = signers.creator) {
+    const input = await fhevm.createEncryptedInput(autoPayAddress, creator.address).add32(threshold).encrypt();
+    return autoPay
+      .connect(creator)
+      .createPaymentRule(
+        ruleId,
+        input.handles[0],
+        input.inputProof,
+        AMOUNT,
+        INTERVAL,
+        signers.recipient.address,
+        ethers.ZeroAddress,
+        "Pay when usage reaches the threshold",
+      );
+  }
+
+  async function submitMetric(metric: number, sender = signers.subscriber, subscriptionId = SUBSCRIPTION_ID) {
+    const input = await fhevm.createEncryptedInput(autoPayAddress, sender.address).add32(metric).encrypt();
+    return autoPay.connect(sender).submitEncryptedMetric(subscriptionId, input.handles[0], input.inputProof);
+  }
+
+  async function decryptCondition(subscriptionId = SUBSCRIPTION_ID) {
+    const handle = await autoPay.getConditionHandle(subscriptionId);
+    return fhevm.publicDecrypt([handle]);
+  }
+
+  async function subscribeWithEscrow(escrow = AMOUNT * 2n) {
+    await createRule();
+    await autoPay.connect(signers.subscriber).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address);
+    await autoPay.connect(signers.subscriber).depositEscrow(SUBSCRIPTION_ID, { value: escrow });
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      deployer: ethSigners[0],
+      creator: ethSigners[1],
+      subscriber: ethSigners[2],
+      recipient: ethSigners[3],
+      stranger: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    // Encrypted inputs and decryption proofs are produced by the FHEVM mock
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ autoPay, autoPayAddress, forwarder } = await deployFixture());
+  });
+
+  describe("createPaymentRule", function () {
+    it("stores the rule with an encrypted threshold only the creator can decrypt", async function () {
+      await expect(createRule()).to.emit(autoPay, "PaymentRuleCreated");
+
+      const [ruleId, amount, recipient, , creator, , isActive, paymentInterval, paymentToken, isConfidential] =
+        await autoPay.getPaymentRule(RULE_ID);
+      expect(ruleId).to.eq(RULE_ID);
+      expect(amount).to.eq(AMOUNT);
+      expect(recipient).to.eq(signers.recipient.address);
+      expect(creator).to.eq(signers.creator.address);
+      expect(isActive).to.eq(true);
+      expect(paymentInterval).to.eq(INTERVAL);
+      expect(paymentToken).to.eq(ethers.ZeroAddress);
+      expect(isConfidential).to.eq(false);
+      expect(await autoPay.getAllRuleIds()).to.deep.eq([RULE_ID]);
+
+      const thresholdHandle = (await autoPay.ruleTerms(RULE_ID, 0)).encryptedThreshold;
+      const clearThreshold = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        thresholdHandle,
+        autoPayAddress,
+        signers.creator,
+      );
+      expect(clearThreshold).to.eq(THRESHOLD);
+    });
+
+    it("emits PaymentRuleCreated with the creator", async function () {
+      await expect(createRule())
+        .to.emit(autoPay, "PaymentRuleCreated")
+        .withArgs(RULE_ID, signers.creator.address);
+    });
+
+    it("rejects a duplicate rule id", async function () {
+      await createRule();
+      await expect(createRule(RULE_ID, 5, signers.stranger)).to.be.revertedWith("Rule already exists");
+    });
+
+    it("rejects a zero payment interval", async function () {
+      const input = await fhevm
+        .createEncryptedInput(autoPayAddress, signers.creator.address)
+        .add32(THRESHOLD)
+        .encrypt();
+      await expect(
+        autoPay
+          .connect(signers.creator)
+          .createPaymentRule(
+            RULE_ID,
+            input.handles[0],
+            input.inputProof,
+            AMOUNT,
+            0,
+            signers.recipient.address,
+            ethers.ZeroAddress,
+            "",
+          ),
+      ).to.be.revertedWith("Invalid payment interval");
+    });
+
+    it("rejects amounts the encrypted spend totals cannot hold", async function () {
+      const input = await fhevm
+        .createEncryptedInput(autoPayAddress, signers.creator.address)
+        .add32(THRESHOLD)
+        .encrypt();
+      await expect(
+        autoPay
+          .connect(signers.creator)
+          .createPaymentRule(
+            RULE_ID,
+            input.handles[0],
+            input.inputProof,
+            2n ** 64n,
+            INTERVAL,
+            signers.recipient.address,
+            ethers.ZeroAddress,
+            "",
+          ),
+      ).to.be.revertedWith("Amount exceeds euint64 range");
+    });
+
+    it("rejects the zero address as recipient", async function () {
+      const input = await fhevm
+        .createEncryptedInput(autoPayAddress, signers.creator.address)
+        .add32(THRESHOLD)
+        .encrypt();
+      await expect(
+        autoPay
+          .connect(signers.creator)
+          .createPaymentRule(
+            RULE_ID,
+            input.handles[0],
+            input.inputProof,
+            AMOUNT,
+            INTERVAL,
+            ethers.ZeroAddress,
+            ethers.ZeroAddress,
+            "",
+          ),
+      ).to.be.revertedWith("Invalid recipient");
+    });
+
+    it("rejects an input proof issued to another account", async function () {
+      const input = await fhevm
+        .createEncryptedInput(autoPayAddress, signers.stranger.address)
+        .add32(THRESHOLD)
+        .encrypt();
+      await expect(
+        autoPay
+          .connect(signers.creator)
+          .createPaymentRule(
+            RULE_ID,
+            input.handles[0],
+            input.inputProof,
+            AMOUNT,
+            INTERVAL,
+            signers.recipient.address,
+            ethers.ZeroAddress,
+            "",
+          ),
+      ).to.be.reverted;
+    });
+
+    it("requires a token for confidential rules", async function () {
+      const input = await fhevm
+        .createEncryptedInput(autoPayAddress, signers.creator.address)
+        .add64(1000)
+        .add32(THRESHOLD)
+        .encrypt();
+      await expect(
+        autoPay
+          .connect(signers.creator)
+          .createConfidentialPaymentRule(
+            RULE_ID,
+            input.handles[0],
+            input.handles[1],
+            input.inputProof,
+            INTERVAL,
+            signers.recipient.address,
+            ethers.ZeroAddress,
+            "",
+          ),
+      ).to.be.revertedWith("Confidential token required");
+    });
+
+    it("rejects the zero address as a confidential rule's recipient", async function () {
+      const input = await fhevm
+        .createEncryptedInput(autoPayAddress, signers.creator.address)
+        .add64(1000)
+        .add32(THRESHOLD)
+        .encrypt();
+      await expect(
+        autoPay
+          .connect(signers.creator)
+          .createConfidentialPaymentRule(
+            RULE_ID,
+            input.handles[0],
+            input.handles[1],
+            input.inputProof,
+            INTERVAL,
+            ethers.ZeroAddress,
+            signers.stranger.address,
+            "",
+          ),
+      ).to.be.revertedWith("Invalid recipient");
+    });
+  });
+
+  describe("createSubscription", function () {
+    it("subscribes to an active rule", async function () {
+      await createRule();
+      await expect(
+        autoPay.connect(signers.subscriber).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address),
+      )
+        .to.emit(autoPay, "SubscriptionCreated")
+        .withArgs(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address);
+
+      const [subscriptionId, ruleId, subscriber, lastPaymentTimestamp, isActive] =
+        await autoPay.getSubscription(SUBSCRIPTION_ID);
+      expect(subscriptionId).to.eq(SUBSCRIPTION_ID);
+      expect(ruleId).to.eq(RULE_ID);
+      expect(subscriber).to.eq(signers.subscriber.address);
+      expect(lastPaymentTimestamp).to.eq(0);
+      expect(isActive).to.eq(true);
+      expect(await autoPay.getRuleSubscriptions(RULE_ID)).to.deep.eq([SUBSCRIPTION_ID]);
+    });
+
+    it("rejects unknown and inactive rules", async function () {
+      await expect(
+        autoPay.connect(signers.subscriber).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address),
+      ).to.be.revertedWith("Rule does not exist");
+
+      await createRule();
+      await autoPay.connect(signers.creator).disableRule(RULE_ID);
+      await expect(
+        autoPay.connect(signers.subscriber).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address),
+      ).to.be.revertedWith("Rule is not active");
+    });
+
+    it("rejects a duplicate subscription id", async function () {
+      await createRule();
+      await autoPay.connect(signers.subscriber).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address);
+      await expect(
+        autoPay.connect(signers.stranger).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.stranger.address),
+      ).to.be.revertedWith("Subscription already exists");
+    });
+
+    it("refuses to enroll someone else without their consent", async function () {
+      await createRule();
+      await expect(
+        autoPay.connect(signers.creator).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address),
+      ).to.be.revertedWith("Only subscriber can subscribe without consent");
+    });
+  });
+
+  describe("createSubscriptionWithConsent", function () {
+    async function signConsent(
+      subscriptionId = SUBSCRIPTION_ID,
+      deadline?: number,
+      signer = signers.subscriber,
+      nonce = 0n,
+    ) {
+      const consent = {
+        subscriptionId,
+        ruleId: RULE_ID,
+        subscriber: signers.subscriber.address,
+        nonce,
+        deadline: deadline ?? (await time.latest()) + 3600,
+      };
+      const domain = {
+        name: "AutoPaySystem",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: autoPayAddress,
+      };
+      const types = {
+        SubscriptionConsent: [
+          { name: "subscriptionId", type: "string" },
+          { name: "ruleId", type: "string" },
+          { name: "subscriber", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      return { ...consent, signature: await signer.signTypedData(domain, types, consent) };
+    }
+
+    function submitConsent(consent: Awaited<ReturnType<typeof signConsent>>, sender = signers.creator) {
+      return autoPay
+        .connect(sender)
+        .createSubscriptionWithConsent(
+          consent.subscriptionId,
+          consent.ruleId,
+          consent.subscriber,
+          consent.nonce,
+          consent.deadline,
+          consent.signature,
+        );
+    }
+
+    beforeEach(async function () {
+      await createRule();
+    });
+
+    it("lets anyone submit a subscriber's signed consent", async function () {
+      const consent = await signConsent();
+      await expect(submitConsent(consent))
+        .to.emit(autoPay, "SubscriptionCreated")
+        .withArgs(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address);
+
+      expect((await autoPay.getSubscription(SUBSCRIPTION_ID))[2]).to.eq(signers.subscriber.address);
+      expect(await autoPay.usedConsentNonces(signers.subscriber.address, consent.nonce)).to.eq(true);
+    });
+
+    it("rejects expired, forged and altered consents", async function () {
+      const expired = await signConsent(SUBSCRIPTION_ID, (await time.latest()) - 1);
+      await expect(submitConsent(expired)).to.be.revertedWith("Consent expired");
+
+      const forged = await signConsent(SUBSCRIPTION_ID, undefined, signers.stranger);
+      await expect(submitConsent(forged)).to.be.revertedWith("Invalid consent signature");
+
+      const consent = await signConsent();
+      await expect(submitConsent({ ...consent, subscriptionId: "sub-2" })).to.be.revertedWith(
+        "Invalid consent signature",
+      );
+    });
+
+    it("accepts several outstanding consents in any order, each nonce once", async function () {
+      const first = await signConsent("sub-1", undefined, signers.subscriber, 7n);
+      const second = await signConsent("sub-2", undefined, signers.subscriber, 3n);
+
+      await submitConsent(second);
+      await submitConsent(first);
+      const reused = await signConsent("sub-3", undefined, signers.subscriber, 7n);
+      await expect(submitConsent(reused)).to.be.revertedWith("Consent already used or revoked");
+    });
+
+    it("voids only the revoked consent on revokeConsent", async function () {
+      const revoked = await signConsent("sub-1", undefined, signers.subscriber, 1n);
+      const kept = await signConsent("sub-2", undefined, signers.subscriber, 2n);
+      await expect(autoPay.connect(signers.subscriber).revokeConsent(1n))
+        .to.emit(autoPay, "ConsentRevoked")
+        .withArgs(signers.subscriber.address, 1n);
+
+      await expect(submitConsent(revoked)).to.be.revertedWith("Consent already used or revoked");
+      await expect(submitConsent(kept)).to.emit(autoPay, "SubscriptionCreated");
+      await expect(autoPay.connect(signers.subscriber).revokeConsent(1n)).to.be.revertedWith(
+        "Consent already used or revoked",
+      );
+    });
+  });
+
+  describe("meta-transactions", function () {
+    async function signForwardRequest(data: string, signer = signers.subscriber, from = signer.address) {
+      const request = {
+        from,
+        to: autoPayAddress,
+        value: 0n,
+        gas: 500_000n,
+        nonce: await forwarder.nonces(from),
+        deadline: (await time.latest()) + 3600,
+        data,
+      };
+      const domain = {
+        name: "AutoPayForwarder",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await forwarder.getAddress(),
+      };
+      const types = {
+        ForwardRequest: [
+          { name: "from", type: "address" },
+          { name: "to", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "gas", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint48" },
+          { name: "data", type: "bytes" },
+        ],
+      };
+      return { ...request, signature: await signer.signTypedData(domain, types, request) };
+    }
+
+    beforeEach(async function () {
+      await createRule();
+    });
+
+    it("trusts the forwarder deployed with it", async function () {
+      expect(await autoPay.trustedForwarder()).to.eq(await forwarder.getAddress());
+      expect(await autoPay.isTrustedForwarder(signers.stranger.address)).to.eq(false);
+    });
+
+    it("lets a relay subscribe and unsubscribe on the subscriber's behalf", async function () {
+      const subscribe = await signForwardRequest(
+        autoPay.interface.encodeFunctionData("createSubscription", [
+          SUBSCRIPTION_ID,
+          RULE_ID,
+          signers.subscriber.address,
+        ]),
+      );
+      const tx = await forwarder.connect(signers.stranger).execute(subscribe);
+      await expect(tx)
+        .to.emit(autoPay, "SubscriptionCreated")
+        .withArgs(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address);
+      await expect(tx).to.changeEtherBalance(signers.subscriber, 0);
+
+      const unsubscribe = await signForwardRequest(
+        autoPay.interface.encodeFunctionData("disableSubscription", [SUBSCRIPTION_ID]),
+      );
+      await expect(forwarder.connect(signers.stranger).execute(unsubscribe))
+        .to.emit(autoPay, "SubscriptionDisabled")
+        .withArgs(SUBSCRIPTION_ID, signers.subscriber.address);
+      expect((await autoPay.getSubscription(SUBSCRIPTION_ID))[4]).to.eq(false);
+    });
+
+    it("rejects requests not signed by their sender", async function () {
+      const forged = await signForwardRequest(
+        autoPay.interface.encodeFunctionData("createSubscription", [
+          SUBSCRIPTION_ID,
+          RULE_ID,
+          signers.subscriber.address,
+        ]),
+        signers.stranger,
+        signers.subscriber.address,
+      );
+      expect(await forwarder.verify(forged)).to.eq(false);
+      await expect(forwarder.connect(signers.stranger).execute(forged)).to.be.revertedWithCustomError(
+        forwarder,
+        "ERC2771ForwarderInvalidSigner",
+      );
+    });
+
+    it("ignores a sender appended by anyone but the forwarder", async function () {
+      const data = autoPay.interface.encodeFunctionData("createSubscription", [
+        SUBSCRIPTION_ID,
+        RULE_ID,
+        signers.subscriber.address,
+      ]);
+      await expect(
+        signers.stranger.sendTransaction({
+          to: autoPayAddress,
+          data: ethers.concat([data, signers.subscriber.address]),
+        }),
+      ).to.be.revertedWith("Only subscriber can subscribe without consent");
+    });
+  });
+
+  describe("paginated views", function () {
+    beforeEach(async function () {
+      for (let i = 0; i < 5; i++) {
+        await createRule(`rule-${i}`, THRESHOLD, i < 3 ? signers.creator : signers.stranger);
+      }
+      for (let i = 0; i < 4; i++) {
+        const subscriber = i % 2 === 0 ? signers.subscriber : signers.stranger;
+        await autoPay.connect(subscriber).createSubscription(`sub-${i}`, "rule-0", subscriber.address);
+      }
+    });
+
+    it("slices the rule and subscription lists", async function () {
+      const [firstPage, total] = await autoPay.getRuleIdsPage(0, 2);
+      expect(firstPage).to.deep.eq(["rule-0", "rule-1"]);
+      expect(total).to.eq(5);
+
+      expect((await autoPay.getRuleIdsPage(4, 10))[0]).to.deep.eq(["rule-4"]);
+      expect((await autoPay.getRuleIdsPage(5, 10))[0]).to.deep.eq([]);
+      expect((await autoPay.getSubscriptionIdsPage(1, 2))[0]).to.deep.eq(["sub-1", "sub-2"]);
+    });
+
+    it("returns only the total for a zero limit, even with a huge offset", async function () {
+      const [page, total] = await autoPay.getRuleSubscriptionsPage("rule-0", 0, 0);
+      expect(page).to.deep.eq([]);
+      expect(total).to.eq(4);
+
+      expect((await autoPay.getRuleIdsPage(ethers.MaxUint256, 1))[0]).to.deep.eq([]);
+      expect((await autoPay.getRuleIdsPage(1, ethers.MaxUint256))[0]).to.have.length(4);
+    });
+
+    it("lists rules per creator and subscriptions per subscriber", async function () {
+      const [creatorRules, creatorTotal] = await autoPay.getRuleIdsByCreator(signers.creator.address, 1, 10);
+      expect(creatorRules).to.deep.eq(["rule-1", "rule-2"]);
+      expect(creatorTotal).to.eq(3);
+
+      const [subscriptions, subscriptionTotal] = await autoPay.getSubscriptionIdsBySubscriber(
+        signers.stranger.address,
+        0,
+        10,
+      );
+      expect(subscriptions).to.deep.eq(["sub-1", "sub-3"]);
+      expect(subscriptionTotal).to.eq(2);
+    });
+  });
+
+  describe("submitEncryptedMetric", function () {
+    beforeEach(async function () {
+      await subscribeWithEscrow();
+    });
+
+    it("publishes only whether the metric met the threshold", async function () {
+      expect(await autoPay.getConditionHandle(SUBSCRIPTION_ID)).to.eq(ethers.ZeroHash);
+
+      await expect(submitMetric(THRESHOLD - 1))
+        .to.emit(autoPay, "MetricSubmitted")
+        .withArgs(SUBSCRIPTION_ID, signers.subscriber.address);
+      expect(await fhevm.publicDecryptEbool(await autoPay.getConditionHandle(SUBSCRIPTION_ID))).to.eq(false);
+
+      await submitMetric(THRESHOLD);
+      expect(await fhevm.publicDecryptEbool(await autoPay.getConditionHandle(SUBSCRIPTION_ID))).to.eq(true);
+    });
+
+    it("accepts metrics from the rule oracle only once it is set", async function () {
+      await expect(submitMetric(THRESHOLD, signers.stranger)).to.be.revertedWith(
+        "Only subscriber or oracle can submit metric",
+      );
+
+      await expect(autoPay.connect(signers.subscriber).setRuleOracle(RULE_ID, signers.stranger.address)).to.be.revertedWith(
+        "Only creator can update rule",
+      );
+      await expect(autoPay.connect(signers.creator).setRuleOracle(RULE_ID, signers.stranger.address))
+        .to.emit(autoPay, "RuleOracleUpdated")
+        .withArgs(RULE_ID, signers.stranger.address);
+
+      await expect(submitMetric(THRESHOLD, signers.stranger))
+        .to.emit(autoPay, "MetricSubmitted")
+        .withArgs(SUBSCRIPTION_ID, signers.stranger.address);
+    });
+  });
+
+  describe("executePayment", function () {
+    beforeEach(async function () {
+      await subscribeWithEscrow();
+    });
+
+    it("pays the recipient from escrow with a valid decryption proof", async function () {
+      await submitMetric(THRESHOLD + 50);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+
+      const tx = await autoPay
+        .connect(signers.stranger)
+        .executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof);
+      await expect(tx)
+        .to.emit(autoPay, "PaymentExecuted")
+        .withArgs(SUBSCRIPTION_ID, RULE_ID, signers.recipient.address, ethers.ZeroAddress, AMOUNT);
+      await expect(tx).to.changeEtherBalance(signers.recipient, AMOUNT);
+
+      expect(await autoPay.escrowBalances(SUBSCRIPTION_ID)).to.eq(AMOUNT);
+      expect(await autoPay.getConditionHandle(SUBSCRIPTION_ID)).to.eq(ethers.ZeroHash);
+    });
+
+    it("rejects a payment when the threshold was not met", async function () {
+      await submitMetric(THRESHOLD - 1);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+
+      await expect(
+        autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWith("Condition not met");
+    });
+
+    it("rejects a forged clear value", async function () {
+      await submitMetric(THRESHOLD - 1);
+      const { decryptionProof } = await decryptCondition();
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["bool"], [true]);
+
+      await expect(autoPay.executePayment(SUBSCRIPTION_ID, forged, decryptionProof)).to.be.reverted;
+    });
+
+    it("rejects a forged decryption proof", async function () {
+      await submitMetric(THRESHOLD);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+      const forgedProof = ethers.concat([
+        ethers.dataSlice(decryptionProof, 0, 2),
+        ethers.randomBytes(ethers.dataLength(decryptionProof) - 2),
+      ]);
+
+      await expect(autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, forgedProof)).to.be.reverted;
+    });
+
+    it("pays each metric once and enforces the interval", async function () {
+      await submitMetric(THRESHOLD);
+      const first = await decryptCondition();
+      await autoPay.executePayment(SUBSCRIPTION_ID, first.abiEncodedClearValues, first.decryptionProof);
+
+      await expect(
+        autoPay.executePayment(SUBSCRIPTION_ID, first.abiEncodedClearValues, first.decryptionProof),
+      ).to.be.revertedWith("Payment not due yet");
+
+      await time.increase(INTERVAL);
+      await expect(
+        autoPay.executePayment(SUBSCRIPTION_ID, first.abiEncodedClearValues, first.decryptionProof),
+      ).to.be.revertedWith("Condition not submitted");
+
+      await submitMetric(THRESHOLD);
+      const second = await decryptCondition();
+      await expect(autoPay.executePayment(SUBSCRIPTION_ID, second.abiEncodedClearValues, second.decryptionProof)).to.emit(
+        autoPay,
+        "PaymentExecuted",
+      );
+      expect(await autoPay.escrowBalances(SUBSCRIPTION_ID)).to.eq(0);
+    });
+
+    it("keeps encrypted spend totals only the subscriber can decrypt", async function () {
+      const decryptSpend = (handle: string, signer = signers.subscriber) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, autoPayAddress, signer);
+      const subscriber = signers.subscriber.address;
+
+      await submitMetric(THRESHOLD);
+      const first = await decryptCondition();
+      const receipt = await (
+        await autoPay.executePayment(SUBSCRIPTION_ID, first.abiEncodedClearValues, first.decryptionProof)
+      ).wait();
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      const period = BigInt(block!.timestamp) / (await autoPay.SPEND_PERIOD());
+
+      const totalHandle = await autoPay.getSpendTotalHandle(subscriber, ethers.ZeroAddress);
+      expect(await decryptSpend(totalHandle)).to.eq(AMOUNT);
+      expect(await decryptSpend(await autoPay.getPeriodSpendHandle(subscriber, ethers.ZeroAddress, period))).to.eq(
+        AMOUNT,
+      );
+      expect(
+        await decryptSpend(
+          await autoPay.getRecipientSpendHandle(subscriber, ethers.ZeroAddress, signers.recipient.address),
+        ),
+      ).to.eq(AMOUNT);
+      await expect(decryptSpend(totalHandle, signers.creator)).to.be.rejected;
+      await expect(decryptSpend(totalHandle, signers.recipient)).to.be.rejected;
+
+      await time.increase(INTERVAL);
+      await submitMetric(THRESHOLD);
+      const second = await decryptCondition();
+      await autoPay.executePayment(SUBSCRIPTION_ID, second.abiEncodedClearValues, second.decryptionProof);
+      expect(await decryptSpend(await autoPay.getSpendTotalHandle(subscriber, ethers.ZeroAddress))).to.eq(AMOUNT * 2n);
+    });
+
+    it("rejects payments on disabled subscriptions", async function () {
+      await submitMetric(THRESHOLD);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+
+      await autoPay.connect(signers.subscriber).disableSubscription(SUBSCRIPTION_ID);
+      await expect(
+        autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWith("Subscription is not active");
+    });
+
+    it("rejects a payment larger than the escrow", async function () {
+      await autoPay.connect(signers.subscriber).withdrawEscrow(SUBSCRIPTION_ID, AMOUNT + 1n);
+      await submitMetric(THRESHOLD);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+
+      await expect(
+        autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWith("Insufficient escrow balance");
+    });
+  });
+
+  describe("executeConfidentialPayment", function () {
+    const CONFIDENTIAL_AMOUNT = 1000n;
+    const MINTED = 5000n;
+    let token: ConfidentialTokenMock;
+    let tokenAddress: string;
+
+    const decryptBalance = async (account: HardhatEthersSigner) =>
+      fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        await token.confidentialBalanceOf(account.address),
+        tokenAddress,
+        account,
+      );
+
+    async function execute() {
+      const receipt = await (await autoPay.connect(signers.stranger).executeConfidentialPayment(SUBSCRIPTION_ID)).wait();
+      const event = receipt!.logs
+        .map((log) => autoPay.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ConfidentialPaymentExecuted");
+      return event!.args.transferred as string;
+    }
+
+    beforeEach(async function () {
+      token = (await (await ethers.getContractFactory("ConfidentialTokenMock")).deploy()) as ConfidentialTokenMock;
+      tokenAddress = await token.getAddress();
+
+      const input = await fhevm
+        .createEncryptedInput(autoPayAddress, signers.creator.address)
+        .add64(CONFIDENTIAL_AMOUNT)
+        .add32(THRESHOLD)
+        .encrypt();
+      await autoPay
+        .connect(signers.creator)
+        .createConfidentialPaymentRule(
+          RULE_ID,
+          input.handles[0],
+          input.handles[1],
+          input.inputProof,
+          INTERVAL,
+          signers.recipient.address,
+          tokenAddress,
+          "Pay a confidential amount",
+        );
+      await autoPay.connect(signers.subscriber).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address);
+
+      await token.mint(signers.subscriber.address, MINTED);
+      await token.connect(signers.subscriber).setOperator(autoPayAddress, (await time.latest()) + 10 * INTERVAL);
+    });
+
+    it("moves the encrypted amount when the condition is met", async function () {
+      await submitMetric(THRESHOLD);
+      await execute();
+
+      expect(await decryptBalance(signers.subscriber)).to.eq(MINTED - CONFIDENTIAL_AMOUNT);
+      expect(await decryptBalance(signers.recipient)).to.eq(CONFIDENTIAL_AMOUNT);
+      expect(await autoPay.getConditionHandle(SUBSCRIPTION_ID)).to.eq(ethers.ZeroHash);
+    });
+
+    it("moves an encrypted zero when the condition is not met", async function () {
+      await submitMetric(THRESHOLD - 1);
+      await expect(autoPay.executeConfidentialPayment(SUBSCRIPTION_ID)).to.emit(autoPay, "ConfidentialPaymentExecuted");
+
+      expect(await decryptBalance(signers.subscriber)).to.eq(MINTED);
+      expect(await decryptBalance(signers.recipient)).to.eq(0);
+    });
+
+    it("lets only the subscriber and recipient decrypt what moved, and only the subscriber the spend", async function () {
+      await submitMetric(THRESHOLD);
+      const transferred = await execute();
+      const decrypt = (handle: string, contract: string, signer: HardhatEthersSigner) =>
+        fhevm.userDecryptEuint(FhevmType.euint64, handle, contract, signer);
+
+      expect(await decrypt(transferred, tokenAddress, signers.subscriber)).to.eq(CONFIDENTIAL_AMOUNT);
+      expect(await decrypt(transferred, tokenAddress, signers.recipient)).to.eq(CONFIDENTIAL_AMOUNT);
+      await expect(decrypt(transferred, tokenAddress, signers.stranger)).to.be.rejected;
+
+      const spent = await autoPay.getSpendTotalHandle(signers.subscriber.address, tokenAddress);
+      expect(await decrypt(spent, autoPayAddress, signers.subscriber)).to.eq(CONFIDENTIAL_AMOUNT);
+      await expect(decrypt(spent, autoPayAddress, signers.creator)).to.be.rejected;
+
+      const { encryptedAmount } = await autoPay.ruleTerms(RULE_ID, 0);
+      expect(await decrypt(encryptedAmount, autoPayAddress, signers.subscriber)).to.eq(CONFIDENTIAL_AMOUNT);
+      await expect(decrypt(encryptedAmount, autoPayAddress, signers.stranger)).to.be.rejected;
+    });
+
+    it("counts an execution whose condition was not met as a payment", async function () {
+      await autoPay.connect(signers.subscriber).setSubscriptionEnd(SUBSCRIPTION_ID, 1, 0);
+      await submitMetric(THRESHOLD - 1);
+
+      await expect(autoPay.executeConfidentialPayment(SUBSCRIPTION_ID))
+        .to.emit(autoPay, "SubscriptionExpired")
+        .withArgs(SUBSCRIPTION_ID);
+      const [, , , lastPaymentTimestamp, isActive, , paymentCount] = await autoPay.getSubscription(SUBSCRIPTION_ID);
+      expect(lastPaymentTimestamp).to.eq(await time.latest());
+      expect(isActive).to.eq(false);
+      expect(paymentCount).to.eq(1);
+      expect(await decryptBalance(signers.recipient)).to.eq(0);
+    });
+
+    it("rejects executePayment on confidential rules", async function () {
+      await submitMetric(THRESHOLD);
+      await expect(autoPay.executePayment(SUBSCRIPTION_ID, "0x", "0x")).to.be.revertedWith("Rule is confidential");
+    });
+  });
+
+  describe("spending limits", function () {
+    const decrypt64 = (handle: string, signer = signers.subscriber) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, handle, autoPayAddress, signer);
+
+    async function setLimits(periodCap: bigint, budget: bigint, sender = signers.subscriber) {
+      const input = await fhevm
+        .createEncryptedInput(autoPayAddress, sender.address)
+        .add64(periodCap)
+        .add64(budget)
+        .encrypt();
+      return autoPay
+        .connect(sender)
+        .setSpendingLimits(SUBSCRIPTION_ID, input.handles[0], input.handles[1], input.inputProof);
+    }
+
+    async function pay() {
+      await submitMetric(THRESHOLD);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+      return autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof);
+    }
+
+    beforeEach(async function () {
+      await subscribeWithEscrow(AMOUNT * 5n);
+    });
+
+    it("lets only the subscriber set limits, which only they can decrypt", async function () {
+      await expect(setLimits(AMOUNT, AMOUNT, signers.stranger)).to.be.revertedWith(
+        "Only subscriber can update subscription",
+      );
+      await expect(setLimits(AMOUNT, AMOUNT * 3n))
+        .to.emit(autoPay, "SpendingLimitsUpdated")
+        .withArgs(SUBSCRIPTION_ID);
+
+      const [periodCap, budget] = await autoPay.getSpendingLimitHandles(SUBSCRIPTION_ID);
+      expect(await decrypt64(periodCap)).to.eq(AMOUNT);
+      expect(await decrypt64(budget)).to.eq(AMOUNT * 3n);
+      await expect(decrypt64(budget, signers.creator)).to.be.rejected;
+    });
+
+    it("skips payments over the period cap until the next period", async function () {
+      await setLimits(AMOUNT, AMOUNT * 5n);
+      await pay();
+
+      await time.increase(INTERVAL);
+      await expect(pay()).to.be.revertedWith("Condition not met");
+
+      await time.increase(await autoPay.SPEND_PERIOD());
+      await expect(pay()).to.emit(autoPay, "PaymentExecuted");
+    });
+
+    it("stops at the lifetime budget and tracks what is left", async function () {
+      await setLimits(AMOUNT * 5n, AMOUNT * 2n);
+      await pay();
+      await time.increase(INTERVAL);
+      const receipt = await (await pay()).wait();
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      const period = BigInt(block!.timestamp) / (await autoPay.SPEND_PERIOD());
+
+      const [total, periodTotal] = await autoPay.getSubscriptionSpendHandles(SUBSCRIPTION_ID, period);
+      expect(await decrypt64(total)).to.eq(AMOUNT * 2n);
+      expect(await decrypt64(periodTotal)).to.eq(AMOUNT * 2n);
+
+      await time.increase(INTERVAL);
+      await expect(pay()).to.be.revertedWith("Condition not met");
+      expect(await autoPay.escrowBalances(SUBSCRIPTION_ID)).to.eq(AMOUNT * 3n);
+    });
+
+    it("re-evaluates a pending metric when the limits change", async function () {
+      await submitMetric(THRESHOLD);
+      expect(await fhevm.publicDecryptEbool(await autoPay.getConditionHandle(SUBSCRIPTION_ID))).to.eq(true);
+
+      await setLimits(AMOUNT - 1n, AMOUNT * 5n);
+      expect(await fhevm.publicDecryptEbool(await autoPay.getConditionHandle(SUBSCRIPTION_ID))).to.eq(false);
+
+      await setLimits(AMOUNT, AMOUNT * 5n);
+      expect(await fhevm.publicDecryptEbool(await autoPay.getConditionHandle(SUBSCRIPTION_ID))).to.eq(true);
+    });
+  });
+
+  describe("pause and end date", function () {
+    async function pay() {
+      await submitMetric(THRESHOLD);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+      return autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof);
+    }
+
+    const subscriber = () => autoPay.connect(signers.subscriber);
+
+    beforeEach(async function () {
+      await subscribeWithEscrow(AMOUNT * 5n);
+    });
+
+    it("holds payments while paused until the subscriber resumes", async function () {
+      await expect(autoPay.connect(signers.creator).pauseSubscription(SUBSCRIPTION_ID, 0)).to.be.revertedWith(
+        "Only subscriber can update subscription",
+      );
+      await expect(subscriber().pauseSubscription(SUBSCRIPTION_ID, 0))
+        .to.emit(autoPay, "SubscriptionPaused")
+        .withArgs(SUBSCRIPTION_ID, 0);
+      expect((await autoPay.getSubscription(SUBSCRIPTION_ID))[5]).to.eq(ethers.MaxUint256);
+
+      await time.increase(INTERVAL * 10);
+      await expect(pay()).to.be.revertedWith("Subscription is paused");
+
+      await expect(subscriber().resumeSubscription(SUBSCRIPTION_ID))
+        .to.emit(autoPay, "SubscriptionResumed")
+        .withArgs(SUBSCRIPTION_ID);
+      await expect(subscriber().resumeSubscription(SUBSCRIPTION_ID)).to.be.revertedWith("Subscription is not paused");
+      await expect(pay()).to.emit(autoPay, "PaymentExecuted");
+    });
+
+    it("resumes by itself at the resume date", async function () {
+      const resumeAt = (await time.latest()) + INTERVAL;
+      await expect(subscriber().pauseSubscription(SUBSCRIPTION_ID, (await time.latest()) - 1)).to.be.revertedWith(
+        "Date must be in the future",
+      );
+      await subscriber().pauseSubscription(SUBSCRIPTION_ID, resumeAt);
+      await expect(pay()).to.be.revertedWith("Subscription is paused");
+
+      await time.increaseTo(resumeAt);
+      await expect(pay()).to.emit(autoPay, "PaymentExecuted");
+    });
+
+    it("expires after the maximum number of payments", async function () {
+      await expect(autoPay.connect(signers.creator).setSubscriptionEnd(SUBSCRIPTION_ID, 2, 0)).to.be.revertedWith(
+        "Only subscriber can update subscription",
+      );
+      await expect(subscriber().setSubscriptionEnd(SUBSCRIPTION_ID, 2, 0))
+        .to.emit(autoPay, "SubscriptionEndUpdated")
+        .withArgs(SUBSCRIPTION_ID, 2, 0);
+
+      await pay();
+      await expect(subscriber().setSubscriptionEnd(SUBSCRIPTION_ID, 1, 0)).to.be.revertedWith(
+        "Max payments already reached",
+      );
+      await time.increase(INTERVAL);
+      await expect(pay()).to.emit(autoPay, "SubscriptionExpired").withArgs(SUBSCRIPTION_ID);
+
+      const subscription = await autoPay.getSubscription(SUBSCRIPTION_ID);
+      expect(subscription[4]).to.eq(false);
+      expect(subscription[6]).to.eq(2);
+      await time.increase(INTERVAL);
+      await expect(submitMetric(THRESHOLD)).to.be.revertedWith("Subscription is not active");
+    });
+
+    it("stops paying at the end date", async function () {
+      const endTimestamp = (await time.latest()) + INTERVAL * 2;
+      await subscriber().setSubscriptionEnd(SUBSCRIPTION_ID, 0, endTimestamp);
+      await pay();
+
+      await submitMetric(THRESHOLD);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+      await time.increaseTo(endTimestamp);
+      await expect(
+        autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWith("Subscription has ended");
+      await expect(submitMetric(THRESHOLD)).to.be.revertedWith("Subscription has ended");
+    });
+  });
+
+  describe("escrow", function () {
+    beforeEach(async function () {
+      await createRule();
+      await autoPay.connect(signers.subscriber).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address);
+    });
+
+    it("tracks deposits and withdrawals", async function () {
+      await expect(autoPay.connect(signers.stranger).depositEscrow(SUBSCRIPTION_ID, { value: AMOUNT }))
+        .to.emit(autoPay, "EscrowDeposited")
+        .withArgs(SUBSCRIPTION_ID, signers.stranger.address, AMOUNT);
+
+      await expect(autoPay.connect(signers.stranger).withdrawEscrow(SUBSCRIPTION_ID, AMOUNT)).to.be.revertedWith(
+        "Only subscriber can update subscription",
+      );
+      const tx = await autoPay.connect(signers.subscriber).withdrawEscrow(SUBSCRIPTION_ID, AMOUNT);
+      await expect(tx)
+        .to.emit(autoPay, "EscrowWithdrawn")
+        .withArgs(SUBSCRIPTION_ID, signers.subscriber.address, AMOUNT);
+      await expect(tx).to.changeEtherBalance(signers.subscriber, AMOUNT);
+      expect(await autoPay.escrowBalances(SUBSCRIPTION_ID)).to.eq(0);
+    });
+
+    it("rejects empty deposits", async function () {
+      await expect(autoPay.depositEscrow(SUBSCRIPTION_ID)).to.be.revertedWith("Nothing to deposit");
+    });
+  });
+
+  describe("disableRule / disableSubscription", function () {
+    beforeEach(async function () {
+      await createRule();
+      await autoPay.connect(signers.subscriber).createSubscription(SUBSCRIPTION_ID, RULE_ID, signers.subscriber.address);
+    });
+
+    it("lets only the creator disable a rule", async function () {
+      await expect(autoPay.connect(signers.subscriber).disableRule(RULE_ID)).to.be.revertedWith(
+        "Only creator can disable rule",
+      );
+      await autoPay.connect(signers.creator).disableRule(RULE_ID);
+      expect((await autoPay.getPaymentRule(RULE_ID))[6]).to.eq(false);
+      await expect(submitMetric(THRESHOLD)).to.be.revertedWith("Rule is not active");
+    });
+
+    it("lets only the creator reactivate a rule", async function () {
+      await expect(autoPay.connect(signers.creator).disableRule(RULE_ID))
+        .to.emit(autoPay, "RuleStatusChanged")
+        .withArgs(RULE_ID, false);
+      await expect(autoPay.connect(signers.subscriber).enableRule(RULE_ID)).to.be.revertedWith(
+        "Only creator can update rule",
+      );
+      await expect(autoPay.connect(signers.creator).enableRule(RULE_ID))
+        .to.emit(autoPay, "RuleStatusChanged")
+        .withArgs(RULE_ID, true);
+      expect((await autoPay.getPaymentRule(RULE_ID))[6]).to.eq(true);
+      await submitMetric(THRESHOLD);
+    });
+
+    it("lets only the subscriber disable a subscription", async function () {
+      await expect(autoPay.connect(signers.creator).disableSubscription(SUBSCRIPTION_ID)).to.be.revertedWith(
+        "Only subscriber can disable subscription",
+      );
+      await expect(autoPay.connect(signers.subscriber).disableSubscription(SUBSCRIPTION_ID))
+        .to.emit(autoPay, "SubscriptionDisabled")
+        .withArgs(SUBSCRIPTION_ID, signers.subscriber.address);
+      expect((await autoPay.getSubscription(SUBSCRIPTION_ID))[4]).to.eq(false);
+      await expect(submitMetric(THRESHOLD)).to.be.revertedWith("Subscription is not active");
+    });
+
+    it("rejects unknown ids", async function () {
+      await expect(autoPay.disableRule("missing")).to.be.revertedWith("Rule does not exist");
+      await expect(autoPay.disableSubscription("missing")).to.be.revertedWith("Subscription does not exist");
+    });
+  });
+
+  describe("rule updates", function () {
+    beforeEach(async function () {
+      await createRule();
+    });
+
+    it("lets only the creator change the description", async function () {
+      await expect(
+        autoPay.connect(signers.subscriber).updateRuleDescription(RULE_ID, "Hijacked"),
+      ).to.be.revertedWith("Only creator can update rule");
+      await expect(autoPay.connect(signers.creator).updateRuleDescription(RULE_ID, "Yearly plan"))
+        .to.emit(autoPay, "RuleDescriptionUpdated")
+        .withArgs(RULE_ID, "Yearly plan");
+      expect((await autoPay.getPaymentRule(RULE_ID))[3]).to.eq("Yearly plan");
+    });
+
+    it("lets only the creator change the recipient", async function () {
+      await expect(
+        autoPay.connect(signers.subscriber).updateRuleRecipient(RULE_ID, signers.subscriber.address),
+      ).to.be.revertedWith("Only creator can update rule");
+      await expect(autoPay.connect(signers.creator).updateRuleRecipient(RULE_ID, signers.stranger.address))
+        .to.emit(autoPay, "RuleRecipientUpdated")
+        .withArgs(RULE_ID, signers.stranger.address);
+      expect((await autoPay.getPaymentRule(RULE_ID))[2]).to.eq(signers.stranger.address);
+    });
+
+    it("rejects the zero address as the new recipient", async function () {
+      await expect(
+        autoPay.connect(signers.creator).updateRuleRecipient(RULE_ID, ethers.ZeroAddress),
+      ).to.be.revertedWith("Invalid recipient");
+    });
+
+    it("rejects unknown rules", async function () {
+      await expect(autoPay.enableRule("missing")).to.be.revertedWith("Rule does not exist");
+      await expect(autoPay.updateRuleDescription("missing", "")).to.be.revertedWith("Rule does not exist");
+      await expect(autoPay.updateRuleRecipient("missing", signers.stranger.address)).to.be.revertedWith(
+        "Rule does not exist",
+      );
+    });
+  });
+
+  describe("rule terms versions", function () {
+    const NEW_AMOUNT = AMOUNT * 2n;
+    const NEW_THRESHOLD = THRESHOLD * 2;
+
+    async function proposeTerms(sender = signers.creator) {
+      const input = await fhevm.createEncryptedInput(autoPayAddress, sender.address).add32(NEW_THRESHOLD).encrypt();
+      // Regular rules ignore the encrypted amount
+      return autoPay
+        .connect(sender)
+        .proposeRuleTerms(RULE_ID, input.handles[0], ethers.ZeroHash, input.inputProof, NEW_AMOUNT);
+    }
+
+    async function pay(metric = NEW_THRESHOLD) {
+      await submitMetric(metric);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+      return autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof);
+    }
+
+    const subscriber = () => autoPay.connect(signers.subscriber);
+
+    beforeEach(async function () {
+      await subscribeWithEscrow(AMOUNT * 10n);
+    });
+
+    it("lets only the creator propose, one change at a time", async function () {
+      await expect(proposeTerms(signers.subscriber)).to.be.revertedWith("Only creator can update rule");
+
+      const effectiveAt = (await time.latest()) + 1 + Number(await autoPay.TERMS_NOTICE_PERIOD());
+      await expect(proposeTerms()).to.emit(autoPay, "RuleTermsProposed").withArgs(RULE_ID, 1, effectiveAt);
+      await expect(proposeTerms()).to.be.revertedWith("Terms change already pending");
+      expect(await autoPay.getRuleTermsCount(RULE_ID)).to.eq(2);
+      expect((await autoPay.ruleTerms(RULE_ID, 1)).amount).to.eq(NEW_AMOUNT);
+      expect((await autoPay.getPaymentRule(RULE_ID))[1]).to.eq(AMOUNT);
+
+      await time.increaseTo(effectiveAt);
+      expect((await autoPay.getPaymentRule(RULE_ID))[1]).to.eq(NEW_AMOUNT);
+      await expect(proposeTerms()).to.emit(autoPay, "RuleTermsProposed");
+    });
+
+    it("moves existing subscribers to the new terms after the notice period", async function () {
+      await proposeTerms();
+      expect(await autoPay.subscriptionTermsVersion(SUBSCRIPTION_ID)).to.eq(0);
+      await expect(pay(THRESHOLD)).to.emit(autoPay, "PaymentExecuted").withArgs(
+        SUBSCRIPTION_ID,
+        RULE_ID,
+        signers.recipient.address,
+        ethers.ZeroAddress,
+        AMOUNT,
+      );
+
+      await time.increase(await autoPay.TERMS_NOTICE_PERIOD());
+      expect(await autoPay.subscriptionTermsVersion(SUBSCRIPTION_ID)).to.eq(1);
+      await submitMetric(THRESHOLD);
+      expect(await fhevm.publicDecryptEbool(await autoPay.getConditionHandle(SUBSCRIPTION_ID))).to.eq(false);
+      await expect(pay()).to.emit(autoPay, "PaymentExecuted").withArgs(
+        SUBSCRIPTION_ID,
+        RULE_ID,
+        signers.recipient.address,
+        ethers.ZeroAddress,
+        NEW_AMOUNT,
+      );
+    });
+
+    it("pays a metric under the terms it was submitted with", async function () {
+      await proposeTerms();
+      await submitMetric(THRESHOLD);
+      const { abiEncodedClearValues, decryptionProof } = await decryptCondition();
+
+      await time.increase(await autoPay.TERMS_NOTICE_PERIOD());
+      await expect(autoPay.executePayment(SUBSCRIPTION_ID, abiEncodedClearValues, decryptionProof))
+        .to.emit(autoPay, "PaymentExecuted")
+        .withArgs(SUBSCRIPTION_ID, RULE_ID, signers.recipient.address, ethers.ZeroAddress, AMOUNT);
+    });
+
+    it("lets the subscriber accept the pending terms early", async function () {
+      await expect(subscriber().acceptRuleTerms(SUBSCRIPTION_ID)).to.be.revertedWith("No pending terms");
+      await proposeTerms();
+      await expect(autoPay.connect(signers.creator).acceptRuleTerms(SUBSCRIPTION_ID)).to.be.revertedWith(
+        "Only subscriber can update subscription",
+      );
+
+      await expect(subscriber().acceptRuleTerms(SUBSCRIPTION_ID))
+        .to.emit(autoPay, "RuleTermsAccepted")
+        .withArgs(SUBSCRIPTION_ID, 1);
+      expect(await autoPay.subscriptionTermsVersion(SUBSCRIPTION_ID)).to.eq(1);
+      await expect(pay()).to.emit(autoPay, "PaymentExecuted").withArgs(
+        SUBSCRIPTION_ID,
+        RULE_ID,
+        signers.recipient.address,
+        ethers.ZeroAddress,
+        NEW_AMOUNT,
+      );
+    });
+
+    it("ends the subscription of a subscriber who declines when the terms take effect", async function () {
+      await proposeTerms();
+      const { effectiveAt } = await autoPay.ruleTerms(RULE_ID, 1);
+      await subscriber().acceptRuleTerms(SUBSCRIPTION_ID);
+
+      await expect(subscriber().declineRuleTerms(SUBSCRIPTION_ID))
+        .to.emit(autoPay, "RuleTermsDeclined")
+        .withArgs(SUBSCRIPTION_ID, 1);
+      const subscription = await autoPay.getSubscription(SUBSCRIPTION_ID);
+      expect(subscription[8]).to.eq(effectiveAt);
+      expect(await autoPay.subscriptionTermsVersion(SUBSCRIPTION_ID)).to.eq(0);
+      await expect(pay(THRESHOLD)).to.emit(autoPay, "PaymentExecuted");
+
+      await time.increaseTo(effectiveAt);
+      await expect(submitMetric(THRESHOLD)).to.be.revertedWith("Subscription has ended");
+    });
+
+    it("does not let a subscriber accept terms they declined", async function () {
+      await proposeTerms();
+      await subscriber().declineRuleTerms(SUBSCRIPTION_ID);
+      expect(await autoPay.declinedTermsVersion(SUBSCRIPTION_ID)).to.eq(1);
+
+      await expect(subscriber().acceptRuleTerms(SUBSCRIPTION_ID)).to.be.revertedWith("Terms already declined");
+      expect(await autoPay.subscriptionTermsVersion(SUBSCRIPTION_ID)).to.eq(0);
+    });
+  });
+});
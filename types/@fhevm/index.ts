@@ -3,4 +3,3 @@
 /* eslint-disable */
 import type * as solidity from "./solidity";
 export type { solidity };
-
@@ -67,4 +67,3 @@ export interface ZamaConfig extends BaseContract {
 
   filters: {};
 }
-
@@ -88,4 +88,3 @@ export interface ZamaEthereumConfig extends BaseContract {
 
   filters: {};
 }
-
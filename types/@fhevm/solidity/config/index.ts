@@ -3,4 +3,3 @@
 /* eslint-disable */
 import type * as zamaConfigSol from "./ZamaConfig.sol";
 export type { zamaConfigSol };
-
@@ -5,4 +5,3 @@ import type * as config from "./config";
 export type { config };
 import type * as lib from "./lib";
 export type { lib };
-
@@ -106,4 +106,3 @@ export interface IKMSVerifier extends BaseContract {
 
   filters: {};
 }
-
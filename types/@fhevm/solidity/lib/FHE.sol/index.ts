@@ -3,4 +3,3 @@
 /* eslint-disable */
 export type { FHE } from "./FHE";
 export type { IKMSVerifier } from "./IKMSVerifier";
-
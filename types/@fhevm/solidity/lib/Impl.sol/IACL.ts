@@ -188,4 +188,3 @@ export interface IACL extends BaseContract {
 
   filters: {};
 }
-
@@ -621,4 +621,3 @@ export interface IFHEVMExecutor extends BaseContract {
 
   filters: {};
 }
-
@@ -88,4 +88,3 @@ export interface IInputVerifier extends BaseContract {
 
   filters: {};
 }
-
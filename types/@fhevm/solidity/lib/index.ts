@@ -5,4 +5,3 @@ import type * as fheSol from "./FHE.sol";
 export type { fheSol };
 import type * as implSol from "./Impl.sol";
 export type { implSol };
-
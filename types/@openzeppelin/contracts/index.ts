@@ -0,0 +1,11 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as interfaces from "./interfaces";
+export type { interfaces };
+import type * as metatx from "./metatx";
+export type { metatx };
+import type * as token from "./token";
+export type { token };
+import type * as utils from "./utils";
+export type { utils };
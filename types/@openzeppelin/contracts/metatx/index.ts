@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC2771Context } from "./ERC2771Context";
+export type { ERC2771Forwarder } from "./ERC2771Forwarder";
@@ -0,0 +1,8 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as extensions from "./extensions";
+export type { extensions };
+import type * as utils from "./utils";
+export type { utils };
+export type { IERC20 } from "./IERC20";
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type * as confidentialContracts from "./confidential-contracts";
+export type { confidentialContracts };
+import type * as contracts from "./contracts";
+export type { contracts };
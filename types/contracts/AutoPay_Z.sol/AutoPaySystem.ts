@@ -0,0 +1,2108 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface AutoPaySystemInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "SPEND_PERIOD"
+      | "SUBSCRIPTION_CONSENT_TYPEHASH"
+      | "TERMS_NOTICE_PERIOD"
+      | "acceptRuleTerms"
+      | "confidentialProtocolId"
+      | "createConfidentialPaymentRule"
+      | "createPaymentRule"
+      | "createSubscription"
+      | "createSubscriptionWithConsent"
+      | "declineRuleTerms"
+      | "declinedTermsVersion"
+      | "depositEscrow"
+      | "disableRule"
+      | "disableSubscription"
+      | "eip712Domain"
+      | "enableRule"
+      | "escrowBalances"
+      | "executeConfidentialPayment"
+      | "executePayment"
+      | "getAllRuleIds"
+      | "getAllSubscriptionIds"
+      | "getConditionHandle"
+      | "getPaymentRule"
+      | "getPeriodSpendHandle"
+      | "getRecipientSpendHandle"
+      | "getRuleIdsByCreator"
+      | "getRuleIdsPage"
+      | "getRuleSubscriptions"
+      | "getRuleSubscriptionsPage"
+      | "getRuleTermsCount"
+      | "getSpendTotalHandle"
+      | "getSpendingLimitHandles"
+      | "getSubscription"
+      | "getSubscriptionIdsBySubscriber"
+      | "getSubscriptionIdsPage"
+      | "getSubscriptionSpendHandles"
+      | "isAvailable"
+      | "isTrustedForwarder"
+      | "nextDueTimestamp"
+      | "pauseSubscription"
+      | "proposeRuleTerms"
+      | "resumeSubscription"
+      | "revokeConsent"
+      | "ruleOracles"
+      | "ruleTerms"
+      | "setRuleOracle"
+      | "setSpendingLimits"
+      | "setSubscriptionEnd"
+      | "submitEncryptedMetric"
+      | "subscriptionTermsVersion"
+      | "trustedForwarder"
+      | "updateRuleDescription"
+      | "updateRuleRecipient"
+      | "usedConsentNonces"
+      | "withdrawEscrow"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ConfidentialPaymentExecuted"
+      | "ConsentRevoked"
+      | "EIP712DomainChanged"
+      | "EscrowDeposited"
+      | "EscrowWithdrawn"
+      | "MetricSubmitted"
+      | "PaymentExecuted"
+      | "PaymentRuleCreated"
+      | "PublicDecryptionVerified"
+      | "RuleDescriptionUpdated"
+      | "RuleOracleUpdated"
+      | "RuleRecipientUpdated"
+      | "RuleStatusChanged"
+      | "RuleTermsAccepted"
+      | "RuleTermsDeclined"
+      | "RuleTermsProposed"
+      | "SpendingLimitsUpdated"
+      | "SubscriptionCreated"
+      | "SubscriptionDisabled"
+      | "SubscriptionEndUpdated"
+      | "SubscriptionExpired"
+      | "SubscriptionPaused"
+      | "SubscriptionResumed"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "SPEND_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SUBSCRIPTION_CONSENT_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TERMS_NOTICE_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptRuleTerms",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createConfidentialPaymentRule",
+    values: [
+      string,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      AddressLike,
+      AddressLike,
+      string
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createPaymentRule",
+    values: [
+      string,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BigNumberish,
+      AddressLike,
+      AddressLike,
+      string
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createSubscription",
+    values: [string, string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createSubscriptionWithConsent",
+    values: [string, string, AddressLike, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "declineRuleTerms",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "declinedTermsVersion",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "depositEscrow",
+    values: [string]
+  ): string;
+  encodeFunctionData(functionFragment: "disableRule", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "disableSubscription",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "eip712Domain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "enableRule", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "escrowBalances",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeConfidentialPayment",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executePayment",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllRuleIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllSubscriptionIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getConditionHandle",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPaymentRule",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPeriodSpendHandle",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRecipientSpendHandle",
+    values: [AddressLike, AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRuleIdsByCreator",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRuleIdsPage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRuleSubscriptions",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRuleSubscriptionsPage",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRuleTermsCount",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSpendTotalHandle",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSpendingLimitHandles",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubscription",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubscriptionIdsBySubscriber",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubscriptionIdsPage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSubscriptionSpendHandles",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAvailable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isTrustedForwarder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "nextDueTimestamp",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pauseSubscription",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeRuleTerms",
+    values: [string, BytesLike, BytesLike, BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resumeSubscription",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeConsent",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "ruleOracles", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "ruleTerms",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRuleOracle",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSpendingLimits",
+    values: [string, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSubscriptionEnd",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitEncryptedMetric",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionTermsVersion",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "trustedForwarder",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRuleDescription",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "updateRuleRecipient",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "usedConsentNonces",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawEscrow",
+    values: [string, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "SPEND_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SUBSCRIPTION_CONSENT_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TERMS_NOTICE_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptRuleTerms",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createConfidentialPaymentRule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createPaymentRule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createSubscriptionWithConsent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "declineRuleTerms",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "declinedTermsVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "depositEscrow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disableRule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disableSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "eip712Domain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "enableRule", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "escrowBalances",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeConfidentialPayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executePayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllRuleIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllSubscriptionIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getConditionHandle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPaymentRule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPeriodSpendHandle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRecipientSpendHandle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRuleIdsByCreator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRuleIdsPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRuleSubscriptions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRuleSubscriptionsPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRuleTermsCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSpendTotalHandle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSpendingLimitHandles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubscriptionIdsBySubscriber",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubscriptionIdsPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubscriptionSpendHandles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAvailable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isTrustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "nextDueTimestamp",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pauseSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeRuleTerms",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resumeSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeConsent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ruleOracles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "ruleTerms", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setRuleOracle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSpendingLimits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSubscriptionEnd",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitEncryptedMetric",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionTermsVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "trustedForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRuleDescription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateRuleRecipient",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "usedConsentNonces",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawEscrow",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ConfidentialPaymentExecutedEvent {
+  export type InputTuple = [
+    subscriptionId: string,
+    ruleId: string,
+    recipient: AddressLike,
+    paymentToken: AddressLike,
+    transferred: BytesLike
+  ];
+  export type OutputTuple = [
+    subscriptionId: string,
+    ruleId: string,
+    recipient: string,
+    paymentToken: string,
+    transferred: string
+  ];
+  export interface OutputObject {
+    subscriptionId: string;
+    ruleId: string;
+    recipient: string;
+    paymentToken: string;
+    transferred: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConsentRevokedEvent {
+  export type InputTuple = [subscriber: AddressLike, nonce: BigNumberish];
+  export type OutputTuple = [subscriber: string, nonce: bigint];
+  export interface OutputObject {
+    subscriber: string;
+    nonce: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EIP712DomainChangedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EscrowDepositedEvent {
+  export type InputTuple = [
+    subscriptionId: string,
+    from: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    subscriptionId: string,
+    from: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    subscriptionId: string;
+    from: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EscrowWithdrawnEvent {
+  export type InputTuple = [
+    subscriptionId: string,
+    subscriber: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    subscriptionId: string,
+    subscriber: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    subscriptionId: string;
+    subscriber: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MetricSubmittedEvent {
+  export type InputTuple = [subscriptionId: string, submitter: AddressLike];
+  export type OutputTuple = [subscriptionId: string, submitter: string];
+  export interface OutputObject {
+    subscriptionId: string;
+    submitter: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentExecutedEvent {
+  export type InputTuple = [
+    subscriptionId: string,
+    ruleId: string,
+    recipient: AddressLike,
+    paymentToken: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    subscriptionId: string,
+    ruleId: string,
+    recipient: string,
+    paymentToken: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    subscriptionId: string;
+    ruleId: string;
+    recipient: string;
+    paymentToken: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentRuleCreatedEvent {
+  export type InputTuple = [ruleId: string, creator: AddressLike];
+  export type OutputTuple = [ruleId: string, creator: string];
+  export interface OutputObject {
+    ruleId: string;
+    creator: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RuleDescriptionUpdatedEvent {
+  export type InputTuple = [ruleId: string, description: string];
+  export type OutputTuple = [ruleId: string, description: string];
+  export interface OutputObject {
+    ruleId: string;
+    description: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RuleOracleUpdatedEvent {
+  export type InputTuple = [ruleId: string, oracle: AddressLike];
+  export type OutputTuple = [ruleId: string, oracle: string];
+  export interface OutputObject {
+    ruleId: string;
+    oracle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RuleRecipientUpdatedEvent {
+  export type InputTuple = [ruleId: string, recipient: AddressLike];
+  export type OutputTuple = [ruleId: string, recipient: string];
+  export interface OutputObject {
+    ruleId: string;
+    recipient: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RuleStatusChangedEvent {
+  export type InputTuple = [ruleId: string, isActive: boolean];
+  export type OutputTuple = [ruleId: string, isActive: boolean];
+  export interface OutputObject {
+    ruleId: string;
+    isActive: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RuleTermsAcceptedEvent {
+  export type InputTuple = [subscriptionId: string, version: BigNumberish];
+  export type OutputTuple = [subscriptionId: string, version: bigint];
+  export interface OutputObject {
+    subscriptionId: string;
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RuleTermsDeclinedEvent {
+  export type InputTuple = [subscriptionId: string, version: BigNumberish];
+  export type OutputTuple = [subscriptionId: string, version: bigint];
+  export interface OutputObject {
+    subscriptionId: string;
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RuleTermsProposedEvent {
+  export type InputTuple = [
+    ruleId: string,
+    version: BigNumberish,
+    effectiveAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    ruleId: string,
+    version: bigint,
+    effectiveAt: bigint
+  ];
+  export interface OutputObject {
+    ruleId: string;
+    version: bigint;
+    effectiveAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SpendingLimitsUpdatedEvent {
+  export type InputTuple = [subscriptionId: string];
+  export type OutputTuple = [subscriptionId: string];
+  export interface OutputObject {
+    subscriptionId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubscriptionCreatedEvent {
+  export type InputTuple = [
+    subscriptionId: string,
+    ruleId: string,
+    subscriber: AddressLike
+  ];
+  export type OutputTuple = [
+    subscriptionId: string,
+    ruleId: string,
+    subscriber: string
+  ];
+  export interface OutputObject {
+    subscriptionId: string;
+    ruleId: string;
+    subscriber: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubscriptionDisabledEvent {
+  export type InputTuple = [subscriptionId: string, subscriber: AddressLike];
+  export type OutputTuple = [subscriptionId: string, subscriber: string];
+  export interface OutputObject {
+    subscriptionId: string;
+    subscriber: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubscriptionEndUpdatedEvent {
+  export type InputTuple = [
+    subscriptionId: string,
+    maxPayments: BigNumberish,
+    endTimestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    subscriptionId: string,
+    maxPayments: bigint,
+    endTimestamp: bigint
+  ];
+  export interface OutputObject {
+    subscriptionId: string;
+    maxPayments: bigint;
+    endTimestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubscriptionExpiredEvent {
+  export type InputTuple = [subscriptionId: string];
+  export type OutputTuple = [subscriptionId: string];
+  export interface OutputObject {
+    subscriptionId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubscriptionPausedEvent {
+  export type InputTuple = [subscriptionId: string, resumeAt: BigNumberish];
+  export type OutputTuple = [subscriptionId: string, resumeAt: bigint];
+  export interface OutputObject {
+    subscriptionId: string;
+    resumeAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SubscriptionResumedEvent {
+  export type InputTuple = [subscriptionId: string];
+  export type OutputTuple = [subscriptionId: string];
+  export interface OutputObject {
+    subscriptionId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface AutoPaySystem extends BaseContract {
+  connect(runner?: ContractRunner | null): AutoPaySystem;
+  waitForDeployment(): Promise<this>;
+
+  interface: AutoPaySystemInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  SPEND_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  SUBSCRIPTION_CONSENT_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  TERMS_NOTICE_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  acceptRuleTerms: TypedContractMethod<
+    [subscriptionId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  createConfidentialPaymentRule: TypedContractMethod<
+    [
+      ruleId: string,
+      encryptedAmount: BytesLike,
+      encryptedThreshold: BytesLike,
+      inputProof: BytesLike,
+      paymentInterval: BigNumberish,
+      recipient: AddressLike,
+      paymentToken: AddressLike,
+      description: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  createPaymentRule: TypedContractMethod<
+    [
+      ruleId: string,
+      encryptedThreshold: BytesLike,
+      inputProof: BytesLike,
+      amount: BigNumberish,
+      paymentInterval: BigNumberish,
+      recipient: AddressLike,
+      paymentToken: AddressLike,
+      description: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  createSubscription: TypedContractMethod<
+    [subscriptionId: string, ruleId: string, subscriber: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  createSubscriptionWithConsent: TypedContractMethod<
+    [
+      subscriptionId: string,
+      ruleId: string,
+      subscriber: AddressLike,
+      nonce: BigNumberish,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  declineRuleTerms: TypedContractMethod<
+    [subscriptionId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  declinedTermsVersion: TypedContractMethod<[arg0: string], [bigint], "view">;
+
+  depositEscrow: TypedContractMethod<
+    [subscriptionId: string],
+    [void],
+    "payable"
+  >;
+
+  disableRule: TypedContractMethod<[ruleId: string], [void], "nonpayable">;
+
+  disableSubscription: TypedContractMethod<
+    [subscriptionId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  eip712Domain: TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  enableRule: TypedContractMethod<[ruleId: string], [void], "nonpayable">;
+
+  escrowBalances: TypedContractMethod<[arg0: string], [bigint], "view">;
+
+  executeConfidentialPayment: TypedContractMethod<
+    [subscriptionId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  executePayment: TypedContractMethod<
+    [
+      subscriptionId: string,
+      abiEncodedClearValue: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getAllRuleIds: TypedContractMethod<[], [string[]], "view">;
+
+  getAllSubscriptionIds: TypedContractMethod<[], [string[]], "view">;
+
+  getConditionHandle: TypedContractMethod<
+    [subscriptionId: string],
+    [string],
+    "view"
+  >;
+
+  getPaymentRule: TypedContractMethod<
+    [ruleId: string],
+    [
+      [
+        string,
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        boolean,
+        bigint,
+        string,
+        boolean
+      ]
+    ],
+    "view"
+  >;
+
+  getPeriodSpendHandle: TypedContractMethod<
+    [subscriber: AddressLike, paymentToken: AddressLike, period: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  getRecipientSpendHandle: TypedContractMethod<
+    [
+      subscriber: AddressLike,
+      paymentToken: AddressLike,
+      recipient: AddressLike
+    ],
+    [string],
+    "view"
+  >;
+
+  getRuleIdsByCreator: TypedContractMethod<
+    [creator: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+
+  getRuleIdsPage: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+
+  getRuleSubscriptions: TypedContractMethod<
+    [ruleId: string],
+    [string[]],
+    "view"
+  >;
+
+  getRuleSubscriptionsPage: TypedContractMethod<
+    [ruleId: string, offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+
+  getRuleTermsCount: TypedContractMethod<[ruleId: string], [bigint], "view">;
+
+  getSpendTotalHandle: TypedContractMethod<
+    [subscriber: AddressLike, paymentToken: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getSpendingLimitHandles: TypedContractMethod<
+    [subscriptionId: string],
+    [[string, string] & { periodCap: string; budget: string }],
+    "view"
+  >;
+
+  getSubscription: TypedContractMethod<
+    [subscriptionId: string],
+    [[string, string, string, bigint, boolean, bigint, bigint, bigint, bigint]],
+    "view"
+  >;
+
+  getSubscriptionIdsBySubscriber: TypedContractMethod<
+    [subscriber: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+
+  getSubscriptionIdsPage: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+
+  getSubscriptionSpendHandles: TypedContractMethod<
+    [subscriptionId: string, period: BigNumberish],
+    [[string, string] & { total: string; periodTotal: string }],
+    "view"
+  >;
+
+  isAvailable: TypedContractMethod<[], [boolean], "view">;
+
+  isTrustedForwarder: TypedContractMethod<
+    [forwarder: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  nextDueTimestamp: TypedContractMethod<
+    [subscriptionId: string],
+    [bigint],
+    "view"
+  >;
+
+  pauseSubscription: TypedContractMethod<
+    [subscriptionId: string, resumeAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  proposeRuleTerms: TypedContractMethod<
+    [
+      ruleId: string,
+      encryptedThreshold: BytesLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  resumeSubscription: TypedContractMethod<
+    [subscriptionId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeConsent: TypedContractMethod<
+    [nonce: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  ruleOracles: TypedContractMethod<[arg0: string], [string], "view">;
+
+  ruleTerms: TypedContractMethod<
+    [arg0: string, arg1: BigNumberish],
+    [
+      [string, string, bigint, bigint] & {
+        encryptedThreshold: string;
+        encryptedAmount: string;
+        amount: bigint;
+        effectiveAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  setRuleOracle: TypedContractMethod<
+    [ruleId: string, oracle: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setSpendingLimits: TypedContractMethod<
+    [
+      subscriptionId: string,
+      encryptedPeriodCap: BytesLike,
+      encryptedBudget: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setSubscriptionEnd: TypedContractMethod<
+    [
+      subscriptionId: string,
+      maxPayments: BigNumberish,
+      endTimestamp: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  submitEncryptedMetric: TypedContractMethod<
+    [subscriptionId: string, encryptedMetric: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  subscriptionTermsVersion: TypedContractMethod<
+    [subscriptionId: string],
+    [bigint],
+    "view"
+  >;
+
+  trustedForwarder: TypedContractMethod<[], [string], "view">;
+
+  updateRuleDescription: TypedContractMethod<
+    [ruleId: string, description: string],
+    [void],
+    "nonpayable"
+  >;
+
+  updateRuleRecipient: TypedContractMethod<
+    [ruleId: string, recipient: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  usedConsentNonces: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  withdrawEscrow: TypedContractMethod<
+    [subscriptionId: string, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "SPEND_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SUBSCRIPTION_CONSENT_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "TERMS_NOTICE_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptRuleTerms"
+  ): TypedContractMethod<[subscriptionId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createConfidentialPaymentRule"
+  ): TypedContractMethod<
+    [
+      ruleId: string,
+      encryptedAmount: BytesLike,
+      encryptedThreshold: BytesLike,
+      inputProof: BytesLike,
+      paymentInterval: BigNumberish,
+      recipient: AddressLike,
+      paymentToken: AddressLike,
+      description: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createPaymentRule"
+  ): TypedContractMethod<
+    [
+      ruleId: string,
+      encryptedThreshold: BytesLike,
+      inputProof: BytesLike,
+      amount: BigNumberish,
+      paymentInterval: BigNumberish,
+      recipient: AddressLike,
+      paymentToken: AddressLike,
+      description: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createSubscription"
+  ): TypedContractMethod<
+    [subscriptionId: string, ruleId: string, subscriber: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createSubscriptionWithConsent"
+  ): TypedContractMethod<
+    [
+      subscriptionId: string,
+      ruleId: string,
+      subscriber: AddressLike,
+      nonce: BigNumberish,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "declineRuleTerms"
+  ): TypedContractMethod<[subscriptionId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "declinedTermsVersion"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "depositEscrow"
+  ): TypedContractMethod<[subscriptionId: string], [void], "payable">;
+  getFunction(
+    nameOrSignature: "disableRule"
+  ): TypedContractMethod<[ruleId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "disableSubscription"
+  ): TypedContractMethod<[subscriptionId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "eip712Domain"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "enableRule"
+  ): TypedContractMethod<[ruleId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "escrowBalances"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "executeConfidentialPayment"
+  ): TypedContractMethod<[subscriptionId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executePayment"
+  ): TypedContractMethod<
+    [
+      subscriptionId: string,
+      abiEncodedClearValue: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getAllRuleIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getAllSubscriptionIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getConditionHandle"
+  ): TypedContractMethod<[subscriptionId: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getPaymentRule"
+  ): TypedContractMethod<
+    [ruleId: string],
+    [
+      [
+        string,
+        bigint,
+        string,
+        string,
+        string,
+        bigint,
+        boolean,
+        bigint,
+        string,
+        boolean
+      ]
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPeriodSpendHandle"
+  ): TypedContractMethod<
+    [subscriber: AddressLike, paymentToken: AddressLike, period: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRecipientSpendHandle"
+  ): TypedContractMethod<
+    [
+      subscriber: AddressLike,
+      paymentToken: AddressLike,
+      recipient: AddressLike
+    ],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRuleIdsByCreator"
+  ): TypedContractMethod<
+    [creator: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRuleIdsPage"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRuleSubscriptions"
+  ): TypedContractMethod<[ruleId: string], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRuleSubscriptionsPage"
+  ): TypedContractMethod<
+    [ruleId: string, offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRuleTermsCount"
+  ): TypedContractMethod<[ruleId: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getSpendTotalHandle"
+  ): TypedContractMethod<
+    [subscriber: AddressLike, paymentToken: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSpendingLimitHandles"
+  ): TypedContractMethod<
+    [subscriptionId: string],
+    [[string, string] & { periodCap: string; budget: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubscription"
+  ): TypedContractMethod<
+    [subscriptionId: string],
+    [[string, string, string, bigint, boolean, bigint, bigint, bigint, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubscriptionIdsBySubscriber"
+  ): TypedContractMethod<
+    [subscriber: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubscriptionIdsPage"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSubscriptionSpendHandles"
+  ): TypedContractMethod<
+    [subscriptionId: string, period: BigNumberish],
+    [[string, string] & { total: string; periodTotal: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAvailable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isTrustedForwarder"
+  ): TypedContractMethod<[forwarder: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "nextDueTimestamp"
+  ): TypedContractMethod<[subscriptionId: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "pauseSubscription"
+  ): TypedContractMethod<
+    [subscriptionId: string, resumeAt: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "proposeRuleTerms"
+  ): TypedContractMethod<
+    [
+      ruleId: string,
+      encryptedThreshold: BytesLike,
+      encryptedAmount: BytesLike,
+      inputProof: BytesLike,
+      amount: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "resumeSubscription"
+  ): TypedContractMethod<[subscriptionId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revokeConsent"
+  ): TypedContractMethod<[nonce: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "ruleOracles"
+  ): TypedContractMethod<[arg0: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "ruleTerms"
+  ): TypedContractMethod<
+    [arg0: string, arg1: BigNumberish],
+    [
+      [string, string, bigint, bigint] & {
+        encryptedThreshold: string;
+        encryptedAmount: string;
+        amount: bigint;
+        effectiveAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "setRuleOracle"
+  ): TypedContractMethod<
+    [ruleId: string, oracle: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setSpendingLimits"
+  ): TypedContractMethod<
+    [
+      subscriptionId: string,
+      encryptedPeriodCap: BytesLike,
+      encryptedBudget: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setSubscriptionEnd"
+  ): TypedContractMethod<
+    [
+      subscriptionId: string,
+      maxPayments: BigNumberish,
+      endTimestamp: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitEncryptedMetric"
+  ): TypedContractMethod<
+    [subscriptionId: string, encryptedMetric: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "subscriptionTermsVersion"
+  ): TypedContractMethod<[subscriptionId: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "trustedForwarder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "updateRuleDescription"
+  ): TypedContractMethod<
+    [ruleId: string, description: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "updateRuleRecipient"
+  ): TypedContractMethod<
+    [ruleId: string, recipient: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "usedConsentNonces"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawEscrow"
+  ): TypedContractMethod<
+    [subscriptionId: string, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "ConfidentialPaymentExecuted"
+  ): TypedContractEvent<
+    ConfidentialPaymentExecutedEvent.InputTuple,
+    ConfidentialPaymentExecutedEvent.OutputTuple,
+    ConfidentialPaymentExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConsentRevoked"
+  ): TypedContractEvent<
+    ConsentRevokedEvent.InputTuple,
+    ConsentRevokedEvent.OutputTuple,
+    ConsentRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EIP712DomainChanged"
+  ): TypedContractEvent<
+    EIP712DomainChangedEvent.InputTuple,
+    EIP712DomainChangedEvent.OutputTuple,
+    EIP712DomainChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EscrowDeposited"
+  ): TypedContractEvent<
+    EscrowDepositedEvent.InputTuple,
+    EscrowDepositedEvent.OutputTuple,
+    EscrowDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EscrowWithdrawn"
+  ): TypedContractEvent<
+    EscrowWithdrawnEvent.InputTuple,
+    EscrowWithdrawnEvent.OutputTuple,
+    EscrowWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "MetricSubmitted"
+  ): TypedContractEvent<
+    MetricSubmittedEvent.InputTuple,
+    MetricSubmittedEvent.OutputTuple,
+    MetricSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentExecuted"
+  ): TypedContractEvent<
+    PaymentExecutedEvent.InputTuple,
+    PaymentExecutedEvent.OutputTuple,
+    PaymentExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentRuleCreated"
+  ): TypedContractEvent<
+    PaymentRuleCreatedEvent.InputTuple,
+    PaymentRuleCreatedEvent.OutputTuple,
+    PaymentRuleCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RuleDescriptionUpdated"
+  ): TypedContractEvent<
+    RuleDescriptionUpdatedEvent.InputTuple,
+    RuleDescriptionUpdatedEvent.OutputTuple,
+    RuleDescriptionUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RuleOracleUpdated"
+  ): TypedContractEvent<
+    RuleOracleUpdatedEvent.InputTuple,
+    RuleOracleUpdatedEvent.OutputTuple,
+    RuleOracleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RuleRecipientUpdated"
+  ): TypedContractEvent<
+    RuleRecipientUpdatedEvent.InputTuple,
+    RuleRecipientUpdatedEvent.OutputTuple,
+    RuleRecipientUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RuleStatusChanged"
+  ): TypedContractEvent<
+    RuleStatusChangedEvent.InputTuple,
+    RuleStatusChangedEvent.OutputTuple,
+    RuleStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RuleTermsAccepted"
+  ): TypedContractEvent<
+    RuleTermsAcceptedEvent.InputTuple,
+    RuleTermsAcceptedEvent.OutputTuple,
+    RuleTermsAcceptedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RuleTermsDeclined"
+  ): TypedContractEvent<
+    RuleTermsDeclinedEvent.InputTuple,
+    RuleTermsDeclinedEvent.OutputTuple,
+    RuleTermsDeclinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RuleTermsProposed"
+  ): TypedContractEvent<
+    RuleTermsProposedEvent.InputTuple,
+    RuleTermsProposedEvent.OutputTuple,
+    RuleTermsProposedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SpendingLimitsUpdated"
+  ): TypedContractEvent<
+    SpendingLimitsUpdatedEvent.InputTuple,
+    SpendingLimitsUpdatedEvent.OutputTuple,
+    SpendingLimitsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubscriptionCreated"
+  ): TypedContractEvent<
+    SubscriptionCreatedEvent.InputTuple,
+    SubscriptionCreatedEvent.OutputTuple,
+    SubscriptionCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubscriptionDisabled"
+  ): TypedContractEvent<
+    SubscriptionDisabledEvent.InputTuple,
+    SubscriptionDisabledEvent.OutputTuple,
+    SubscriptionDisabledEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubscriptionEndUpdated"
+  ): TypedContractEvent<
+    SubscriptionEndUpdatedEvent.InputTuple,
+    SubscriptionEndUpdatedEvent.OutputTuple,
+    SubscriptionEndUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubscriptionExpired"
+  ): TypedContractEvent<
+    SubscriptionExpiredEvent.InputTuple,
+    SubscriptionExpiredEvent.OutputTuple,
+    SubscriptionExpiredEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubscriptionPaused"
+  ): TypedContractEvent<
+    SubscriptionPausedEvent.InputTuple,
+    SubscriptionPausedEvent.OutputTuple,
+    SubscriptionPausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SubscriptionResumed"
+  ): TypedContractEvent<
+    SubscriptionResumedEvent.InputTuple,
+    SubscriptionResumedEvent.OutputTuple,
+    SubscriptionResumedEvent.OutputObject
+  >;
+
+  filters: {
+    "ConfidentialPaymentExecuted(string,string,address,address,bytes32)": TypedContractEvent<
+      ConfidentialPaymentExecutedEvent.InputTuple,
+      ConfidentialPaymentExecutedEvent.OutputTuple,
+      ConfidentialPaymentExecutedEvent.OutputObject
+    >;
+    ConfidentialPaymentExecuted: TypedContractEvent<
+      ConfidentialPaymentExecutedEvent.InputTuple,
+      ConfidentialPaymentExecutedEvent.OutputTuple,
+      ConfidentialPaymentExecutedEvent.OutputObject
+    >;
+
+    "ConsentRevoked(address,uint256)": TypedContractEvent<
+      ConsentRevokedEvent.InputTuple,
+      ConsentRevokedEvent.OutputTuple,
+      ConsentRevokedEvent.OutputObject
+    >;
+    ConsentRevoked: TypedContractEvent<
+      ConsentRevokedEvent.InputTuple,
+      ConsentRevokedEvent.OutputTuple,
+      ConsentRevokedEvent.OutputObject
+    >;
+
+    "EIP712DomainChanged()": TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+    EIP712DomainChanged: TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+
+    "EscrowDeposited(string,address,uint256)": TypedContractEvent<
+      EscrowDepositedEvent.InputTuple,
+      EscrowDepositedEvent.OutputTuple,
+      EscrowDepositedEvent.OutputObject
+    >;
+    EscrowDeposited: TypedContractEvent<
+      EscrowDepositedEvent.InputTuple,
+      EscrowDepositedEvent.OutputTuple,
+      EscrowDepositedEvent.OutputObject
+    >;
+
+    "EscrowWithdrawn(string,address,uint256)": TypedContractEvent<
+      EscrowWithdrawnEvent.InputTuple,
+      EscrowWithdrawnEvent.OutputTuple,
+      EscrowWithdrawnEvent.OutputObject
+    >;
+    EscrowWithdrawn: TypedContractEvent<
+      EscrowWithdrawnEvent.InputTuple,
+      EscrowWithdrawnEvent.OutputTuple,
+      EscrowWithdrawnEvent.OutputObject
+    >;
+
+    "MetricSubmitted(string,address)": TypedContractEvent<
+      MetricSubmittedEvent.InputTuple,
+      MetricSubmittedEvent.OutputTuple,
+      MetricSubmittedEvent.OutputObject
+    >;
+    MetricSubmitted: TypedContractEvent<
+      MetricSubmittedEvent.InputTuple,
+      MetricSubmittedEvent.OutputTuple,
+      MetricSubmittedEvent.OutputObject
+    >;
+
+    "PaymentExecuted(string,string,address,address,uint256)": TypedContractEvent<
+      PaymentExecutedEvent.InputTuple,
+      PaymentExecutedEvent.OutputTuple,
+      PaymentExecutedEvent.OutputObject
+    >;
+    PaymentExecuted: TypedContractEvent<
+      PaymentExecutedEvent.InputTuple,
+      PaymentExecutedEvent.OutputTuple,
+      PaymentExecutedEvent.OutputObject
+    >;
+
+    "PaymentRuleCreated(string,address)": TypedContractEvent<
+      PaymentRuleCreatedEvent.InputTuple,
+      PaymentRuleCreatedEvent.OutputTuple,
+      PaymentRuleCreatedEvent.OutputObject
+    >;
+    PaymentRuleCreated: TypedContractEvent<
+      PaymentRuleCreatedEvent.InputTuple,
+      PaymentRuleCreatedEvent.OutputTuple,
+      PaymentRuleCreatedEvent.OutputObject
+    >;
+
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "RuleDescriptionUpdated(string,string)": TypedContractEvent<
+      RuleDescriptionUpdatedEvent.InputTuple,
+      RuleDescriptionUpdatedEvent.OutputTuple,
+      RuleDescriptionUpdatedEvent.OutputObject
+    >;
+    RuleDescriptionUpdated: TypedContractEvent<
+      RuleDescriptionUpdatedEvent.InputTuple,
+      RuleDescriptionUpdatedEvent.OutputTuple,
+      RuleDescriptionUpdatedEvent.OutputObject
+    >;
+
+    "RuleOracleUpdated(string,address)": TypedContractEvent<
+      RuleOracleUpdatedEvent.InputTuple,
+      RuleOracleUpdatedEvent.OutputTuple,
+      RuleOracleUpdatedEvent.OutputObject
+    >;
+    RuleOracleUpdated: TypedContractEvent<
+      RuleOracleUpdatedEvent.InputTuple,
+      RuleOracleUpdatedEvent.OutputTuple,
+      RuleOracleUpdatedEvent.OutputObject
+    >;
+
+    "RuleRecipientUpdated(string,address)": TypedContractEvent<
+      RuleRecipientUpdatedEvent.InputTuple,
+      RuleRecipientUpdatedEvent.OutputTuple,
+      RuleRecipientUpdatedEvent.OutputObject
+    >;
+    RuleRecipientUpdated: TypedContractEvent<
+      RuleRecipientUpdatedEvent.InputTuple,
+      RuleRecipientUpdatedEvent.OutputTuple,
+      RuleRecipientUpdatedEvent.OutputObject
+    >;
+
+    "RuleStatusChanged(string,bool)": TypedContractEvent<
+      RuleStatusChangedEvent.InputTuple,
+      RuleStatusChangedEvent.OutputTuple,
+      RuleStatusChangedEvent.OutputObject
+    >;
+    RuleStatusChanged: TypedContractEvent<
+      RuleStatusChangedEvent.InputTuple,
+      RuleStatusChangedEvent.OutputTuple,
+      RuleStatusChangedEvent.OutputObject
+    >;
+
+    "RuleTermsAccepted(string,uint256)": TypedContractEvent<
+      RuleTermsAcceptedEvent.InputTuple,
+      RuleTermsAcceptedEvent.OutputTuple,
+      RuleTermsAcceptedEvent.OutputObject
+    >;
+    RuleTermsAccepted: TypedContractEvent<
+      RuleTermsAcceptedEvent.InputTuple,
+      RuleTermsAcceptedEvent.OutputTuple,
+      RuleTermsAcceptedEvent.OutputObject
+    >;
+
+    "RuleTermsDeclined(string,uint256)": TypedContractEvent<
+      RuleTermsDeclinedEvent.InputTuple,
+      RuleTermsDeclinedEvent.OutputTuple,
+      RuleTermsDeclinedEvent.OutputObject
+    >;
+    RuleTermsDeclined: TypedContractEvent<
+      RuleTermsDeclinedEvent.InputTuple,
+      RuleTermsDeclinedEvent.OutputTuple,
+      RuleTermsDeclinedEvent.OutputObject
+    >;
+
+    "RuleTermsProposed(string,uint256,uint256)": TypedContractEvent<
+      RuleTermsProposedEvent.InputTuple,
+      RuleTermsProposedEvent.OutputTuple,
+      RuleTermsProposedEvent.OutputObject
+    >;
+    RuleTermsProposed: TypedContractEvent<
+      RuleTermsProposedEvent.InputTuple,
+      RuleTermsProposedEvent.OutputTuple,
+      RuleTermsProposedEvent.OutputObject
+    >;
+
+    "SpendingLimitsUpdated(string)": TypedContractEvent<
+      SpendingLimitsUpdatedEvent.InputTuple,
+      SpendingLimitsUpdatedEvent.OutputTuple,
+      SpendingLimitsUpdatedEvent.OutputObject
+    >;
+    SpendingLimitsUpdated: TypedContractEvent<
+      SpendingLimitsUpdatedEvent.InputTuple,
+      SpendingLimitsUpdatedEvent.OutputTuple,
+      SpendingLimitsUpdatedEvent.OutputObject
+    >;
+
+    "SubscriptionCreated(string,string,address)": TypedContractEvent<
+      SubscriptionCreatedEvent.InputTuple,
+      SubscriptionCreatedEvent.OutputTuple,
+      SubscriptionCreatedEvent.OutputObject
+    >;
+    SubscriptionCreated: TypedContractEvent<
+      SubscriptionCreatedEvent.InputTuple,
+      SubscriptionCreatedEvent.OutputTuple,
+      SubscriptionCreatedEvent.OutputObject
+    >;
+
+    "SubscriptionDisabled(string,address)": TypedContractEvent<
+      SubscriptionDisabledEvent.InputTuple,
+      SubscriptionDisabledEvent.OutputTuple,
+      SubscriptionDisabledEvent.OutputObject
+    >;
+    SubscriptionDisabled: TypedContractEvent<
+      SubscriptionDisabledEvent.InputTuple,
+      SubscriptionDisabledEvent.OutputTuple,
+      SubscriptionDisabledEvent.OutputObject
+    >;
+
+    "SubscriptionEndUpdated(string,uint256,uint256)": TypedContractEvent<
+      SubscriptionEndUpdatedEvent.InputTuple,
+      SubscriptionEndUpdatedEvent.OutputTuple,
+      SubscriptionEndUpdatedEvent.OutputObject
+    >;
+    SubscriptionEndUpdated: TypedContractEvent<
+      SubscriptionEndUpdatedEvent.InputTuple,
+      SubscriptionEndUpdatedEvent.OutputTuple,
+      SubscriptionEndUpdatedEvent.OutputObject
+    >;
+
+    "SubscriptionExpired(string)": TypedContractEvent<
+      SubscriptionExpiredEvent.InputTuple,
+      SubscriptionExpiredEvent.OutputTuple,
+      SubscriptionExpiredEvent.OutputObject
+    >;
+    SubscriptionExpired: TypedContractEvent<
+      SubscriptionExpiredEvent.InputTuple,
+      SubscriptionExpiredEvent.OutputTuple,
+      SubscriptionExpiredEvent.OutputObject
+    >;
+
+    "SubscriptionPaused(string,uint256)": TypedContractEvent<
+      SubscriptionPausedEvent.InputTuple,
+      SubscriptionPausedEvent.OutputTuple,
+      SubscriptionPausedEvent.OutputObject
+    >;
+    SubscriptionPaused: TypedContractEvent<
+      SubscriptionPausedEvent.InputTuple,
+      SubscriptionPausedEvent.OutputTuple,
+      SubscriptionPausedEvent.OutputObject
+    >;
+
+    "SubscriptionResumed(string)": TypedContractEvent<
+      SubscriptionResumedEvent.InputTuple,
+      SubscriptionResumedEvent.OutputTuple,
+      SubscriptionResumedEvent.OutputObject
+    >;
+    SubscriptionResumed: TypedContractEvent<
+      SubscriptionResumedEvent.InputTuple,
+      SubscriptionResumedEvent.OutputTuple,
+      SubscriptionResumedEvent.OutputObject
+    >;
+  };
+}
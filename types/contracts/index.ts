@@ -1,5 +1,8 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { UniversalFHEAdapter } from "./UniversalFHEAdapter";
-
+import type * as autoPayZSol from "./AutoPay_Z.sol";
+export type { autoPayZSol };
+import type * as mocks from "./mocks";
+export type { mocks };
+export type { AutoPayForwarder } from "./AutoPayForwarder";
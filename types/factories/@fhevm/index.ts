@@ -2,4 +2,3 @@
 /* tslint:disable */
 /* eslint-disable */
 export * as solidity from "./solidity";
-
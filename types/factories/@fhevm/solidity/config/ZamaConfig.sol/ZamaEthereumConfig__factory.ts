@@ -41,4 +41,3 @@ export class ZamaEthereumConfig__factory {
     return new Contract(address, _abi, runner) as unknown as ZamaEthereumConfig;
   }
 }
-
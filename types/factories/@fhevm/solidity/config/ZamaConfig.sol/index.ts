@@ -3,4 +3,3 @@
 /* eslint-disable */
 export { ZamaConfig__factory } from "./ZamaConfig__factory";
 export { ZamaEthereumConfig__factory } from "./ZamaEthereumConfig__factory";
-
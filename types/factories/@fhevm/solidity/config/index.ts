@@ -2,4 +2,3 @@
 /* tslint:disable */
 /* eslint-disable */
 export * as zamaConfigSol from "./ZamaConfig.sol";
-
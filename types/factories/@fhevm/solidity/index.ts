@@ -3,4 +3,3 @@
 /* eslint-disable */
 export * as config from "./config";
 export * as lib from "./lib";
-
@@ -52,4 +52,3 @@ export class IKMSVerifier__factory {
     return new Contract(address, _abi, runner) as unknown as IKMSVerifier;
   }
 }
-
@@ -3,4 +3,3 @@
 /* eslint-disable */
 export { FHE__factory } from "./FHE__factory";
 export { IKMSVerifier__factory } from "./IKMSVerifier__factory";
-
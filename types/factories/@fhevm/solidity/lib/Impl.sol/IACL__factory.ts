@@ -119,4 +119,3 @@ export class IACL__factory {
     return new Contract(address, _abi, runner) as unknown as IACL;
   }
 }
-
@@ -808,4 +808,3 @@ export class IFHEVMExecutor__factory {
     return new Contract(address, _abi, runner) as unknown as IFHEVMExecutor;
   }
 }
-
@@ -0,0 +1,7 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as interfaces from "./interfaces";
+export * as metatx from "./metatx";
+export * as token from "./token";
+export * as utils from "./utils";
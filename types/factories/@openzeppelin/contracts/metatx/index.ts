@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC2771Context__factory } from "./ERC2771Context__factory";
+export { ERC2771Forwarder__factory } from "./ERC2771Forwarder__factory";
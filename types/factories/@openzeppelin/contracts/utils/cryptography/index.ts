@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ECDSA__factory } from "./ECDSA__factory";
+export { EIP712__factory } from "./EIP712__factory";
+export { MessageHashUtils__factory } from "./MessageHashUtils__factory";
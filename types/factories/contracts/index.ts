@@ -1,5 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { UniversalFHEAdapter__factory } from "./UniversalFHEAdapter__factory";
-
+export * as autoPayZSol from "./AutoPay_Z.sol";
+export * as mocks from "./mocks";
+export { AutoPayForwarder__factory } from "./AutoPayForwarder__factory";
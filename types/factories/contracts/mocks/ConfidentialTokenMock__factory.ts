@@ -0,0 +1,249 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ConfidentialTokenMock,
+  ConfidentialTokenMockInterface,
+} from "../../../contracts/mocks/ConfidentialTokenMock";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "ConfidentialTransfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "OperatorSet",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620001e257620000156200021a565b5046600103620000f357620000296200021a565b5062000034620001e6565b5f81525f60208201525f828201525b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970180548316918416919091179055918301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054909316911617905551610b5e9081620002378239f35b4662aa36a7036200016357620001086200021a565b5062000113620001e6565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b46617a6903620001d257620001776200021a565b5062000182620001e6565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd24602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200020657604052565b634e487b7160e01b5f52604160045260245ffd5b62000224620001e6565b905f82525f60208301525f604083015256fe6080604081815260049081361015610015575f80fd5b5f925f3560e01c9081632893c5b01461046157508063344ff1011461042b5780638927b03014610408578063b6363cf2146103d2578063d4febb961461034b5763eb3155b514610063575f80fd5b346102685760603660031901126102685761007c610549565b9261008561055f565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700805484516382027b6d60e01b81526044358782018181523360208083019190915295999598919491936001600160a01b0393918a91839182900360400190829087165afa908115610341575f9161030b575b50156102d3576101083386610575565b1561029e5781851693845f525f8952875f20541561026c5788996101b9610173888461015d5f8e9f8f9d9e9f6101bf9961014a918f85528484528420546106a5565b9390956101573086610ab5565b84610ab5565b8c8252528b5f205561016d610a62565b91610907565b988c5f61018c8c8987169c8d84528385528320546105b8565b916101973084610ab5565b6101a18684610ab5565b8b8252528c5f20556101b3308b610ab5565b89610ab5565b87610ab5565b5416803b15610268578651630f8e573b60e21b81529182018581523360208201525f91839182908490829060400103925af1801561025e57610229575b507f67500e8d0ed826d2194f514dd0d8124f35648ab6e3fb5e6ed867134cffe661e9839495519580a48152f35b83945061023590610a18565b7f67500e8d0ed826d2194f514dd0d8124f35648ab6e3fb5e6ed867134cffe661e95f94506101fc565b86513d5f823e3d90fd5b5f80fd5b875162461bcd60e51b81528085018a9052600c60248201526b5a65726f2062616c616e636560a01b6044820152606490fd5b865162461bcd60e51b8152808401899052600f60248201526e2737ba1030b71037b832b930ba37b960891b6044820152606490fd5b865162461bcd60e51b81528084018990526012602482015271105b5bdd5b9d081b9bdd08185b1b1bddd95960721b6044820152606490fd5b90508881813d831161033a575b6103228183610a40565b8101031261026857518015158103610268575f6100f8565b503d610318565b88513d5f823e3d90fd5b5034610268578060031936011261026857610364610549565b906024359065ffffffffffff821680920361026857335f526001602052805f209260018060a01b031692835f52602052805f208265ffffffffffff19825416179055519081527f921a218a75d18e8ec5704851e6b234a85725b21a2521ce889622c35dedc1fa1260203392a3005b50346102685780600319360112610268576020906103ff6103f1610549565b6103f961055f565b90610575565b90519015158152f35b5034610268575f36600319011261026857602090610424610676565b9051908152f35b5034610268576020366003190112610268576020906001600160a01b03610450610549565b165f525f8252805f20549051908152f35b90503461026857816003193601126102685761047b610549565b9260243567ffffffffffffffff81168091036102685760018060a01b0380861691825f52846044815f60209788958287528b832054975f80516020610b32833981519152541691639cd07acb60e01b8552840152600560248401525af193841561053f575f9461050e575b506104f55f94610506926105b8565b956105003088610ab5565b86610ab5565b8252525f2055005b93508284813d8311610538575b6105258183610a40565b81010312610268579251926104f56104e6565b503d61051b565b85513d5f823e3d90fd5b600435906001600160a01b038216820361026857565b602435906001600160a01b038216820361026857565b6001600160a01b03908116911681811491821561059157505090565b9091505f52600160205260405f20905f5260205265ffffffffffff60405f20541642111590565b908115610666575b8015610654575b602090606460018060a01b035f80516020610b328339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115610649575f9161061a575090565b90506020813d602011610641575b8161063560209383610a40565b81010312610268575190565b3d9150610628565b6040513d5f823e3d90fd5b50602061065f610a62565b90506105c7565b9050610670610a62565b906105c0565b4660010361068357600190565b4662aa36a7036106935761271190565b617a6946146106a0575f90565b5f1990565b91909180156107e95782159083826107d8575b5f9060018060a01b035f80516020610b32833981519152908082541660405193631391547f60e01b855286600486015260248501528460448501528360648160209788945af1928315610649575f936107a7575b50905f958492849991610794575b6064919254169160405197889384926303056db360e31b845289600485015260248401528160448401525af1918215610649575f92610762575b5061075f9350610907565b90565b90915083813d831161078d575b6107798183610a40565b810103126102685761075f9251905f610754565b503d61076f565b606491506107a0610a62565b915061071a565b919092508382813d83116107d1575b6107c08183610a40565b81010312610268579051915f61070c565b503d6107b6565b505f6107e2610a62565b90506106b8565b821561088757505f80516020610b328339815191525460405163f77f3f1d60e01b815260048101939093525f60248401819052600160f81b604485015260209184916064918391906001600160a01b03165af1918215610649575f92610853575b5061075f610a62565b9091506020813d60201161087f575b8161086f60209383610a40565b810103126102685751905f61084a565b3d9150610862565b91505f602060018060a01b035f80516020610b328339815191525416604460405180948193639cd07acb60e01b8352600160048401528160248401525af1908115610649575f916108d757509190565b90506020813d6020116108ff575b816108f260209383610a40565b8101031261026857519190565b3d91506108e5565b91908215610994575b8015610986575b8115610970575b6064602092935f60018060a01b035f80516020610b3283398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115610649575f9161061a575090565b60209150606461097e610a62565b92505061091e565b5061098f610a62565b610917565b91505f602060018060a01b035f80516020610b328339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610649575f916109e6575b5091610910565b90506020813d602011610a10575b81610a0160209383610a40565b8101031261026857515f6109df565b3d91506109f4565b67ffffffffffffffff8111610a2c57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610a2c57604052565b5f80516020610b3283398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610649575f9161061a575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561026857604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561064957610b265750565b610b2f90610a18565b56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type ConfidentialTokenMockConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialTokenMockConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialTokenMock__factory extends ContractFactory {
+  constructor(...args: ConfidentialTokenMockConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ConfidentialTokenMock & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ConfidentialTokenMock__factory {
+    return super.connect(runner) as ConfidentialTokenMock__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialTokenMockInterface {
+    return new Interface(_abi) as ConfidentialTokenMockInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialTokenMock {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ConfidentialTokenMock;
+  }
+}